@@ -13,17 +13,8 @@ const smiley = memory.data<u8>([
     0b11000011,
 ]);
 
-/** Lista de cenas principais. */
-let scenes: Tiny.Scene[] = [];
-
-/**
- * Obtém a última cena da pilha.
- *
- * @return {Tiny.Scene}
- */
-function getScene(): Tiny.Scene {
-  return scenes[scenes.length - 1];
-}
+/** Gerenciador de cenas. */
+let core: Tiny.Core = new Tiny.Core();
 
 /**
  * @class Player
@@ -82,7 +73,7 @@ class Collectable extends Tiny.Sprite {
    */
   update(): void {
     // Obter referência da cena atual:
-    let scene: Tiny.Scene = getScene();
+    let scene: Tiny.Scene = core.getScene();
 
     // Internamente, as cenas separam os sprites por UIDs e tags. Desta forma,
     // é possível verificar se a cena contém um objeto específico, neste caso,
@@ -145,8 +136,8 @@ export function start(): void {
   let rootScene: Tiny.Scene = new RootScene();
       rootScene.sprites.push(new Player(80, 80));
 
-  // ...e adicioná-la na lista:
-  scenes.push(rootScene);
+  // ...e empilhá-la:
+  core.push(rootScene);
 }
 
 /**
@@ -154,9 +145,8 @@ export function start(): void {
  */
 export function update(): void {
   // Executar loop sob a última cena da pilha...
-  if(scenes.length > 0) {
-    let scene: Tiny.Scene = getScene();
-        scene.loop();
+  if(core.scenes.length > 0) {
+    core.loop();
   }
   // ...ou exibir uma mensagem de erro quando não existirem mais cenas:
   else {
@@ -10,9 +10,16 @@
  * >> class Vec2             [100%]
  * >> class Viewport         [100%]
  * >> class Font             [100%]
+ * >> class DataGrid         [100%]
+ * >> class TilemapObject    [100%]
+ * >> class RaycastHit       [100%]
  * >> class Tilemap          [100%]
+ * >> class Pathfinder       [100%]
+ * >> class DistanceMap      [100%]
+ * >> class FieldOfView      [100%]
  * >> class Canvas           [100%]
  *  | let canvas
+ * >> class Camera           [100%]
  * >> class GamepadButton    [100%]
  * >> class Gamepad          [100%]
  * >> class Mouse            [100%]
@@ -23,14 +30,57 @@
  *  | let mouse
  * >> class Frame            [100%]
  * >> class Spritesheet      [ 75%]
+ * >> class AnimationClip    [100%]
+ * >> class AnimationPlayer  [100%]
  * >> class Hitbox           [100%]
+ * >> class CircleHitbox     [100%]
+ * >> class MultiHitbox      [100%]
+ * >> class MaskHitbox       [100%]
+ * >> class TileCollision    [100%]
  * >> class Sprite           [ 75%]
+ * >> class PoolBase         [100%]
+ * >> class SpritePool       [100%]
+ * >> class State            [100%]
+ * >> class StateTransition  [100%]
+ * >> class StateMachine     [100%]
+ * >> class ParticleEmitter  [100%]
+ * >> class Tween            [100%]
+ * >> class SpriteTween      [100%]
+ * >> class ViewTween        [100%]
+ * >> class PaletteTween     [100%]
+ * >> class TweenGroup       [100%]
+ * >> class Timer            [100%]
+ * >> class RoutineStep      [100%]
+ * >> class Routine          [100%]
+ * >> class Scheduler        [100%]
+ * >> class ComponentStore   [100%]
+ * >> class PositionStore    [100%]
+ * >> class VelocityStore    [100%]
+ * >> class HitboxStore      [100%]
+ * >> class RenderStore      [100%]
+ * >> class System           [100%]
+ * >> class MovementSystem   [100%]
+ * >> class RenderSystem     [100%]
+ * >> class World            [100%]
+ * >> class EventPayload     [100%]
+ * >> class SceneEvent       [100%]
+ * >> class EventSubscription [100%]
+ * >> class EventBus         [100%]
+ * >> class SpriteHit        [100%]
+ * >> class SpatialHash      [100%]
  * >> class Scene            [ 50%]
+ * >> class Transition       [100%]
+ * >> class FadeTransition   [100%]
+ * >> class WipeTransition   [100%]
+ * >> class IrisTransition   [100%]
+ * >> class SaveField        [100%]
+ * >> class SaveData         [100%]
+ * >> class CoreRequest      [100%]
  * >> class Core             [ 50%]
  * ================================
  * Import lines:
  * ================================
- * >> import {SCREEN_WIDTH, SCREEN_HEIGHT, Vec2, vec2, Viewport, Font, Tilemap, Canvas, canvas, GamepadButton, Gamepad, Mouse, p1, p2, p3, p4, mouse, Frame, Spritesheet, Hitbox, Sprite, Scene, Core} from "./tinysprite";
+ * >> import {SCREEN_WIDTH, SCREEN_HEIGHT, Vec2, vec2, Viewport, Font, DataGrid, GRID_BITS, GRID_HALF_NIBBLES, GRID_NIBBLES, TilemapObject, RaycastHit, Tilemap, TILE_SOLID, TILE_PLATFORM, TILE_SLOPE_RIGHT, TILE_SLOPE_LEFT, Pathfinder, DistanceMap, PATH_COST_STRAIGHT, PATH_COST_DIAGONAL, PATH_UNREACHABLE, FieldOfView, Canvas, canvas, Camera, GamepadButton, Gamepad, Mouse, p1, p2, p3, p4, mouse, Frame, Spritesheet, AnimationClip, AnimationPlayer, ANIMATION_LOOP, ANIMATION_ONCE, ANIMATION_PINGPONG, Hitbox, CircleHitbox, MultiHitbox, MaskHitbox, HITBOX_RECT, HITBOX_CIRCLE, HITBOX_MULTI, HITBOX_MASK, TileCollision, SpriteHandle, SPRITE_HANDLE_NONE, Sprite, PoolBase, SpritePool, StateCondition, State, StateTransition, StateMachine, ParticleEmitter, PARTICLE_PIXEL, PARTICLE_RECT, PARTICLE_OVAL, PARTICLE_FRAME, Tween, SpriteTween, ViewTween, PaletteTween, TweenGroup, TWEEN_X, TWEEN_Y, TWEEN_RED, TWEEN_GREEN, TWEEN_BLUE, TimerCallback, RoutineCallback, RoutineCondition, Timer, RoutineStep, Routine, Scheduler, ROUTINE_WAIT, ROUTINE_CALL, ROUTINE_UNTIL, ROUTINE_TWEEN, ComponentStore, PositionStore, VelocityStore, HitboxStore, RenderStore, COMPONENT_POSITION, COMPONENT_VELOCITY, COMPONENT_HITBOX, COMPONENT_RENDER, System, MovementSystem, RenderSystem, Entity, ENTITY_NONE, World, EventHandler, EventPayload, SceneEvent, EventSubscription, EventBus, SpriteHit, SpatialHash, Scene, Transition, FadeTransition, WipeTransition, IrisTransition, WIPE_RIGHT, WIPE_LEFT, WIPE_DOWN, WIPE_UP, SaveField, SaveData, SAVE_TYPE_U8, SAVE_TYPE_U16, SAVE_TYPE_I32, SAVE_TYPE_BOOL, SAVE_TYPE_STRING, CoreRequest, Core} from "./tinysprite";
  * >> import * as Tiny from "./tinysprite";
  * ================================
  */
@@ -38,6 +88,12 @@
 // WASM-4.
 import * as w4 from "./wasm4";
 
+// Ponto fixo.
+import {FIXED_SHIFT, FIXED_MASK, fxf, fxtof, fxmul, fxsin, fxcos} from "./tinysprite.fixed";
+
+// Suavização.
+import {ease} from "./tinysprite.easing";
+
 /** Largura da tela do WASM-4. */
 export const SCREEN_WIDTH: i32 = 160;
 
@@ -323,1653 +379,11279 @@ export class Font {
 }
 
 // ==========================================================================
-// tilemap.ts
+// data_grid.ts
 // ==========================================================================
+/** Formato de grade: 8 células por byte (1 bit por célula). */
+export const GRID_BITS: i32 = 8;
+
+/** Formato de grade: 4 células por byte (2 bits por célula). */
+export const GRID_HALF_NIBBLES: i32 = 4;
+
+/** Formato de grade: 2 células por byte (4 bits por célula). */
+export const GRID_NIBBLES: i32 = 2;
+
 /**
- * @class Tilemap
+ * @class DataGrid
  *
  * @description
- * Representa um mapa 2D. Pode ser usado para representar fases e cenários.
+ * Representa uma grade de valores compactados em bits, half nibbles ou
+ * nibbles, guardada em uma área de memória. Útil para camadas de
+ * visibilidade, névoa de guerra e afins.
  */
-export class Tilemap {
-  /** Largura dos tiles. */
+export class DataGrid {
+  /** Ponteiro para os dados. */
+  data: usize;
+
+  /** Buffer dos dados (quando alocados pela própria grade). */
+  buffer: ArrayBuffer | null;
+
+  /** Largura (em células). */
   width: i32;
 
-  /** Altura dos tiles. */
+  /** Altura (em células). */
   height: i32;
 
-  /** Tilemap (Array 2D). */
-  map: i16[][];
+  /** Formato dos dados (células por byte). */
+  format: i32;
+
+  /** Quantidade de bytes por linha. */
+  stride: i32;
 
   /**
    * @constructor
    *
-   * @param {Spritesheet} Folha de sprites.
-   * @param {i32} width Largura dos tiles.
-   * @param {i32} height Altura dos tiles.
-   * @param {i16[][]} map Tilemap (Array 2D).
+   * @param {i32} width Largura (em células).
+   * @param {i32} height Altura (em células).
+   * @param {i32} format Formato dos dados (`GRID_BITS`, `GRID_HALF_NIBBLES` ou `GRID_NIBBLES`).
+   * @param {usize} data Ponteiro para os dados (quando zero, eles são alocados).
    */
-  constructor(width: i32, height: i32, map: i16[][]) {
-    this.width = width;
+  constructor(width: i32, height: i32, format: i32 = 8, data: usize = 0) {
+    this.width  = width;
     this.height = height;
-    this.map = map;
+    this.format = format;
+    this.stride = (width + format - 1) / format;
+    this.buffer = null;
+    this.data   = data;
+
+    // Alocar dados, caso nenhum ponteiro tenha sido informado...
+    if(data === 0) {
+      let buffer: ArrayBuffer = new ArrayBuffer(this.stride * height);
+
+      this.buffer = buffer;
+      this.data   = changetype<usize>(buffer);
+    }
   }
 
   /**
-   * Define um tile na posição especificada (em grade).
+   * Retorna se uma posição está dentro dos limites da grade.
    *
    * @param {i32} x Posição X.
    * @param {i32} y Posição Y.
-   * @param {i16} index Índice do tile.
    *
    * @return {boolean}
    */
-  setTile(x: i32, y: i32, index: i16): boolean {
-    // Não seguir adiante quando uma das posições passadas ultrapassar os
-    // limites de linhas do tilemap...
-    if(y < 0 || y >= this.map.length) {
-      return false;
-    }
-
-    // Linha de tiles.
-    let row: i16[] = this.map[y];
+  within(x: i32, y: i32): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height;
+  }
 
-    // Não seguir adiante quando uma das posições passadas ultrapassar os
-    // limites de colunas do tilemap...
-    if(x < 0 || x >= row.length) {
-      return false;
+  /**
+   * Obtém o valor de uma posição.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   *
+   * @return {i32} Valor (ou zero, fora dos limites).
+   */
+  getAt(x: i32, y: i32): i32 {
+    if(!this.within(x, y)) {
+      return 0;
     }
 
-    row[x] = index;
-    return true;
+    let bits : i32 = 8 / this.format;
+    let shift: i32 = (x % this.format) * bits;
+    let value: i32 = load<u8>(this.data + ((y * this.stride) + (x / this.format)) as usize) as i32;
+
+    return (value >> shift) & ((1 << bits) - 1);
   }
 
   /**
-   * Obtém um tile na posição especificada (em grade).
+   * Define o valor de uma posição.
    *
    * @param {i32} x Posição X.
    * @param {i32} y Posição Y.
+   * @param {i32} value Valor.
    *
-   * @return {i16}
+   * @return {boolean}
    */
-  getTile(x: i32, y: i32): i16 {
-    // Não seguir adiante quando uma das posições passadas ultrapassar os
-    // limites de linhas do tilemap...
-    if(y < 0 || y >= this.map.length) {
-      return -1;
+  setAt(x: i32, y: i32, value: i32): boolean {
+    if(!this.within(x, y)) {
+      return false;
     }
 
-    // Linha de tiles.
-    let row: i16[] = this.map[y];
-
-    // Não seguir adiante quando uma das posições passadas ultrapassar os
-    // limites de colunas do tilemap...
-    if(x < 0 || x >= row.length) {
-      return -1;
-    }
+    let bits   : i32   = 8 / this.format;
+    let shift  : i32   = (x % this.format) * bits;
+    let mask   : i32   = ((1 << bits) - 1) << shift;
+    let address: usize = this.data + ((y * this.stride) + (x / this.format)) as usize;
+    let content: i32   = load<u8>(address) as i32;
 
-    return row[x];
+    store<u8>(address, ((content & ~mask) | ((value << shift) & mask)) as u8);
+    return true;
   }
 
   /**
-   * Desenha o tilemap.
+   * Preenche toda a grade com um valor.
    *
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {Spritesheet} spritesheet Folha de sprites.
-   * @param {u16} colors Ordem de cores da paleta.
+   * @param {i32} value Valor.
    */
-  tile(x: i32, y: i32, spritesheet: Spritesheet, colors: u16): boolean {
-    return spritesheet.tile(x, y, this.map, colors);
+  fill(value: i32): void {
+    let bits   : i32 = 8 / this.format;
+    let content: i32 = 0;
+
+    // Repetir o valor em todas as células de um byte...
+    for(let index: i32 = 0; index < this.format; index += 1) {
+      content |= (value & ((1 << bits) - 1)) << (index * bits);
+    }
+
+    memory.fill(this.data, content as u8, (this.stride * this.height) as usize);
   }
 }
 
 // ==========================================================================
-// canvas.ts
+// tilemap_object.ts
 // ==========================================================================
+/** Flag de colisão: tile sólido. */
+export const TILE_SOLID: u8 = 0x01;
+
+/** Flag de colisão: plataforma de mão única. */
+export const TILE_PLATFORM: u8 = 0x02;
+
+/** Flag de colisão: rampa que sobe para a direita ("/"). */
+export const TILE_SLOPE_RIGHT: u8 = 0x04;
+
+/** Flag de colisão: rampa que sobe para a esquerda ("\"). */
+export const TILE_SLOPE_LEFT: u8 = 0x08;
+
+/** Assinatura dos dados de tilemaps ("TM"). */
+const TILEMAP_DATA_MAGIC: u16 = 0x4D54;
+
+/** Versão suportada dos dados de tilemaps. */
+const TILEMAP_DATA_VERSION: u8 = 1;
+
+/** Tamanho do cabeçalho dos dados de tilemaps. */
+const TILEMAP_DATA_HEADER: usize = 14;
+
 /**
- * @class Canvas
+ * @class TilemapObject
  *
  * @description
- * Abstração de funções de desenho do WASM-4.
+ * Representa um objeto de um mapa do Tiled (pontos de spawn, gatilhos, etc.),
+ * com suas propriedades personalizadas.
  */
-export class Canvas {
-  /** Área de desenho. */
-  view: Viewport;
+export class TilemapObject {
+  /** Nome. */
+  name: string;
 
-  /** Paleta de cores. */
-  palette: i32[];
+  /** Tipo (classe). */
+  type: string;
 
-  /** Quando "true", mantém a tela "suja". */
-  preserveFrameBuffer: boolean;
+  /** Posição X (em pixels). */
+  x: i32;
 
-  /** Quando "true", esconde os botões da versão mobile. */
-  hideGamepadOverlay: boolean;
+  /** Posição Y (em pixels). */
+  y: i32;
 
-  /**
-   * @constructor
-   *
-   * @param {Viewport} Área de desenho.
-   * @param {Vec2} camera Câmera.
-   */
-  constructor() {
-    this.view = new Viewport(0, 0, SCREEN_WIDTH, SCREEN_HEIGHT);
-    this.palette = [
-      0xe0f8cf,
-      0x86c06c,
-      0x306850,
-      0x071821
-    ];
-    this.preserveFrameBuffer = false;
-    this.hideGamepadOverlay  = false;
-  }
+  /** Largura (em pixels). */
+  width: i32;
 
-  /**
-   * Atualiza a paleta de cores.
-   *
-   * @return {boolean}
-   */
-  updatePalette(): boolean {
-    // Não atualizar a paleta quando não houver a quantidade mínima de cores:
-    if(this.palette.length < 4) {
-      return false;
-    }
+  /** Altura (em pixels). */
+  height: i32;
 
-    // Atualizar paleta de cores...
-    store<u32>(w4.PALETTE, this.palette[0] as u32, 0 * sizeof<u32>());
-    store<u32>(w4.PALETTE, this.palette[1] as u32, 1 * sizeof<u32>());
-    store<u32>(w4.PALETTE, this.palette[2] as u32, 2 * sizeof<u32>());
-    store<u32>(w4.PALETTE, this.palette[3] as u32, 3 * sizeof<u32>());
+  /** Nomes das propriedades. */
+  keys: string[];
 
-    return true;
-  }
+  /** Valores das propriedades. */
+  values: string[];
 
   /**
-   * Atualiza as flags.
+   * @constructor
    *
-   * @return {boolean}
+   * @param {string} name Nome.
+   * @param {string} type Tipo (classe).
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
    */
-  updateSystemFlags(): boolean {
-    // Valores das flags.
-    let bitA: i32 = this.hideGamepadOverlay?  2: 0;
-    let bitB: i32 = this.preserveFrameBuffer? 1: 0;
-
-    // Atualizar flags...
-    store<u8>(w4.SYSTEM_FLAGS, bitA + bitB);
-    return true;
+  constructor(name: string, type: string, x: i32, y: i32, width: i32, height: i32) {
+    this.name   = name;
+    this.type   = type;
+    this.x      = x;
+    this.y      = y;
+    this.width  = width;
+    this.height = height;
+    this.keys   = [];
+    this.values = [];
   }
 
   /**
-   * Retorna se uma instância está visível na tela.
+   * Retorna se existe uma propriedade com o nome especificado.
    *
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {i32} width Largura.
-   * @param {i32} height Altura.
+   * @param {string} key Nome da propriedade.
    *
    * @return {boolean}
    */
-  isVisible(x: i32, y: i32, width: i32, height: i32): boolean {
-    return (
-      this.viewX(x)          < SCREEN_WIDTH  &&
-      this.viewX(x + width)  > 0             &&
-      this.viewY(y)          < SCREEN_HEIGHT &&
-      this.viewY(y + height) > 0
-    );
+  hasProperty(key: string): boolean {
+    return this.keys.includes(key);
   }
 
   /**
-   * Calcula uma posição X relativa à área de desenho.
+   * Obtém o valor de uma propriedade.
    *
-   * @param {i32} x Posição X.
+   * @param {string} key Nome da propriedade.
+   * @param {string} fallback Valor padrão, caso ela não exista.
    *
-   * @return {i32}
+   * @return {string}
    */
-  viewX(x: i32): i32 {
-    return x - this.view.x;
+  getProperty(key: string, fallback: string = ""): string {
+    let index: i32 = this.keys.indexOf(key);
+    return index >= 0? this.values[index]: fallback;
   }
 
   /**
-   * Calcula uma posição Y relativa à área de desenho.
+   * Obtém o valor de uma propriedade numérica.
    *
-   * @param {i32} x Posição X.
+   * @param {string} key Nome da propriedade.
+   * @param {i32} fallback Valor padrão, caso ela não exista.
    *
    * @return {i32}
    */
-  viewY(y: i32): i32 {
-    return y - this.view.y;
+  getInt(key: string, fallback: i32 = 0): i32 {
+    let index: i32 = this.keys.indexOf(key);
+    return index >= 0? I32.parseInt(this.values[index]): fallback;
   }
 
   /**
-   * Desenha uma imagem na tela.
+   * Obtém o valor de uma propriedade booleana.
    *
-   * @param {usize} image Imagem de referência.
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {i32} width Largura.
-   * @param {i32} height Altura.
-   * @param {u16} colors Ordem de cores da paleta.
-   * @param {u32} flags Flags de desenho da imagem de referência.
+   * @param {string} key Nome da propriedade.
+   * @param {boolean} fallback Valor padrão, caso ela não exista.
+   *
+   * @return {boolean}
    */
-  blit(image: usize, x: i32, y: i32, width: i32, height: i32, colors: u16, flags: u32): boolean {
-    // Não desenhar fora da tela...
-    if(!this.isVisible(x, y, width, height)) {
-      return false;
-    }
+  getBool(key: string, fallback: boolean = false): boolean {
+    let index: i32 = this.keys.indexOf(key);
+    return index >= 0? this.values[index] === "true": fallback;
+  }
+}
 
-    // Alterar ordem de cores da paleta:
-    store<u16>(w4.DRAW_COLORS, colors);
+// ==========================================================================
+// raycast_hit.ts
+// ==========================================================================
+/**
+ * @class RaycastHit
+ *
+ * @description
+ * Resultado de um raycast: o primeiro tile que bloqueou o raio.
+ */
+export class RaycastHit {
+  /** Coluna do tile atingido. */
+  column: i32;
 
-    // Desenhar imagem...
-    w4.blit(
-      image,
-      this.viewX(x),
-      this.viewY(y),
-      width as u32,
-      height as u32,
-      flags
-    );
+  /** Linha do tile atingido. */
+  row: i32;
 
-    return true;
-  }
+  /** Índice do tile atingido. */
+  tile: i16;
 
-  /**
-   * Desenha um fragmento de uma imagem na tela.
-   *
-   * @param {usize} image Imagem de referência.
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {i32} width Largura.
-   * @param {i32} height Altura.
-   * @param {i32} cutX Posição X de corte.
-   * @param {u16} cutY Posição Y de corte.
-   * @param {u16} stride Use a largura da imagem de referência.
-   * @param {u16} colors Ordem de cores da paleta.
-   * @param {u32} flags Flags de desenho da imagem de referência.
-   */
-  blitSub(image: usize, x: i32, y: i32, width: i32, height: i32, cutX: i32, cutY: i32, stride: i32, colors: u16, flags: u32): boolean {
-    // Não desenhar fora da tela...
-    if(!this.isVisible(x, y, width, height)) {
-      return false;
-    }
+  /** Posição X do impacto (em pixels). */
+  x: f32;
 
-    // Alterar ordem de cores da paleta:
-    store<u16>(w4.DRAW_COLORS, colors);
+  /** Posição Y do impacto (em pixels). */
+  y: f32;
 
-    // Desenhar imagem...
-    w4.blitSub(
-      image,
-      this.viewX(x),
-      this.viewY(y),
-      width as u32,
-      height as u32,
-      cutX as u32,
-      cutY as u32,
-      stride,
-      flags
-    );
+  /** Distância percorrida pelo raio até o impacto. */
+  distance: f32;
 
-    return true;
-  }
+  /** Direção X da face atingida (-1, 0 ou 1). */
+  normalX: i32;
+
+  /** Direção Y da face atingida (-1, 0 ou 1). */
+  normalY: i32;
 
   /**
-   * Desenha uma linha na tela.
-   *
-   * @param {i32} x1 Posição X inicial.
-   * @param {i32} y1 Posição Y inicial.
-   * @param {i32} x2 Posição X final.
-   * @param {i32} y2 Posição Y final.
-   * @param {u16} colors Ordem de cores da paleta.
+   * @constructor
    */
-  line(x1: i32, y1: i32, x2: i32, y2: i32, colors: u16): boolean {
-    // Alterar ordem de cores da paleta:
-    store<u16>(w4.DRAW_COLORS, colors);
+  constructor() {
+    this.column   = 0;
+    this.row      = 0;
+    this.tile     = -1;
+    this.x        = 0;
+    this.y        = 0;
+    this.distance = 0;
+    this.normalX  = 0;
+    this.normalY  = 0;
+  }
+}
 
-    // Desenhar linha...
-    w4.line(
-      this.viewX(x1),
-      this.viewY(y1),
-      this.viewX(x2),
-      this.viewY(y2)
-    );
+// ==========================================================================
+// tilemap.ts
+// ==========================================================================
+/**
+ * @class Tilemap
+ *
+ * @description
+ * Representa um mapa 2D. Pode ser usado para representar fases e cenários.
+ */
+export class Tilemap {
+  /** Largura dos tiles. */
+  width: i32;
 
-    return true;
-  }
+  /** Altura dos tiles. */
+  height: i32;
+
+  /** Tilemap (Array 2D). */
+  map: i16[][];
 
   /**
-   * Desenha uma linha horizontal na tela.
-   *
-   * @param {i32} x Posição X inicial.
-   * @param {i32} y Posição Y inicial.
-   * @param {i32} length Tamanho da linha.
-   * @param {u16} colors Ordem de cores da paleta.
+   * Ponteiro para os tiles na memória (`i16`, linha por linha), usado no
+   * lugar de `map` quando o tilemap é carregado com `Tilemap.fromData()`.
+   * Quando zero, os tiles são lidos de `map`.
    */
-  hline(x: i32, y: i32, length: i32, colors: u16): boolean {
-    // Alterar ordem de cores da paleta:
-    store<u16>(w4.DRAW_COLORS, colors);
+  data: usize;
 
-    // Desenhar linha...
-    w4.hline(
-      this.viewX(x),
-      this.viewY(y),
-      length
-    );
+  /** Quantidade de colunas (a partir da linha mais longa). */
+  columns: i32;
 
-    return true;
-  }
+  /** Quantidade de linhas. */
+  rows: i32;
 
-  /**
-   * Desenha uma linha vertical na tela.
-   *
-   * @param {i32} x Posição X inicial.
-   * @param {i32} y Posição Y inicial.
-   * @param {i32} length Tamanho da linha.
-   * @param {u16} colors Ordem de cores da paleta.
-   */
-  vline(x: i32, y: i32, length: i32, colors: u16): boolean {
-    // Alterar ordem de cores da paleta:
-    store<u16>(w4.DRAW_COLORS, colors);
+  /** Índices de tiles sólidos. */
+  solids: i16[];
 
-    // Desenhar linha...
-    w4.vline(
-      this.viewX(x),
-      this.viewY(y),
-      length
-    );
+  /** Índices de plataformas de mão única (sólidas apenas por cima). */
+  platforms: i16[];
 
-    return true;
-  }
+  /** Índices de rampas que sobem para a direita ("/"). */
+  slopesRight: i16[];
+
+  /** Índices de rampas que sobem para a esquerda ("\"). */
+  slopesLeft: i16[];
+
+  /** Objetos do mapa (pontos de spawn, gatilhos, etc.). */
+  objects: TilemapObject[];
+
+  /** Resultado do último raycast (reutilizado a cada chamada). */
+  hit: RaycastHit;
 
   /**
-   * Desenha um círculo na tela.
+   * @constructor
    *
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {i32} width Largura.
-   * @param {i32} height Altura.
-   * @param {u16} colors Ordem de cores da paleta.
+   * @param {Spritesheet} Folha de sprites.
+   * @param {i32} width Largura dos tiles.
+   * @param {i32} height Altura dos tiles.
+   * @param {i16[][]} map Tilemap (Array 2D).
    */
-  oval(x: i32, y: i32, width: i32, height: i32, colors: u16): boolean {
-    // Não desenhar fora da tela...
-    if(!this.isVisible(x, y, width, height)) {
-      return false;
+  constructor(width: i32, height: i32, map: i16[][]) {
+    this.width = width;
+    this.height = height;
+    this.map = map;
+    this.data = 0;
+    this.columns = 0;
+    this.rows = map.length;
+    this.solids = [];
+    this.platforms = [];
+    this.slopesRight = [];
+    this.slopesLeft = [];
+    this.objects = [];
+    this.hit = new RaycastHit();
+
+    // Calcular quantidade de colunas, a partir da linha mais longa...
+    for(let row: i32 = 0; row < map.length; row += 1) {
+      this.columns = max<i32>(this.columns, map[row].length);
     }
-
-    // Alterar ordem de cores da paleta:
-    store<u16>(w4.DRAW_COLORS, colors);
-
-    // Desenhar círculo...
-    w4.oval(
-      this.viewX(x),
-      this.viewY(y),
-      width,
-      height
-    );
-
-    return true;
   }
 
   /**
-   * Desenha um retângulo na tela.
+   * Lê um texto ASCII dos dados de um tilemap (precedido de seu tamanho).
    *
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {i32} width Largura.
-   * @param {i32} height Altura.
-   * @param {u16} colors Ordem de cores da paleta.
+   * @param {usize} ptr Ponteiro para o texto.
+   *
+   * @return {string}
    */
-  rect(x: i32, y: i32, width: i32, height: i32, colors: u16): boolean {
-    // Não desenhar fora da tela...
-    if(!this.isVisible(x, y, width, height)) {
-      return false;
-    }
-
-    // Alterar ordem de cores da paleta:
-    store<u16>(w4.DRAW_COLORS, colors);
-
-    // Desenhar retângulo...
-    w4.rect(
-      this.viewX(x),
-      this.viewY(y),
-      width,
-      height
-    );
-
-    return true;
+  static readString(ptr: usize): string {
+    return String.UTF8.decodeUnsafe(ptr + 1, load<u8>(ptr) as usize);
   }
 
   /**
-   * Escreve um texto na tela usando a fonte padrão.
+   * Carrega um tilemap a partir dos dados gerados por `tinysprite.tiled.js`.
+   * Os tiles não são copiados: eles são lidos diretamente da memória.
    *
-   * @param {string} text Texto a ser escrito.
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {u16} colors Ordem de cores da paleta.
+   * @param {usize} ptr Ponteiro para os dados (`memory.data`).
+   * @param {string} layer Nome da camada de tiles (vazio para a primeira).
    *
-   * @return {boolean}
+   * @return {Tilemap | null} Tilemap, ou `null` quando os dados forem
+   *         inválidos ou a camada não existir.
    */
-  text(text: string, x: i32, y: i32, colors: u16): boolean {
-    // Alterar ordem de cores da paleta:
-    store<u16>(w4.DRAW_COLORS, colors);
+  static fromData(ptr: usize, layer: string = ""): Tilemap | null {
+    // Validar assinatura e versão...
+    if(load<u16>(ptr) !== TILEMAP_DATA_MAGIC || load<u8>(ptr, 2) !== TILEMAP_DATA_VERSION) {
+      return null;
+    }
 
-    // Escrever texto (com fonte padrão)...
-    w4.text(text, x, y);
+    let layerCount : i32 = load<u8>(ptr, 3) as i32;
+    let columns    : i32 = load<u16>(ptr, 4) as i32;
+    let rows       : i32 = load<u16>(ptr, 6) as i32;
+    let tileWidth  : i32 = load<u8>(ptr, 8) as i32;
+    let tileHeight : i32 = load<u8>(ptr, 9) as i32;
+    let flagCount  : i32 = load<u16>(ptr, 10) as i32;
+    let objectCount: i32 = load<u16>(ptr, 12) as i32;
 
-    return true;
-  }
-}
+    let tilemap: Tilemap = new Tilemap(tileWidth, tileHeight, []);
+    tilemap.columns = columns;
+    tilemap.rows    = rows;
 
-/** Canvas principal. */
-export let canvas: Canvas = new Canvas();
+    // Flags de colisão:
+    let offset: usize = ptr + TILEMAP_DATA_HEADER;
 
-// ==========================================================================
-// gamepad_button.ts
-// ==========================================================================
-/** Identificador do jogador 1. */
-const GAMEPAD_P1: u8 = 0;
+    for(let index: i32 = 0; index < flagCount; index += 1) {
+      let flags: u8 = load<u8>(offset + (index as usize));
 
-/** Identificador do jogador 2. */
-const GAMEPAD_P2: u8 = 1;
+      if((flags & TILE_SOLID) !== 0) {
+        tilemap.solids.push(index as i16);
+      }
+      if((flags & TILE_PLATFORM) !== 0) {
+        tilemap.platforms.push(index as i16);
+      }
+      if((flags & TILE_SLOPE_RIGHT) !== 0) {
+        tilemap.slopesRight.push(index as i16);
+      }
+      if((flags & TILE_SLOPE_LEFT) !== 0) {
+        tilemap.slopesLeft.push(index as i16);
+      }
+    }
 
-/** Identificador do jogador 3. */
-const GAMEPAD_P3: u8 = 2;
+    offset += flagCount as usize;
 
-/** Indicador do jogador 4. */
-const GAMEPAD_P4: u8 = 3;
+    // Camadas de tiles:
+    let layerSize: usize = ((columns * rows) as usize) << 1;
 
-/** Estado de controle inerte. */
-const GAMEPAD_STATE_IDLE: u8 = 0;
+    for(let index: i32 = 0; index < layerCount; index += 1) {
+      let nameSize: usize = (load<u8>(offset) as usize) + 1;
 
-/** Estado de controle recém-pressionado. */
-const GAMEPAD_STATE_PRESSED: u8 = 1;
+      // Usar a primeira camada ou a camada com o nome especificado...
+      if(tilemap.data === 0 && (layer === "" || Tilemap.readString(offset) === layer)) {
+        tilemap.data = offset + nameSize;
+      }
 
-/** Estado de controle mantido. */
-const GAMEPAD_STATE_HELD: u8 = 2;
+      offset += nameSize + layerSize;
+    }
 
-/** Estado de controle recém-solto. */
-const GAMEPAD_STATE_RELEASED: u8 = 3;
+    if(tilemap.data === 0) {
+      return null;
+    }
 
-/**
- * @class GamepadButton
- *
- * @description
- * Representa um dos botões de controle. Útil para obter eventos rápidos, como
- * checar se foi pressionado ou não.
- */
-export class GamepadButton {
-  /** Estado de botão. */
-  state: u8;
+    // Objetos:
+    for(let index: i32 = 0; index < objectCount; index += 1) {
+      let name: string = Tilemap.readString(offset);
+      offset += (load<u8>(offset) as usize) + 1;
+
+      let type: string = Tilemap.readString(offset);
+      offset += (load<u8>(offset) as usize) + 1;
+
+      let object: TilemapObject = new TilemapObject(
+        name,
+        type,
+        load<i16>(offset, 0) as i32,
+        load<i16>(offset, 2) as i32,
+        load<u16>(offset, 4) as i32,
+        load<u16>(offset, 6) as i32
+      );
+
+      let propertyCount: i32 = load<u8>(offset, 8) as i32;
+      offset += 9;
+
+      // Propriedades:
+      for(let property: i32 = 0; property < propertyCount; property += 1) {
+        object.keys.push(Tilemap.readString(offset));
+        offset += (load<u8>(offset) as usize) + 1;
+
+        object.values.push(Tilemap.readString(offset));
+        offset += (load<u8>(offset) as usize) + 1;
+      }
+
+      tilemap.objects.push(object);
+    }
+
+    return tilemap;
+  }
 
   /**
-   * @constructor
+   * Obtém o primeiro objeto com o nome especificado.
+   *
+   * @param {string} name Nome do objeto.
+   *
+   * @return {TilemapObject | null}
    */
-  constructor() {
-    this.state = 0;
+  getObject(name: string): TilemapObject | null {
+    for(let index: i32 = 0; index < this.objects.length; index += 1) {
+      let object: TilemapObject = this.objects[index];
+
+      if(object.name === name) {
+        return object;
+      }
+    }
+
+    return null;
   }
 
   /**
-   * Avança para o próximo estado de botão, a partir de uma situação atual.
+   * Obtém todos os objetos do tipo especificado.
    *
-   * @param {boolean} pressed Indica se o botão de entrada está pressionado.
+   * @param {string} type Tipo (classe) dos objetos.
    *
-   * @return {u8}
+   * @return {TilemapObject[]}
    */
-  nextState(pressed: boolean): u8 {
-    // Ciclo de estados quando o botão estiver pressionado.
-    let whenPressed: u8[] = [
-      GAMEPAD_STATE_PRESSED, // Quando inerte.
-      GAMEPAD_STATE_HELD,    // Quando recém-pressionado.
-      GAMEPAD_STATE_HELD,    // Quando mantido.
-      GAMEPAD_STATE_PRESSED  // Quando recém-solto.
-    ];
+  getObjects(type: string): TilemapObject[] {
+    let result: TilemapObject[] = [];
 
-    // Ciclo de estados quando o botão estiver solto.
-    let whenReleased: u8[] = [
-      GAMEPAD_STATE_IDLE,     // Quando inerte.
-      GAMEPAD_STATE_RELEASED, // Quando recém-pressionado.
-      GAMEPAD_STATE_RELEASED, // Quando mantido.
-      GAMEPAD_STATE_IDLE      // Quando recém-solto.
-    ];
+    for(let index: i32 = 0; index < this.objects.length; index += 1) {
+      let object: TilemapObject = this.objects[index];
 
-    if(pressed) {
-      this.state = whenPressed[this.state];
-    }
-    else {
-      this.state = whenReleased[this.state];
+      if(object.type === type) {
+        result.push(object);
+      }
     }
 
-    return this.state;
+    return result;
   }
 
   /**
-   * Indica se este botão está inerte.
+   * Calcula a coluna da grade equivalente a uma posição X (em pixels).
    *
-   * @return {boolean}
+   * @param {i32} x Posição X.
+   *
+   * @return {i32}
    */
-  idle(): boolean {
-    return this.state === GAMEPAD_STATE_IDLE;
+  column(x: i32): i32 {
+    return Math.floor((x as f64) / (this.width as f64)) as i32;
   }
 
   /**
-   * Indica se este botão está recém-pressionado.
+   * Calcula a linha da grade equivalente a uma posição Y (em pixels).
    *
-   * @return {boolean}
+   * @param {i32} y Posição Y.
+   *
+   * @return {i32}
    */
-  pressed(): boolean {
-    return this.state === GAMEPAD_STATE_PRESSED;
+  row(y: i32): i32 {
+    return Math.floor((y as f64) / (this.height as f64)) as i32;
   }
 
   /**
-   * Indica se este botão está mantido.
+   * Retorna se o tile na posição especificada (em grade) é um dos índices
+   * informados.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i16[]} tiles Índices do tilemap a serem checados.
    *
    * @return {boolean}
    */
-  held(): boolean {
-    return this.state === GAMEPAD_STATE_HELD;
+  hasTile(x: i32, y: i32, tiles: i16[]): boolean {
+    let tile: i16 = this.getTile(x, y);
+
+    return tile >= 0 && tiles.includes(tile);
   }
 
   /**
-   * Indica se este botão está solto.
+   * Retorna se algum tile dentro de uma área (em pixels) é um dos índices
+   * informados.
+   *
+   * @param {i32} left Posição esquerda.
+   * @param {i32} top Posição superior.
+   * @param {i32} right Posição direita (não inclusa).
+   * @param {i32} bottom Posição inferior (não inclusa).
+   * @param {i16[]} tiles Índices do tilemap a serem checados.
    *
    * @return {boolean}
    */
-  released(): boolean {
-    return this.sate === GAMEPAD_STATE_RELEASED;
+  hasTileIn(left: i32, top: i32, right: i32, bottom: i32, tiles: i16[]): boolean {
+    let column1: i32 = this.column(left);
+    let column2: i32 = this.column(right - 1);
+    let row1   : i32 = this.row(top);
+    let row2   : i32 = this.row(bottom - 1);
+
+    for(let row: i32 = row1; row <= row2; row += 1) {
+      for(let column: i32 = column1; column <= column2; column += 1) {
+        if(this.hasTile(column, row, tiles)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
   }
-}
 
-// ==========================================================================
-// gamepad.ts
-// ==========================================================================
-/**
- * @class Gamepad
- *
- * @description
- * Representa um controle de jogador.
- */
-export class Gamepad {
-  /** Número do jogador. */
-  player: u8;
-
-  /** Botão para cima. */
-  up: GamepadButton;
-
-  /** Botão para baixo. */
-  down: GamepadButton;
-
-  /** Botáo para esquerda. */
-  left: GamepadButton;
+  /**
+   * Calcula a superfície de uma rampa em uma posição (em pixels).
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   *
+   * @return {i32} Posição Y logo abaixo da superfície, onde a base de um
+   *         sprite deve repousar (ou `i32.MAX_VALUE`, quando não há rampa).
+   */
+  slopeSurface(x: i32, y: i32): i32 {
+    let column: i32 = this.column(x);
+    let row   : i32 = this.row(y);
 
-  /** Botáo para direita. */
-  right: GamepadButton;
+    // Posição horizontal dentro do tile (de 1 até a largura do tile).
+    let local: i32 = x - (column * this.width) + 1;
 
-  /** Botáo 1 (tecla Z). */
-  b1: GamepadButton;
+    // Base do tile.
+    let base: i32 = (row + 1) * this.height;
 
-  /** Botáo 2 (tecla X). */
-  b2: GamepadButton;
+    // Rampa "/": mais alta à direita...
+    if(this.hasTile(column, row, this.slopesRight)) {
+      return base - ((local * this.height) / this.width);
+    }
+    // Rampa "\": mais alta à esquerda...
+    if(this.hasTile(column, row, this.slopesLeft)) {
+      return base - (((this.width - local + 1) * this.height) / this.width);
+    }
 
-  /**
-   * @constructor
-   *
-   * @param {usize} input Porta de referência.
-   */
-  constructor(player: u8) {
-    this.player = player;
-    this.up    = new GamepadButton();
-    this.down  = new GamepadButton();
-    this.left  = new GamepadButton();
-    this.right = new GamepadButton();
-    this.b1    = new GamepadButton();
-    this.b2    = new GamepadButton();
+    return i32.MAX_VALUE;
   }
 
   /**
-   * Retorna a entrada de referência do jogador deste controle.
+   * Dispara um raio pelo tilemap (DDA), até atingir um dos tiles informados.
    *
-   * @return {usize}
+   * @param {f32} x Posição X de origem (em pixels).
+   * @param {f32} y Posição Y de origem (em pixels).
+   * @param {f32} dirX Direção X do raio.
+   * @param {f32} dirY Direção Y do raio.
+   * @param {f32} maxDistance Distância máxima (em pixels).
+   * @param {i16[]} tiles Índices dos tiles que bloqueiam o raio.
+   *
+   * @return {RaycastHit | null} Impacto (reutilizado a cada chamada), ou
+   *         `null` quando nenhum tile for atingido.
    */
-  gamepad(): usize {
-    // Porta do jogador 1...
-    if(this.player === GAMEPAD_P1) {
-      return load<u8>(w4.GAMEPAD1);
-    }
-    // Porta do jogador 2...
-    else if(this.player === GAMEPAD_P2) {
-      return load<u8>(w4.GAMEPAD2);
-    }
-    // Porta do jogador 3...
-    else if(this.player === GAMEPAD_P3) {
-      return load<u8>(w4.GAMEPAD3);
+  raycast(x: f32, y: f32, dirX: f32, dirY: f32, maxDistance: f32, tiles: i16[]): RaycastHit | null {
+    let length: f32 = Mathf.sqrt((dirX * dirX) + (dirY * dirY));
+
+    if(length === 0) {
+      return null;
     }
-    // Porta do jogador 4...
-    else {
-      return load<u8>(w4.GAMEPAD4);
+
+    // Normalizar direção...
+    dirX /= length;
+    dirY /= length;
+
+    let width  : f32 = this.width as f32;
+    let height : f32 = this.height as f32;
+    let column : i32 = Mathf.floor(x / width) as i32;
+    let row    : i32 = Mathf.floor(y / height) as i32;
+    let stepX  : i32 = dirX > 0? 1: (dirX < 0? -1: 0);
+    let stepY  : i32 = dirY > 0? 1: (dirY < 0? -1: 0);
+    let normalX: i32 = 0;
+    let normalY: i32 = 0;
+    let travel : f32 = 0;
+
+    // Distância percorrida para atravessar um tile inteiro em cada eixo...
+    let deltaX: f32 = stepX !== 0? Mathf.abs(width / dirX): f32.MAX_VALUE;
+    let deltaY: f32 = stepY !== 0? Mathf.abs(height / dirY): f32.MAX_VALUE;
+
+    // ...e até a próxima borda de tile em cada eixo:
+    let nextX: f32 = f32.MAX_VALUE;
+    let nextY: f32 = f32.MAX_VALUE;
+
+    if(stepX > 0) { nextX = ((((column + 1) as f32) * width) - x) / dirX; }
+    if(stepX < 0) { nextX = (((column as f32) * width) - x) / dirX; }
+    if(stepY > 0) { nextY = ((((row + 1) as f32) * height) - y) / dirY; }
+    if(stepY < 0) { nextY = (((row as f32) * height) - y) / dirY; }
+
+    while(travel <= maxDistance) {
+      // Não seguir adiante fora dos limites do tilemap...
+      // (ou quando o raio estiver se afastando dele)...
+      if(column < 0 || row < 0 || column >= this.columns || row >= this.rows) {
+        if((column < 0 && stepX <= 0) || (column >= this.columns && stepX >= 0) || (row < 0 && stepY <= 0) || (row >= this.rows && stepY >= 0)) {
+          return null;
+        }
+      }
+      // Tile bloqueado...
+      else if(this.hasTile(column, row, tiles)) {
+        let hit: RaycastHit = this.hit;
+
+        hit.column   = column;
+        hit.row      = row;
+        hit.tile     = this.getTile(column, row);
+        hit.x        = x + (dirX * travel);
+        hit.y        = y + (dirY * travel);
+        hit.distance = travel;
+        hit.normalX  = normalX;
+        hit.normalY  = normalY;
+        return hit;
+      }
+
+      // Avançar até a próxima borda...
+      if(nextX < nextY) {
+        column += stepX;
+        travel  = nextX;
+        nextX  += deltaX;
+        normalX = -stepX;
+        normalY = 0;
+      }
+      else {
+        row    += stepY;
+        travel  = nextY;
+        nextY  += deltaY;
+        normalX = 0;
+        normalY = -stepY;
+      }
     }
+
+    return null;
   }
 
   /**
-   * Atualiza todos os estados de tecla.
+   * Retorna se há linha de visão entre duas posições (em pixels).
+   *
+   * @param {f32} x1 Posição X de origem.
+   * @param {f32} y1 Posição Y de origem.
+   * @param {f32} x2 Posição X de destino.
+   * @param {f32} y2 Posição Y de destino.
+   * @param {i16[]} tiles Índices dos tiles que bloqueiam a visão.
+   *
+   * @return {boolean}
    */
-  update(): void {
-    let gamepad: usize = this.gamepad();
+  lineOfSight(x1: f32, y1: f32, x2: f32, y2: f32, tiles: i16[]): boolean {
+    let dx: f32 = x2 - x1;
+    let dy: f32 = y2 - y1;
 
-    this.up.nextState(gamepad & w4.BUTTON_UP? true: false);
-    this.down.nextState(gamepad & w4.BUTTON_DOWN? true: false);
-    this.left.nextState(gamepad & w4.BUTTON_LEFT? true: false);
-    this.right.nextState(gamepad & w4.BUTTON_RIGHT? true: false);
-    this.b1.nextState(gamepad & w4.BUTTON_1? true: false);
-    this.b2.nextState(gamepad & w4.BUTTON_2? true: false);
+    return this.raycast(x1, y1, dx, dy, Mathf.sqrt((dx * dx) + (dy * dy)), tiles) === null;
   }
-}
-
-/** Controles do jogador 1. */
-export let p1: Gamepad = new Gamepad(GAMEPAD_P1);
-
-/** Controles do jogador 2. */
-export let p2: Gamepad = new Gamepad(GAMEPAD_P2);
-
-/** Controles do jogador 3. */
-export let p3: Gamepad = new Gamepad(GAMEPAD_P3);
 
-/** Controles do jogador 4. */
-export let p4: Gamepad = new Gamepad(GAMEPAD_P4);
+  /**
+   * Define um tile na posição especificada (em grade).
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i16} index Índice do tile.
+   *
+   * @return {boolean}
+   */
+  setTile(x: i32, y: i32, index: i16): boolean {
+    // Tiles carregados na memória...
+    if(this.data !== 0) {
+      if(x < 0 || y < 0 || x >= this.columns || y >= this.rows) {
+        return false;
+      }
 
-// ==========================================================================
-// mouse.ts
-// ==========================================================================
-/**
- * @class Mouse
- *
- * @description
- * Representa um cursor de mouse/touchscreen.
- */
-export class Mouse {
-  /** Posição do mouse. */
-  position: Vec2;
+      store<i16>(this.data + ((((y * this.columns) + x) as usize) << 1), index);
+      return true;
+    }
 
-  /** Botão esquerdo do mouse. */
-  left: GamepadButton;
+    // Não seguir adiante quando uma das posições passadas ultrapassar os
+    // limites de linhas do tilemap...
+    if(y < 0 || y >= this.map.length) {
+      return false;
+    }
 
-  /** Botão direito do mouse. */
-  right: GamepadButton;
+    // Linha de tiles.
+    let row: i16[] = this.map[y];
 
-  /** Botão do meio do mouse. */
-  middle: GamepadButton;
+    // Não seguir adiante quando uma das posições passadas ultrapassar os
+    // limites de colunas do tilemap...
+    if(x < 0 || x >= row.length) {
+      return false;
+    }
 
-  /**
-   * @constructor
-   */
-  constructor() {
-    this.position = new Vec2(0, 0);
-    this.left     = new GamepadButton();
-    this.right    = new GamepadButton();
-    this.middle   = new GamepadButton();
+    row[x] = index;
+    return true;
   }
 
   /**
-   * Atualiza todos os estados de tecla.
+   * Obtém um tile na posição especificada (em grade).
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   *
+   * @return {i16}
    */
-  update(): void {
-    let mouse: usize = load<u8>(w4.MOUSE_BUTTONS);
-
-    this.left.nextState(mouse & w4.MOUSE_LEFT? true: false);
-    this.right.nextState(mouse & w4.MOUSE_RIGHT? true: false);
-    this.middle.nextState(mouse & w4.MOUSE_MIDDLE? true: false);
-
-    this.position.x = load<i16>(w4.MOUSE_X) as i32;
-    this.position.y = load<i16>(w4.MOUSE_Y) as i32;
-  }
-}
+  getTile(x: i32, y: i32): i16 {
+    // Tiles carregados na memória...
+    if(this.data !== 0) {
+      if(x < 0 || y < 0 || x >= this.columns || y >= this.rows) {
+        return -1;
+      }
 
-/** Cursor do mouse/touchscreen. */
-export let mouse: Mouse = new Mouse();
+      return load<i16>(this.data + ((((y * this.columns) + x) as usize) << 1));
+    }
 
-// ==========================================================================
-// frame.ts
-// ==========================================================================
-/**
- * @class Frame
- *
- * @description
- * Representa um quadro de animação usado em uma folha de sprites.
- */
-export class Frame {
-  /** Posição X. */
-  x: i32;
+    // Não seguir adiante quando uma das posições passadas ultrapassar os
+    // limites de linhas do tilemap...
+    if(y < 0 || y >= this.map.length) {
+      return -1;
+    }
 
-  /** Posição Y. */
-  y: i32;
+    // Linha de tiles.
+    let row: i16[] = this.map[y];
 
-  /** Largura. */
-  width: i32;
+    // Não seguir adiante quando uma das posições passadas ultrapassar os
+    // limites de colunas do tilemap...
+    if(x < 0 || x >= row.length) {
+      return -1;
+    }
 
-  /** Altura. */
-  height: i32;
+    return row[x];
+  }
 
   /**
-   * @constructor
+   * Desenha o tilemap.
    *
    * @param {i32} x Posição X.
    * @param {i32} y Posição Y.
-   * @param {i32} width Largura.
-   * @param {i32} height Altura.
+   * @param {Spritesheet} spritesheet Folha de sprites.
+   * @param {u16} colors Ordem de cores da paleta.
+   * @param {FieldOfView | null} fog Campo de visão (névoa de guerra).
+   * @param {u16} fogColors Ordem de cores das células exploradas, mas não visíveis.
    */
-  constructor(x: i32, y: i32, width: i32, height: i32) {
-    this.x      = x;
-    this.y      = y;
-    this.width  = width;
-    this.height = height;
+  tile(x: i32, y: i32, spritesheet: Spritesheet, colors: u16, fog: FieldOfView | null = null, fogColors: u16 = 0): boolean {
+    // Tiles carregados na memória...
+    if(this.data !== 0) {
+      return spritesheet.tileGrid(x, y, this, colors, fog, fogColors);
+    }
+
+    return spritesheet.tile(x, y, this.map, colors, fog, fogColors);
   }
 }
 
 // ==========================================================================
-// spritesheet.ts
+// pathfinding.ts
 // ==========================================================================
+/** Custo de um movimento reto (horizontal ou vertical). */
+export const PATH_COST_STRAIGHT: i32 = 10;
+
+/** Custo de um movimento diagonal (aproximadamente 10 * √2). */
+export const PATH_COST_DIAGONAL: i32 = 14;
+
+/** Distância de células que não podem ser alcançadas. */
+export const PATH_UNREACHABLE: i32 = i32.MAX_VALUE;
+
+/** Capacidade máxima de células (os índices são armazenados em 16-bits). */
+export const PATH_MAX_CELLS: i32 = i16.MAX_VALUE;
+
+/** Estado de célula: ainda não descoberta na busca atual. */
+const PATH_STATE_NEW: u8 = 0;
+
+/** Estado de célula: na lista aberta. */
+const PATH_STATE_OPEN: u8 = 1;
+
+/** Estado de célula: finalizada. */
+const PATH_STATE_CLOSED: u8 = 2;
+
 /**
- * @class Spritesheet
+ * Look-Up Table de direções (X e Y): as 4 primeiras são retas e as 4
+ * últimas são diagonais.
+ */
+const PATH_DIRECTIONS: usize = memory.data<i8>([
+   1,  0,
+   0,  1,
+  -1,  0,
+   0, -1,
+   1,  1,
+  -1,  1,
+  -1, -1,
+   1, -1,
+]);
+
+/**
+ * @class Pathfinder
  *
  * @description
- * Representa uma folha de sprites. Contém vários quadros de animação.
+ * Busca de caminhos (A*) sobre um tilemap, com movimentos em 4 ou 8 direções.
+ * Todos os buffers usados na busca são alocados uma única vez, com uma
+ * capacidade fixa de células (por padrão, o tamanho do tilemap), ocupando
+ * 15 bytes por célula. As posições são sempre em grade (colunas e linhas), e
+ * não em pixels.
+ *
+ * Para personalizar quais células podem ser percorridas (ou seus custos),
+ * basta estender esta classe e sobrescrever os métodos `isWalkable()` e
+ * `cost()`.
  */
-export class Spritesheet {
-  /** Imagem de referência. */
-  image: usize;
+export class Pathfinder {
+  /** Tilemap. */
+  tilemap: Tilemap;
 
-  /** Flags de desenho da imagem de referência. */
-  flags: u32;
+  /** Índices dos tiles que bloqueiam o caminho. */
+  solids: i16[];
 
-  /** Largura da imagem. */
-  imageWidth: i32;
+  /** Permitir movimentos diagonais (8 direções). */
+  diagonal: boolean;
 
-  /** Altura da imagem.  */
-  imageHeight: i32;
+  /** Capacidade máxima (em células). */
+  capacity: i32;
 
-  /** Largura dos quadros de animação. */
-  width: i32;
+  /** Custos acumulados de cada célula. */
+  scores: Int32Array;
 
-  /** Altura dos quadros de animação. */
-  height: i32;
+  /** Célula anterior de cada célula (no caminho encontrado). */
+  parents: Int16Array;
 
-  /** Total de quadros por linha. */
-  rows: i32;
+  /** Estado de cada célula na busca atual (`PATH_STATE_*`). */
+  states: Uint8Array;
 
-  /** Total de quadros por coluna. */
-  columns: i32;
+  /** Lista aberta (heap binária de células). */
+  heap: Int16Array;
 
-  /** Quadros de animação. */
-  frames: Frame[];
+  /** Prioridades das células na lista aberta. */
+  priorities: Int32Array;
+
+  /** Posição de cada célula dentro da heap. */
+  heapIndex: Int16Array;
+
+  /** Quantidade de células na lista aberta. */
+  heapSize: i32;
 
   /**
    * @constructor
    *
-   * @param {usize} image Imagem de referência.
-   * @param {u32} flags Flags de desenho da imagem de referência.
-   * @param {i32} imageWidth Largura da imagem.
-   * @param {i32} imageHeight Altura da imagem.
-   * @param {i32} width Largura dos quadros de animação.
-   * @param {i32} height Altura dos quadros de animação.
+   * @param {Tilemap} tilemap Tilemap.
+   * @param {i16[]} solids Índices dos tiles que bloqueiam o caminho.
+   * @param {boolean} diagonal Permitir movimentos diagonais (8 direções).
+   * @param {i32} capacity Capacidade máxima (em células, até
+   *        `PATH_MAX_CELLS`). Quando `0`, usa o tamanho do tilemap. Informe
+   *        uma capacidade maior para reutilizar o buscador em tilemaps
+   *        maiores.
    */
-  constructor(image: usize, flags: u32, imageWidth: i32, imageHeight: i32, width: i32, height: i32) {
-    this.image       = image;
-    this.flags       = flags;
-    this.imageWidth  = imageWidth;
-    this.imageHeight = imageHeight;
-    this.width       = width;
-    this.height      = height;
-    this.rows        = Math.floor(imageHeight / height) as i32;
-    this.columns     = Math.floor(imageWidth / width) as i32;
-    this.frames      = [];
+  constructor(tilemap: Tilemap, solids: i16[], diagonal: boolean = false, capacity: i32 = 0) {
+    if(capacity <= 0) {
+      capacity = tilemap.columns * tilemap.rows;
+    }
 
-    // Criar quadros de animação dinamicamente...
-    for(let row: i32 = 0; row < this.rows; row += 1) {
-      for(let column: i32 = 0; column < this.columns; column += 1) {
+    capacity = min<i32>(capacity, PATH_MAX_CELLS);
+
+    this.tilemap    = tilemap;
+    this.solids     = solids;
+    this.diagonal   = diagonal;
+    this.capacity   = capacity;
+    this.scores     = new Int32Array(capacity);
+    this.parents    = new Int16Array(capacity);
+    this.states     = new Uint8Array(capacity);
+    this.heap       = new Int16Array(capacity);
+    this.priorities = new Int32Array(capacity);
+    this.heapIndex  = new Int16Array(capacity);
+    this.heapSize   = 0;
+  }
 
-        this.frames.push(
-          new Frame(column * width, row * height, width, height)
-        );
+  /**
+   * Retorna se o tilemap cabe nos buffers de busca.
+   *
+   * @return {boolean}
+   */
+  fits(): boolean {
+    return this.tilemap.columns * this.tilemap.rows <= this.capacity;
+  }
 
-      }
+  /**
+   * Retorna se uma célula pode ser percorrida. Pode ser sobrescrito para
+   * regras personalizadas.
+   *
+   * @param {i32} x Posição X (em grade).
+   * @param {i32} y Posição Y (em grade).
+   *
+   * @return {boolean}
+   */
+  isWalkable(x: i32, y: i32): boolean {
+    if(x < 0 || y < 0 || x >= this.tilemap.columns || y >= this.tilemap.rows) {
+      return false;
     }
+
+    return !this.tilemap.hasTile(x, y, this.solids);
   }
 
   /**
-   * Desenha um quadro de animação.
+   * Multiplicador de custo para entrar em uma célula. Pode ser sobrescrito
+   * para terrenos mais lentos (ex: lama, água).
    *
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {i32} index Índice do quadro de animação.
-   * @param {boolean} flipX Inverte este quadro horizontalmente.
-   * @param {boolean} flipY Inverte este quadro verticalmente.
-   * @param {i32} rotation Ângulo de rotação (de 0º a 360º).
-   * @param {u16} colors Ordem de cores da paleta.
+   * @param {i32} x Posição X (em grade).
+   * @param {i32} y Posição Y (em grade).
+   *
+   * @return {i32}
    */
-  draw(x: i32, y: i32, index: i32, flipX: boolean, flipY: boolean, rotation: i32, colors: u16): boolean {
-    // Não desenhar a imagem, caso o índice não exista:
-    if(index < 0 || index >= this.frames.length) {
+  cost(x: i32, y: i32): i32 {
+    return 1;
+  }
+
+  /**
+   * Retorna se é possível mover de uma célula para outra vizinha. Movimentos
+   * diagonais não podem atravessar quinas.
+   *
+   * @param {i32} x Posição X (em grade).
+   * @param {i32} y Posição Y (em grade).
+   * @param {i32} dx Direção X.
+   * @param {i32} dy Direção Y.
+   *
+   * @return {boolean}
+   */
+  canMove(x: i32, y: i32, dx: i32, dy: i32): boolean {
+    if(!this.isWalkable(x + dx, y + dy)) {
       return false;
     }
 
-    // Índice de rotação, alinhado em 90º.
-    let rotationIndex: i32 = (Math.floor(Math.abs(rotation) / 90) as i32) % 4;
-
-    // Ajustar rotação para ângulos negativos...
-    if(rotation < 0) {
-      rotationIndex = (4 - rotationIndex) % 4;
+    if(dx !== 0 && dy !== 0) {
+      return this.isWalkable(x + dx, y) && this.isWalkable(x, y + dy);
     }
 
-    // Look-Up Table de rotações (original).
-    // Ângulos: 0º, 90º, 180º e 270º, respectivamente.
-    let rotations: u32[] = [
-      this.flags,
-      this.flags | w4.BLIT_FLIP_X | w4.BLIT_FLIP_Y | w4.BLIT_ROTATE,
-      this.flags | w4.BLIT_FLIP_X | w4.BLIT_FLIP_Y,
-      this.flags | w4.BLIT_ROTATE
-    ];
+    return true;
+  }
 
-    // Look-Up Table de rotações (X invertido).
-    // Ângulos: 0º, 90º, 180º e 270º, respectivamente.
-    let rotationsFX: u32[] = [
-      this.flags | w4.BLIT_FLIP_X,
-      this.flags | w4.BLIT_FLIP_X | w4.BLIT_ROTATE,
-      this.flags | w4.BLIT_FLIP_Y,
-      this.flags | w4.BLIT_FLIP_Y | w4.BLIT_ROTATE
-    ];
+  /**
+   * Estimativa de custo entre duas células.
+   *
+   * @param {i32} x1 Posição X inicial.
+   * @param {i32} y1 Posição Y inicial.
+   * @param {i32} x2 Posição X final.
+   * @param {i32} y2 Posição Y final.
+   *
+   * @return {i32}
+   */
+  heuristic(x1: i32, y1: i32, x2: i32, y2: i32): i32 {
+    let dx: i32 = abs<i32>(x2 - x1);
+    let dy: i32 = abs<i32>(y2 - y1);
 
-    // Look-Up Table de rotações (Y invertido).
-    // Ângulos: 0º, 90º, 180º e 270º, respectivamente.
-    let rotationsFY: u32[] = [
-      this.flags | w4.BLIT_FLIP_Y,
-      this.flags | w4.BLIT_FLIP_Y | w4.BLIT_ROTATE,
-      this.flags | w4.BLIT_FLIP_X,
-      this.flags | w4.BLIT_FLIP_X | w4.BLIT_ROTATE
-    ];
+    // Distância octil (8 direções)...
+    if(this.diagonal) {
+      return (PATH_COST_STRAIGHT * (dx + dy)) + ((PATH_COST_DIAGONAL - (2 * PATH_COST_STRAIGHT)) * min<i32>(dx, dy));
+    }
 
-    // Look-Up Table de rotações (X e Y invertidos).
-    // Ângulos: 0º, 90º, 180º e 270º, respectivamente.
-    let rotationsFXY: u32[] = [
-      this.flags | w4.BLIT_FLIP_X | w4.BLIT_FLIP_Y,
-      this.flags | w4.BLIT_ROTATE,
-      this.flags,
-      this.flags | w4.BLIT_FLIP_X | w4.BLIT_FLIP_Y | w4.BLIT_ROTATE
-    ];
+    // Distância Manhattan (4 direções)...
+    return PATH_COST_STRAIGHT * (dx + dy);
+  }
 
-    // Flags de desenho.
-    let flags: u32 = 0;
+  /**
+   * Troca duas posições da heap.
+   *
+   * @param {i32} a Primeira posição.
+   * @param {i32} b Segunda posição.
+   */
+  swap(a: i32, b: i32): void {
+    let node    : i32 = this.heap[a];
+    let priority: i32 = this.priorities[a];
 
-    // Escolher flags especiais de rotação...
-         if(flipX && flipY) { flags = rotationsFXY[rotationIndex]; }
-    else if(flipX)          { flags = rotationsFX[rotationIndex];  }
-    else if(flipY)          { flags = rotationsFY[rotationIndex];  }
-    else                    { flags = rotations[rotationIndex];    }
+    this.heap[a]       = this.heap[b];
+    this.priorities[a] = this.priorities[b];
+    this.heap[b]       = node as i16;
+    this.priorities[b] = priority;
 
-    // Quadro de animação.
-    let frame: Frame = this.frames[index];
+    this.heapIndex[this.heap[a]] = a as i16;
+    this.heapIndex[this.heap[b]] = b as i16;
+  }
 
-    // Alterar ordem de cores da paleta:
-    store<u16>(w4.DRAW_COLORS, colors);
+  /**
+   * Sobe uma posição da heap, até que ela esteja ordenada.
+   *
+   * @param {i32} position Posição.
+   */
+  siftUp(position: i32): void {
+    while(position > 0) {
+      let parent: i32 = (position - 1) >> 1;
 
-    // Desenhar imagem...
-    canvas.blitSub(
-      this.image,
-      x,
-      y,
-      frame.width as u32,
-      frame.height as u32,
-      frame.x as u32,
-      frame.y as u32,
-      this.imageWidth,
-      colors,
-      flags
-    );
+      if(this.priorities[parent] <= this.priorities[position]) {
+        break;
+      }
 
-    return true;
+      this.swap(parent, position);
+      position = parent;
+    }
   }
 
   /**
-   * Escreve um texto na tela, usando os quadros de animação como caracteres.
+   * Desce uma posição da heap, até que ela esteja ordenada.
    *
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {string} text Texto a ser escrito.
-   * @param {string} charset Charset com todos os caracteres a serem usados.
-   * @param {i32} paddingX Espaçamento horizontal entre cada caractere.
-   * @param {i32} paddingY Espaçamento vertical entre cada caractere.
-   * @param {i32} start Índice do quadro de animação do primeiro caractere.
-   * @param {u16} colors Ordem de cores da paleta.
+   * @param {i32} position Posição.
    */
-  write(x: i32, y: i32, text: string, charset: string, start: i32, paddingX: i32, paddingY: i32, colors: u16): boolean {
-    // Contadores de linhas e colunas.
-    let line  : i32 = 0;
-    let column: i32 = 0;
+  siftDown(position: i32): void {
+    while(true) {
+      let left    : i32 = (position << 1) + 1;
+      let right   : i32 = left + 1;
+      let smallest: i32 = position;
+
+      if(left < this.heapSize && this.priorities[left] < this.priorities[smallest]) {
+        smallest = left;
+      }
+      if(right < this.heapSize && this.priorities[right] < this.priorities[smallest]) {
+        smallest = right;
+      }
+      if(smallest === position) {
+        break;
+      }
 
-    // Caracteres especiais: "\n" (newline) e " " (space).
-    let newline: i32 = 10;
-    let space  : i32 = 32;
+      this.swap(smallest, position);
+      position = smallest;
+    }
+  }
 
-    // Percorrer caracteres do texto...
-    for(let index: i32 = 0; index < text.length; index += 1) {
-      let char    : string = text[index];
-      let charCode: i32    = char.charCodeAt(0);
+  /**
+   * Adiciona uma célula na lista aberta, ou atualiza sua prioridade.
+   *
+   * @param {i32} node Célula.
+   * @param {i32} priority Prioridade.
+   */
+  push(node: i32, priority: i32): void {
+    let position: i32 = this.heapIndex[node];
 
-      // Avançar para a próxima linha ao encontrar um "\n" (newline)...
-      if(charCode === newline) {
-        line  += 1;
-        column = 0;
-        continue;
-      }
-      // Avançar para a próxima coluna ao encontrar um " " (space)...
-      else if(charCode === space) {
-        column += 1;
-        continue;
-      }
+    // Célula nova na lista aberta...
+    if(this.states[node] !== PATH_STATE_OPEN || position < 0) {
+      position = this.heapSize;
+      this.heapSize += 1;
+    }
 
-      // Índice do caractere no charset.
-      let index: i32 = charset.indexOf(char);
+    this.heap[position]       = node as i16;
+    this.priorities[position] = priority;
+    this.heapIndex[node]      = position as i16;
+    this.siftUp(position);
+  }
 
-      // Se o caractere não existir no charset, ou o índice ultrapassar o
-      // total de quadros de animação existentes nesta folha de sprites, ele
-      // será ignorado e tratado como um " " (space)...
-      if(index < 0 || index >= this.frames.length) {
-        column += 1;
-        continue;
-      }
+  /**
+   * Remove a célula de menor prioridade da lista aberta.
+   *
+   * @return {i32}
+   */
+  pop(): i32 {
+    let node: i32 = this.heap[0];
 
-      // Ajustar índice do caractere para obter o índice do quadro de animação
-      // equivalente ao do caractere...
-      index += start;
+    this.heapSize -= 1;
+    this.swap(0, this.heapSize);
+    this.siftDown(0);
 
-      // Quadro de animação equivalente ao do caractere.
-      let frame: Frame = this.frames[index];
+    this.heapIndex[node] = -1;
+    return node;
+  }
 
-      // Desenhar caractere...
-      this.draw(
-        x + (column * (frame.width  + paddingX)),
-        y + (line   * (frame.height + paddingY)),
-        index,
-        colors
-      );
+  /**
+   * Prepara os buffers para uma nova busca.
+   */
+  reset(): void {
+    this.states.fill(PATH_STATE_NEW);
+    this.heapSize = 0;
+  }
 
-      // Avançar uma coluna...
-      column += 1;
+  /**
+   * Descobre uma célula, definindo seu custo e sua célula anterior.
+   *
+   * @param {i32} node Célula.
+   * @param {i32} score Custo acumulado.
+   * @param {i32} parent Célula anterior.
+   * @param {i32} priority Prioridade na lista aberta.
+   */
+  open(node: i32, score: i32, parent: i32, priority: i32): void {
+    if(this.states[node] !== PATH_STATE_OPEN) {
+      this.heapIndex[node] = -1;
     }
 
-    return true;
+    this.push(node, priority);
+
+    this.states[node]  = PATH_STATE_OPEN;
+    this.scores[node]  = score;
+    this.parents[node] = parent as i16;
   }
 
   /**
-   * Desenha um tilemap na tela.
+   * Percorre o tilemap a partir de uma célula. Quando houver um alvo, usa
+   * A*; caso contrário, calcula as distâncias até todas as células
+   * (Dijkstra).
    *
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {i16[][]} tilemap Tilemap (Array 2D).
-   * @param {u16} colors Ordem de cores da paleta.
+   * @param {i32} x Posição X inicial.
+   * @param {i32} y Posição Y inicial.
+   * @param {i32} targetX Posição X do alvo (ou -1, sem alvo).
+   * @param {i32} targetY Posição Y do alvo (ou -1, sem alvo).
+   * @param {i32} maxDistance Custo máximo a ser percorrido.
+   *
+   * @return {boolean} Se o alvo foi alcançado (sempre "true" sem alvo). Alvos
+   *         fora do tilemap ou bloqueados retornam `false`.
    */
-  tile(x: i32, y: i32, tilemap: i16[][], colors: u16): boolean {
-    // Percorrer linhas do tilemap...
-    for(let row: i32 = 0; row < tilemap.length; row += 1) {
-      let line: i16[] = tilemap[row];
+  search(x: i32, y: i32, targetX: i32, targetY: i32, maxDistance: i32 = PATH_UNREACHABLE): boolean {
+    if(!this.fits() || !this.isWalkable(x, y)) {
+      return false;
+    }
 
-      // Calcular posição vertical de desenho na viewport.
-      let viewY: i32 = canvas.viewY(y + (row * this.height));
+    let columns  : i32     = this.tilemap.columns;
+    let hasTarget: boolean = targetX >= 0 && targetY >= 0;
+    let target   : i32     = (targetY * columns) + targetX;
+    let start    : i32     = (y * columns) + x;
 
-      // Quando menor que zero, saltar para a próxima linha...
-      if(viewY < -this.height) {
-        continue;
-      }
-      // Quando maior que a altura da tela, encerrar iteração...
-      if(viewY >= 160) {
-        break;
+    // Alvos fora do tilemap (ou bloqueados) nunca são alcançados:
+    if(hasTarget && !this.isWalkable(targetX, targetY)) {
+      return false;
+    }
+
+    this.reset();
+    this.open(start, 0, -1, hasTarget? this.heuristic(x, y, targetX, targetY): 0);
+
+    // Quantidade de direções a serem percorridas.
+    let directions: i32 = this.diagonal? 8: 4;
+
+    while(this.heapSize > 0) {
+      let node: i32 = this.pop();
+      this.states[node] = PATH_STATE_CLOSED;
+
+      // Alvo alcançado...
+      if(hasTarget && node === target) {
+        return true;
       }
 
-      // Percorrer colunas do tilemap...
-      for(let column: i32 = 0; column < line.length; column += 1) {
-        let index: i32 = line[column] as i32;
+      let nodeX: i32 = node % columns;
+      let nodeY: i32 = node / columns;
 
-        // Calcular posição horizontal de desenho na viewport.
-        let viewX: i32 = canvas.viewX(x + (column * this.width));
+      // Percorrer vizinhos...
+      for(let direction: i32 = 0; direction < directions; direction += 1) {
+        let dx: i32 = load<i8>(PATH_DIRECTIONS + ((direction as usize) << 1)) as i32;
+        let dy: i32 = load<i8>(PATH_DIRECTIONS + ((direction as usize) << 1) + 1) as i32;
 
-        // Quando menor que zero, saltar para a próxima coluna...
-        if(viewX < -this.width) {
+        if(!this.canMove(nodeX, nodeY, dx, dy)) {
           continue;
         }
-        // Quando maior que a largura da tela, encerrar iteração...
-        if(viewX >= 160) {
-          break;
-        }
 
-        // Se o índice do tile ultrapassar o total de quadros de animação
-        // existentes nesta folha de sprites, ele será ignorado...
-        if(index < 0 || index >= this.frames.length) {
-          column += 1;
+        let nextX: i32 = nodeX + dx;
+        let nextY: i32 = nodeY + dy;
+        let next : i32 = (nextY * columns) + nextX;
+
+        // Células finalizadas são ignoradas...
+        if(this.states[next] === PATH_STATE_CLOSED) {
           continue;
         }
 
-        // Quadro de animação equivalente ao do caractere.
-        let frame: Frame = this.frames[index];
+        let step : i32 = direction < 4? PATH_COST_STRAIGHT: PATH_COST_DIAGONAL;
+        let score: i32 = this.scores[node] + (step * this.cost(nextX, nextY));
 
-        // Desenhar caractere...
-        this.draw(
-          x + (column * frame.width),
-          y + (row * frame.height),
-          index,
-          false,
-          false,
-          0,
-          colors
-        );
+        // Ignorar células além do custo máximo, ou caminhos piores...
+        if(score > maxDistance || (this.states[next] === PATH_STATE_OPEN && score >= this.scores[next])) {
+          continue;
+        }
+
+        this.open(next, score, node, hasTarget? score + this.heuristic(nextX, nextY, targetX, targetY): score);
       }
+    }
+
+    return !hasTarget;
+  }
 
+  /**
+   * Procura um caminho entre duas células (A*).
+   *
+   * @param {i32} x Posição X inicial.
+   * @param {i32} y Posição Y inicial.
+   * @param {i32} targetX Posição X do alvo.
+   * @param {i32} targetY Posição Y do alvo.
+   *
+   * @return {Vec2[]} Células do caminho, sem incluir a posição inicial (ou
+   *         uma lista vazia, quando não houver caminho).
+   */
+  findPath(x: i32, y: i32, targetX: i32, targetY: i32): Vec2[] {
+    let path: Vec2[] = [];
+
+    if(targetX < 0 || targetY < 0 || !this.search(x, y, targetX, targetY)) {
+      return path;
     }
 
-    return true;
+    let columns: i32 = this.tilemap.columns;
+    let start  : i32 = (y * columns) + x;
+    let node   : i32 = (targetY * columns) + targetX;
+
+    // Reconstruir caminho (do alvo até o início)...
+    while(node !== start) {
+      path.unshift(new Vec2(node % columns, node / columns));
+      node = this.parents[node];
+    }
+
+    return path;
   }
 }
 
-// ==========================================================================
-// hitbox.ts
-// ==========================================================================
 /**
- * @class Hitbox
+ * @class DistanceMap
  *
  * @description
- * Representa um retângulo usado apra detecção de colisão.
+ * Mapa de distâncias até um alvo (Dijkstra), calculado uma única vez e
+ * reutilizado por vários inimigos perseguindo o mesmo alvo: cada um apenas
+ * segue para a célula vizinha mais próxima dele.
  */
-export class Hitbox {
+export class DistanceMap {
+  /** Buscador de caminhos (define as regras de movimento). */
+  pathfinder: Pathfinder;
+
+  /** Distâncias de cada célula até o alvo. */
+  distances: Int32Array;
+
+  /** Próximo passo (reutilizado por `next()`). */
+  step: Vec2;
+
+  /**
+   * @constructor
+   *
+   * @param {Pathfinder} pathfinder Buscador de caminhos.
+   */
+  constructor(pathfinder: Pathfinder) {
+    this.pathfinder = pathfinder;
+    this.distances  = new Int32Array(pathfinder.capacity);
+    this.step       = new Vec2(0, 0);
+    this.distances.fill(PATH_UNREACHABLE);
+  }
+
+  /**
+   * Recalcula as distâncias até um alvo.
+   *
+   * @param {i32} targetX Posição X do alvo.
+   * @param {i32} targetY Posição Y do alvo.
+   * @param {i32} maxDistance Custo máximo a ser percorrido.
+   *
+   * @return {boolean}
+   */
+  update(targetX: i32, targetY: i32, maxDistance: i32 = PATH_UNREACHABLE): boolean {
+    let pathfinder: Pathfinder = this.pathfinder;
+
+    this.distances.fill(PATH_UNREACHABLE);
+
+    if(!pathfinder.search(targetX, targetY, -1, -1, maxDistance)) {
+      return false;
+    }
+
+    // Copiar custos das células descobertas...
+    let cells: i32 = pathfinder.tilemap.columns * pathfinder.tilemap.rows;
+
+    for(let node: i32 = 0; node < cells; node += 1) {
+      if(pathfinder.states[node] !== PATH_STATE_NEW) {
+        this.distances[node] = pathfinder.scores[node];
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Obtém a distância de uma célula até o alvo.
+   *
+   * @param {i32} x Posição X (em grade).
+   * @param {i32} y Posição Y (em grade).
+   *
+   * @return {i32} Distância (ou `PATH_UNREACHABLE`).
+   */
+  get(x: i32, y: i32): i32 {
+    let tilemap: Tilemap = this.pathfinder.tilemap;
+
+    if(x < 0 || y < 0 || x >= tilemap.columns || y >= tilemap.rows) {
+      return PATH_UNREACHABLE;
+    }
+
+    return this.distances[(y * tilemap.columns) + x];
+  }
+
+  /**
+   * Obtém a célula vizinha mais próxima do alvo.
+   *
+   * @param {i32} x Posição X (em grade).
+   * @param {i32} y Posição Y (em grade).
+   *
+   * @return {Vec2 | null} Próximo passo (reutilizado a cada chamada), ou
+   *         `null` quando não houver caminho ou o alvo já foi alcançado.
+   */
+  next(x: i32, y: i32): Vec2 | null {
+    let pathfinder: Pathfinder = this.pathfinder;
+    let directions: i32 = pathfinder.diagonal? 8: 4;
+    let best      : i32 = this.get(x, y);
+    let found     : boolean = false;
+
+    for(let direction: i32 = 0; direction < directions; direction += 1) {
+      let dx: i32 = load<i8>(PATH_DIRECTIONS + ((direction as usize) << 1)) as i32;
+      let dy: i32 = load<i8>(PATH_DIRECTIONS + ((direction as usize) << 1) + 1) as i32;
+
+      if(!pathfinder.canMove(x, y, dx, dy)) {
+        continue;
+      }
+
+      let distance: i32 = this.get(x + dx, y + dy);
+
+      if(distance < best) {
+        best  = distance;
+        found = true;
+        this.step.set(x + dx, y + dy);
+      }
+    }
+
+    return found? this.step: null;
+  }
+
+  /**
+   * Monta o caminho de uma célula até o alvo.
+   *
+   * @param {i32} x Posição X (em grade).
+   * @param {i32} y Posição Y (em grade).
+   *
+   * @return {Vec2[]} Células do caminho, sem incluir a posição inicial.
+   */
+  path(x: i32, y: i32): Vec2[] {
+    let path: Vec2[] = [];
+    let step: Vec2 | null = this.next(x, y);
+
+    while(step !== null) {
+      path.push(new Vec2(step.x, step.y));
+      step = this.next(step.x, step.y);
+    }
+
+    return path;
+  }
+}
+
+// ==========================================================================
+// field_of_view.ts
+// ==========================================================================
+/**
+ * Look-Up Table das transformações de cada quadrante (norte, leste, sul e
+ * oeste): multiplicadores de coluna e profundidade para os eixos X e Y.
+ */
+const FOV_QUADRANTS: usize = memory.data<i8>([
+   1,  0,  0, -1,
+   0,  1,  1,  0,
+   1,  0,  0,  1,
+   0, -1,  1,  0,
+]);
+
+/**
+ * @class FieldOfView
+ *
+ * @description
+ * Campo de visão (symmetric shadowcasting) sobre um tilemap. Guarda as
+ * células visíveis no momento e as células já exploradas (névoa de guerra),
+ * que podem ser usadas ao desenhar o tilemap.
+ *
+ * Para personalizar quais células bloqueiam a visão, basta estender esta
+ * classe e sobrescrever o método `isOpaque()`.
+ */
+export class FieldOfView {
+  /** Tilemap. */
+  tilemap: Tilemap;
+
+  /** Índices dos tiles que bloqueiam a visão. */
+  blockers: i16[];
+
+  /** Células visíveis. */
+  visible: DataGrid;
+
+  /** Células já exploradas. */
+  explored: DataGrid;
+
+  /** Posição X de origem (em grade). */
+  originX: i32;
+
+  /** Posição Y de origem (em grade). */
+  originY: i32;
+
+  /** Raio de visão (em células). */
+  radius: i32;
+
+  /** Quadrante sendo percorrido. */
+  quadrant: i32;
+
+  /**
+   * @constructor
+   *
+   * @param {Tilemap} tilemap Tilemap.
+   * @param {i16[]} blockers Índices dos tiles que bloqueiam a visão.
+   */
+  constructor(tilemap: Tilemap, blockers: i16[]) {
+    this.tilemap  = tilemap;
+    this.blockers = blockers;
+    this.visible  = new DataGrid(tilemap.columns, tilemap.rows, GRID_BITS);
+    this.explored = new DataGrid(tilemap.columns, tilemap.rows, GRID_BITS);
+    this.originX  = 0;
+    this.originY  = 0;
+    this.radius   = 0;
+    this.quadrant = 0;
+  }
+
+  /**
+   * Retorna se uma célula bloqueia a visão. Pode ser sobrescrito para regras
+   * personalizadas.
+   *
+   * @param {i32} x Posição X (em grade).
+   * @param {i32} y Posição Y (em grade).
+   *
+   * @return {boolean}
+   */
+  isOpaque(x: i32, y: i32): boolean {
+    if(x < 0 || y < 0 || x >= this.tilemap.columns || y >= this.tilemap.rows) {
+      return true;
+    }
+
+    return this.tilemap.hasTile(x, y, this.blockers);
+  }
+
+  /**
+   * Retorna se uma célula está visível.
+   *
+   * @param {i32} x Posição X (em grade).
+   * @param {i32} y Posição Y (em grade).
+   *
+   * @return {boolean}
+   */
+  isVisible(x: i32, y: i32): boolean {
+    return this.visible.getAt(x, y) !== 0;
+  }
+
+  /**
+   * Retorna se uma célula já foi explorada.
+   *
+   * @param {i32} x Posição X (em grade).
+   * @param {i32} y Posição Y (em grade).
+   *
+   * @return {boolean}
+   */
+  isExplored(x: i32, y: i32): boolean {
+    return this.explored.getAt(x, y) !== 0;
+  }
+
+  /**
+   * Esquece todas as células exploradas.
+   */
+  reset(): void {
+    this.visible.fill(0);
+    this.explored.fill(0);
+  }
+
+  /**
+   * Calcula a posição X de uma célula no quadrante atual.
+   *
+   * @param {i32} depth Profundidade (distância da origem).
+   * @param {i32} column Coluna (deslocamento lateral).
+   *
+   * @return {i32}
+   */
+  cellX(depth: i32, column: i32): i32 {
+    let lut: usize = FOV_QUADRANTS + ((this.quadrant as usize) << 2);
+    return this.originX + (column * (load<i8>(lut) as i32)) + (depth * (load<i8>(lut, 1) as i32));
+  }
+
+  /**
+   * Calcula a posição Y de uma célula no quadrante atual.
+   *
+   * @param {i32} depth Profundidade (distância da origem).
+   * @param {i32} column Coluna (deslocamento lateral).
+   *
+   * @return {i32}
+   */
+  cellY(depth: i32, column: i32): i32 {
+    let lut: usize = FOV_QUADRANTS + ((this.quadrant as usize) << 2);
+    return this.originY + (column * (load<i8>(lut, 2) as i32)) + (depth * (load<i8>(lut, 3) as i32));
+  }
+
+  /**
+   * Marca uma célula como visível e explorada.
+   *
+   * @param {i32} x Posição X (em grade).
+   * @param {i32} y Posição Y (em grade).
+   */
+  reveal(x: i32, y: i32): void {
+    this.visible.setAt(x, y, 1);
+    this.explored.setAt(x, y, 1);
+  }
+
+  /**
+   * Percorre uma linha do quadrante atual. As inclinações inicial e final
+   * são frações (numerador e denominador).
+   *
+   * @param {i32} depth Profundidade (distância da origem).
+   * @param {i32} startNum Numerador da inclinação inicial.
+   * @param {i32} startDen Denominador da inclinação inicial.
+   * @param {i32} endNum Numerador da inclinação final.
+   * @param {i32} endDen Denominador da inclinação final.
+   */
+  scan(depth: i32, startNum: i32, startDen: i32, endNum: i32, endDen: i32): void {
+    if(depth > this.radius) {
+      return;
+    }
+
+    // Colunas da linha (arredondando os empates para dentro do setor)...
+    let first: i32 = Math.floor((((depth * startNum) as f64) / (startDen as f64)) + 0.5) as i32;
+    let last : i32 = Math.ceil((((depth * endNum) as f64) / (endDen as f64)) - 0.5) as i32;
+
+    let hasPrevious   : boolean = false;
+    let previousOpaque: boolean = false;
+
+    for(let column: i32 = first; column <= last; column += 1) {
+      let x     : i32     = this.cellX(depth, column);
+      let y     : i32     = this.cellY(depth, column);
+      let opaque: boolean = this.isOpaque(x, y);
+
+      // Paredes são sempre reveladas; chãos apenas quando simétricos...
+      if((column * column) + (depth * depth) <= this.radius * this.radius) {
+        if(opaque || ((column * startDen) >= (depth * startNum) && (column * endDen) <= (depth * endNum))) {
+          this.reveal(x, y);
+        }
+      }
+
+      // Parede seguida de chão: a linha recomeça nesta coluna...
+      if(hasPrevious && previousOpaque && !opaque) {
+        startNum = (2 * column) - 1;
+        startDen = 2 * depth;
+      }
+      // Chão seguido de parede: percorrer a próxima linha até esta coluna...
+      if(hasPrevious && !previousOpaque && opaque) {
+        this.scan(depth + 1, startNum, startDen, (2 * column) - 1, 2 * depth);
+      }
+
+      hasPrevious    = true;
+      previousOpaque = opaque;
+    }
+
+    // Terminou em chão: continuar na próxima linha...
+    if(hasPrevious && !previousOpaque) {
+      this.scan(depth + 1, startNum, startDen, endNum, endDen);
+    }
+  }
+
+  /**
+   * Calcula o campo de visão a partir de uma célula.
+   *
+   * @param {i32} x Posição X de origem (em grade).
+   * @param {i32} y Posição Y de origem (em grade).
+   * @param {i32} radius Raio de visão (em células).
+   */
+  compute(x: i32, y: i32, radius: i32): void {
+    this.originX = x;
+    this.originY = y;
+    this.radius  = radius;
+
+    this.visible.fill(0);
+    this.reveal(x, y);
+
+    for(let quadrant: i32 = 0; quadrant < 4; quadrant += 1) {
+      this.quadrant = quadrant;
+      this.scan(1, -1, 1, 1, 1);
+    }
+  }
+}
+
+// ==========================================================================
+// canvas.ts
+// ==========================================================================
+/**
+ * @class Canvas
+ *
+ * @description
+ * Abstração de funções de desenho do WASM-4.
+ */
+export class Canvas {
+  /** Área de desenho. */
+  view: Viewport;
+
+  /** Paleta de cores. */
+  palette: i32[];
+
+  /** Quando "true", mantém a tela "suja". */
+  preserveFrameBuffer: boolean;
+
+  /** Quando "true", esconde os botões da versão mobile. */
+  hideGamepadOverlay: boolean;
+
+  /**
+   * @constructor
+   *
+   * @param {Viewport} Área de desenho.
+   * @param {Vec2} camera Câmera.
+   */
+  constructor() {
+    this.view = new Viewport(0, 0, SCREEN_WIDTH, SCREEN_HEIGHT);
+    this.palette = [
+      0xe0f8cf,
+      0x86c06c,
+      0x306850,
+      0x071821
+    ];
+    this.preserveFrameBuffer = false;
+    this.hideGamepadOverlay  = false;
+  }
+
+  /**
+   * Atualiza a paleta de cores.
+   *
+   * @return {boolean}
+   */
+  updatePalette(): boolean {
+    // Não atualizar a paleta quando não houver a quantidade mínima de cores:
+    if(this.palette.length < 4) {
+      return false;
+    }
+
+    // Atualizar paleta de cores...
+    store<u32>(w4.PALETTE, this.palette[0] as u32, 0 * sizeof<u32>());
+    store<u32>(w4.PALETTE, this.palette[1] as u32, 1 * sizeof<u32>());
+    store<u32>(w4.PALETTE, this.palette[2] as u32, 2 * sizeof<u32>());
+    store<u32>(w4.PALETTE, this.palette[3] as u32, 3 * sizeof<u32>());
+
+    return true;
+  }
+
+  /**
+   * Atualiza as flags.
+   *
+   * @return {boolean}
+   */
+  updateSystemFlags(): boolean {
+    // Valores das flags.
+    let bitA: i32 = this.hideGamepadOverlay?  2: 0;
+    let bitB: i32 = this.preserveFrameBuffer? 1: 0;
+
+    // Atualizar flags...
+    store<u8>(w4.SYSTEM_FLAGS, bitA + bitB);
+    return true;
+  }
+
+  /**
+   * Retorna se uma instância está visível na tela.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   *
+   * @return {boolean}
+   */
+  isVisible(x: i32, y: i32, width: i32, height: i32): boolean {
+    return (
+      this.viewX(x)          < SCREEN_WIDTH  &&
+      this.viewX(x + width)  > 0             &&
+      this.viewY(y)          < SCREEN_HEIGHT &&
+      this.viewY(y + height) > 0
+    );
+  }
+
+  /**
+   * Calcula uma posição X relativa à área de desenho.
+   *
+   * @param {i32} x Posição X.
+   *
+   * @return {i32}
+   */
+  viewX(x: i32): i32 {
+    return x - this.view.x;
+  }
+
+  /**
+   * Calcula uma posição Y relativa à área de desenho.
+   *
+   * @param {i32} x Posição X.
+   *
+   * @return {i32}
+   */
+  viewY(y: i32): i32 {
+    return y - this.view.y;
+  }
+
+  /**
+   * Desenha uma imagem na tela.
+   *
+   * @param {usize} image Imagem de referência.
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   * @param {u16} colors Ordem de cores da paleta.
+   * @param {u32} flags Flags de desenho da imagem de referência.
+   */
+  blit(image: usize, x: i32, y: i32, width: i32, height: i32, colors: u16, flags: u32): boolean {
+    // Não desenhar fora da tela...
+    if(!this.isVisible(x, y, width, height)) {
+      return false;
+    }
+
+    // Alterar ordem de cores da paleta:
+    store<u16>(w4.DRAW_COLORS, colors);
+
+    // Desenhar imagem...
+    w4.blit(
+      image,
+      this.viewX(x),
+      this.viewY(y),
+      width as u32,
+      height as u32,
+      flags
+    );
+
+    return true;
+  }
+
+  /**
+   * Desenha um fragmento de uma imagem na tela.
+   *
+   * @param {usize} image Imagem de referência.
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   * @param {i32} cutX Posição X de corte.
+   * @param {u16} cutY Posição Y de corte.
+   * @param {u16} stride Use a largura da imagem de referência.
+   * @param {u16} colors Ordem de cores da paleta.
+   * @param {u32} flags Flags de desenho da imagem de referência.
+   */
+  blitSub(image: usize, x: i32, y: i32, width: i32, height: i32, cutX: i32, cutY: i32, stride: i32, colors: u16, flags: u32): boolean {
+    // Não desenhar fora da tela...
+    if(!this.isVisible(x, y, width, height)) {
+      return false;
+    }
+
+    // Alterar ordem de cores da paleta:
+    store<u16>(w4.DRAW_COLORS, colors);
+
+    // Desenhar imagem...
+    w4.blitSub(
+      image,
+      this.viewX(x),
+      this.viewY(y),
+      width as u32,
+      height as u32,
+      cutX as u32,
+      cutY as u32,
+      stride,
+      flags
+    );
+
+    return true;
+  }
+
+  /**
+   * Desenha uma linha na tela.
+   *
+   * @param {i32} x1 Posição X inicial.
+   * @param {i32} y1 Posição Y inicial.
+   * @param {i32} x2 Posição X final.
+   * @param {i32} y2 Posição Y final.
+   * @param {u16} colors Ordem de cores da paleta.
+   */
+  line(x1: i32, y1: i32, x2: i32, y2: i32, colors: u16): boolean {
+    // Alterar ordem de cores da paleta:
+    store<u16>(w4.DRAW_COLORS, colors);
+
+    // Desenhar linha...
+    w4.line(
+      this.viewX(x1),
+      this.viewY(y1),
+      this.viewX(x2),
+      this.viewY(y2)
+    );
+
+    return true;
+  }
+
+  /**
+   * Desenha uma linha horizontal na tela.
+   *
+   * @param {i32} x Posição X inicial.
+   * @param {i32} y Posição Y inicial.
+   * @param {i32} length Tamanho da linha.
+   * @param {u16} colors Ordem de cores da paleta.
+   */
+  hline(x: i32, y: i32, length: i32, colors: u16): boolean {
+    // Alterar ordem de cores da paleta:
+    store<u16>(w4.DRAW_COLORS, colors);
+
+    // Desenhar linha...
+    w4.hline(
+      this.viewX(x),
+      this.viewY(y),
+      length
+    );
+
+    return true;
+  }
+
+  /**
+   * Desenha uma linha vertical na tela.
+   *
+   * @param {i32} x Posição X inicial.
+   * @param {i32} y Posição Y inicial.
+   * @param {i32} length Tamanho da linha.
+   * @param {u16} colors Ordem de cores da paleta.
+   */
+  vline(x: i32, y: i32, length: i32, colors: u16): boolean {
+    // Alterar ordem de cores da paleta:
+    store<u16>(w4.DRAW_COLORS, colors);
+
+    // Desenhar linha...
+    w4.vline(
+      this.viewX(x),
+      this.viewY(y),
+      length
+    );
+
+    return true;
+  }
+
+  /**
+   * Desenha um círculo na tela.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   * @param {u16} colors Ordem de cores da paleta.
+   */
+  oval(x: i32, y: i32, width: i32, height: i32, colors: u16): boolean {
+    // Não desenhar fora da tela...
+    if(!this.isVisible(x, y, width, height)) {
+      return false;
+    }
+
+    // Alterar ordem de cores da paleta:
+    store<u16>(w4.DRAW_COLORS, colors);
+
+    // Desenhar círculo...
+    w4.oval(
+      this.viewX(x),
+      this.viewY(y),
+      width,
+      height
+    );
+
+    return true;
+  }
+
+  /**
+   * Desenha um retângulo na tela.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   * @param {u16} colors Ordem de cores da paleta.
+   */
+  rect(x: i32, y: i32, width: i32, height: i32, colors: u16): boolean {
+    // Não desenhar fora da tela...
+    if(!this.isVisible(x, y, width, height)) {
+      return false;
+    }
+
+    // Alterar ordem de cores da paleta:
+    store<u16>(w4.DRAW_COLORS, colors);
+
+    // Desenhar retângulo...
+    w4.rect(
+      this.viewX(x),
+      this.viewY(y),
+      width,
+      height
+    );
+
+    return true;
+  }
+
+  /**
+   * Desenha um único pixel na tela, usando a primeira cor da ordem de cores
+   * da paleta (quando zero, nada é desenhado).
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {u16} colors Ordem de cores da paleta.
+   */
+  pixel(x: i32, y: i32, colors: u16): boolean {
+    let color: u16 = colors & 0xF;
+    let viewX: i32 = this.viewX(x);
+    let viewY: i32 = this.viewY(y);
+
+    // Não desenhar cores transparentes, ou fora da tela...
+    if(color === 0 || viewX < 0 || viewY < 0 || viewX >= SCREEN_WIDTH || viewY >= SCREEN_HEIGHT) {
+      return false;
+    }
+
+    let offset: usize = w4.FRAMEBUFFER + ((viewY * (SCREEN_WIDTH / 4)) + (viewX >> 2));
+    let shift : u8    = ((viewX & 3) * 2) as u8;
+    let pixels: u8    = load<u8>(offset);
+
+    // Substituir os 2 bits do pixel:
+    pixels = (pixels & ~(0b11 << shift)) | ((((color - 1) as u8) & 0b11) << shift);
+    store<u8>(offset, pixels);
+
+    return true;
+  }
+
+  /**
+   * Escreve um texto na tela usando a fonte padrão.
+   *
+   * @param {string} text Texto a ser escrito.
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {u16} colors Ordem de cores da paleta.
+   *
+   * @return {boolean}
+   */
+  text(text: string, x: i32, y: i32, colors: u16): boolean {
+    // Alterar ordem de cores da paleta:
+    store<u16>(w4.DRAW_COLORS, colors);
+
+    // Escrever texto (com fonte padrão)...
+    w4.text(text, x, y);
+
+    return true;
+  }
+}
+
+/** Canvas principal. */
+export let canvas: Canvas = new Canvas();
+
+// ==========================================================================
+// camera.ts
+// ==========================================================================
+/**
+ * @class Camera
+ *
+ * @description
+ * Câmera que controla uma área de desenho (por padrão, `canvas.view`).
+ * Pode seguir um sprite com zona morta e suavização, ficar limitada aos
+ * limites do mundo e tremer a tela.
+ */
+export class Camera {
+  /** Área de desenho controlada por esta câmera. */
+  view: Viewport;
+
+  /** Posição X (sem tremor). */
+  x: f32;
+
+  /** Posição Y (sem tremor). */
+  y: f32;
+
+  /** Sprite seguido pela câmera. */
+  target: Sprite | null;
+
+  /**
+   * Zona morta, relativa à tela. Enquanto o centro do sprite seguido estiver
+   * dentro dela, a câmera não se movimenta.
+   */
+  deadzone: Viewport;
+
+  /** Suavização do movimento (de `0.0` a `1.0`, onde `1.0` é instantâneo). */
+  smoothing: f32;
+
+  /** Limites do mundo (ou `null`, para não limitar). */
+  bounds: Viewport | null;
+
+  /** Intensidade atual do tremor (em pixels). */
+  shakeIntensity: f32;
+
+  /** Decaimento do tremor a cada quadro (de `0.0` a `1.0`). */
+  shakeDecay: f32;
+
+  /**
+   * @constructor
+   *
+   * @param {Viewport} view Área de desenho controlada por esta câmera.
+   */
+  constructor(view: Viewport = canvas.view) {
+    this.view           = view;
+    this.x              = view.x as f32;
+    this.y              = view.y as f32;
+    this.target         = null;
+    this.deadzone       = new Viewport(view.width / 2, view.height / 2, 0, 0);
+    this.smoothing      = 1.0;
+    this.bounds         = null;
+    this.shakeIntensity = 0.0;
+    this.shakeDecay     = 0.9;
+  }
+
+  /**
+   * Define o sprite seguido pela câmera.
+   *
+   * @param {Sprite | null} target Sprite seguido (ou `null`, para parar).
+   *
+   * @return {Camera} Tail call.
+   */
+  follow(target: Sprite | null): Camera {
+    this.target = target;
+    return this;
+  }
+
+  /**
+   * Define a zona morta, relativa à tela.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   *
+   * @return {Camera} Tail call.
+   */
+  setDeadzone(x: i32, y: i32, width: i32, height: i32): Camera {
+    this.deadzone = new Viewport(x, y, width, height);
+    return this;
+  }
+
+  /**
+   * Define os limites do mundo.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   *
+   * @return {Camera} Tail call.
+   */
+  setBounds(x: i32, y: i32, width: i32, height: i32): Camera {
+    this.bounds = new Viewport(x, y, width, height);
+    return this;
+  }
+
+  /**
+   * Define os limites do mundo a partir do tamanho de um tilemap.
+   *
+   * @param {Tilemap} tilemap Tilemap.
+   * @param {i32} x Posição X do tilemap.
+   * @param {i32} y Posição Y do tilemap.
+   *
+   * @return {Camera} Tail call.
+   */
+  setTilemapBounds(tilemap: Tilemap, x: i32 = 0, y: i32 = 0): Camera {
+    return this.setBounds(x, y, tilemap.columns * tilemap.width, tilemap.rows * tilemap.height);
+  }
+
+  /**
+   * Faz a tela tremer. O tremor diminui a cada quadro.
+   *
+   * @param {f32} intensity Intensidade do tremor (em pixels).
+   * @param {f32} decay Decaimento do tremor a cada quadro (de `0.0` a `1.0`).
+   *
+   * @return {Camera} Tail call.
+   */
+  shake(intensity: f32, decay: f32 = 0.9): Camera {
+    this.shakeIntensity = intensity;
+    this.shakeDecay     = decay;
+    return this;
+  }
+
+  /**
+   * Movimenta a câmera imediatamente para uma posição.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   *
+   * @return {Camera} Tail call.
+   */
+  moveTo(x: i32, y: i32): Camera {
+    this.x = x as f32;
+    this.y = y as f32;
+    this.clamp();
+    this.apply(0, 0);
+
+    return this;
+  }
+
+  /**
+   * Mantém a câmera dentro dos limites do mundo.
+   */
+  clamp(): void {
+    let bounds: Viewport | null = this.bounds;
+
+    if(bounds === null) {
+      return;
+    }
+
+    // Limites horizontais (quando o mundo for mais estreito que a tela, a
+    // câmera permanece no canto esquerdo)...
+    let maxX: f32 = (bounds.x + bounds.width - this.view.width) as f32;
+
+    if(this.x > maxX) { this.x = maxX; }
+    if(this.x < (bounds.x as f32)) { this.x = bounds.x as f32; }
+
+    // Limites verticais:
+    let maxY: f32 = (bounds.y + bounds.height - this.view.height) as f32;
+
+    if(this.y > maxY) { this.y = maxY; }
+    if(this.y < (bounds.y as f32)) { this.y = bounds.y as f32; }
+  }
+
+  /**
+   * Atualiza a área de desenho com a posição da câmera.
+   *
+   * @param {i32} offsetX Deslocamento horizontal (tremor).
+   * @param {i32} offsetY Deslocamento vertical (tremor).
+   */
+  apply(offsetX: i32, offsetY: i32): void {
+    this.view.x = (Math.round(this.x) as i32) + offsetX;
+    this.view.y = (Math.round(this.y) as i32) + offsetY;
+  }
+
+  /**
+   * Atualiza a câmera. É acionado a cada quadro pela cena.
+   */
+  update(): void {
+    let target: Sprite | null = this.target;
+
+    // Seguir sprite...
+    if(target !== null) {
+      // Centro do sprite, relativo à câmera.
+      let centerX: f32 = (target.x + (target.width  / 2)) as f32;
+      let centerY: f32 = (target.y + (target.height / 2)) as f32;
+      let screenX: f32 = centerX - this.x;
+      let screenY: f32 = centerY - this.y;
+
+      // Posição desejada (apenas quando o sprite sair da zona morta).
+      let goalX: f32 = this.x;
+      let goalY: f32 = this.y;
+
+      if(screenX < (this.deadzone.x as f32)) {
+        goalX = centerX - (this.deadzone.x as f32);
+      }
+      else if(screenX > ((this.deadzone.x + this.deadzone.width) as f32)) {
+        goalX = centerX - ((this.deadzone.x + this.deadzone.width) as f32);
+      }
+
+      if(screenY < (this.deadzone.y as f32)) {
+        goalY = centerY - (this.deadzone.y as f32);
+      }
+      else if(screenY > ((this.deadzone.y + this.deadzone.height) as f32)) {
+        goalY = centerY - ((this.deadzone.y + this.deadzone.height) as f32);
+      }
+
+      // Aproximar-se da posição desejada (lerp):
+      this.x += (goalX - this.x) * this.smoothing;
+      this.y += (goalY - this.y) * this.smoothing;
+    }
+
+    this.clamp();
+
+    // Tremer a tela...
+    let offsetX: i32 = 0;
+    let offsetY: i32 = 0;
+
+    if(this.shakeIntensity >= 0.5) {
+      offsetX = Math.round(((Math.random() * 2.0) - 1.0) * this.shakeIntensity) as i32;
+      offsetY = Math.round(((Math.random() * 2.0) - 1.0) * this.shakeIntensity) as i32;
+
+      this.shakeIntensity *= this.shakeDecay;
+    }
+    else {
+      this.shakeIntensity = 0.0;
+    }
+
+    this.apply(offsetX, offsetY);
+  }
+}
+
+// ==========================================================================
+// gamepad_button.ts
+// ==========================================================================
+/** Identificador do jogador 1. */
+const GAMEPAD_P1: u8 = 0;
+
+/** Identificador do jogador 2. */
+const GAMEPAD_P2: u8 = 1;
+
+/** Identificador do jogador 3. */
+const GAMEPAD_P3: u8 = 2;
+
+/** Indicador do jogador 4. */
+const GAMEPAD_P4: u8 = 3;
+
+/** Estado de controle inerte. */
+const GAMEPAD_STATE_IDLE: u8 = 0;
+
+/** Estado de controle recém-pressionado. */
+const GAMEPAD_STATE_PRESSED: u8 = 1;
+
+/** Estado de controle mantido. */
+const GAMEPAD_STATE_HELD: u8 = 2;
+
+/** Estado de controle recém-solto. */
+const GAMEPAD_STATE_RELEASED: u8 = 3;
+
+/**
+ * Look-Up Table de estados de botão. Os primeiros 4 valores são o ciclo de
+ * estados quando o botão estiver pressionado, e os 4 seguintes, quando
+ * estiver solto (indexados pelo estado atual: inerte, recém-pressionado,
+ * mantido e recém-solto).
+ */
+const GAMEPAD_STATE_TABLE: usize = memory.data<u8>([
+  GAMEPAD_STATE_PRESSED, GAMEPAD_STATE_HELD,     GAMEPAD_STATE_HELD,     GAMEPAD_STATE_PRESSED,
+  GAMEPAD_STATE_IDLE,    GAMEPAD_STATE_RELEASED, GAMEPAD_STATE_RELEASED, GAMEPAD_STATE_IDLE,
+]);
+
+/**
+ * @class GamepadButton
+ *
+ * @description
+ * Representa um dos botões de controle. Útil para obter eventos rápidos, como
+ * checar se foi pressionado ou não.
+ */
+export class GamepadButton {
+  /** Estado de botão. */
+  state: u8;
+
+  /**
+   * @constructor
+   */
+  constructor() {
+    this.state = 0;
+  }
+
+  /**
+   * Avança para o próximo estado de botão, a partir de uma situação atual.
+   *
+   * @param {boolean} pressed Indica se o botão de entrada está pressionado.
+   *
+   * @return {u8}
+   */
+  nextState(pressed: boolean): u8 {
+    // Ciclo de estados (pressionado ou solto), na Look-Up Table.
+    let offset: usize = pressed? 0: 4;
+
+    this.state = load<u8>(GAMEPAD_STATE_TABLE + offset + (this.state as usize));
+    return this.state;
+  }
+
+  /**
+   * Indica se este botão está inerte.
+   *
+   * @return {boolean}
+   */
+  idle(): boolean {
+    return this.state === GAMEPAD_STATE_IDLE;
+  }
+
+  /**
+   * Indica se este botão está recém-pressionado.
+   *
+   * @return {boolean}
+   */
+  pressed(): boolean {
+    return this.state === GAMEPAD_STATE_PRESSED;
+  }
+
+  /**
+   * Indica se este botão está mantido.
+   *
+   * @return {boolean}
+   */
+  held(): boolean {
+    return this.state === GAMEPAD_STATE_HELD;
+  }
+
+  /**
+   * Indica se este botão está solto.
+   *
+   * @return {boolean}
+   */
+  released(): boolean {
+    return this.state === GAMEPAD_STATE_RELEASED;
+  }
+}
+
+// ==========================================================================
+// gamepad.ts
+// ==========================================================================
+/**
+ * @class Gamepad
+ *
+ * @description
+ * Representa um controle de jogador.
+ */
+export class Gamepad {
+  /** Número do jogador. */
+  player: u8;
+
+  /** Botão para cima. */
+  up: GamepadButton;
+
+  /** Botão para baixo. */
+  down: GamepadButton;
+
+  /** Botáo para esquerda. */
+  left: GamepadButton;
+
+  /** Botáo para direita. */
+  right: GamepadButton;
+
+  /** Botáo 1 (tecla Z). */
+  b1: GamepadButton;
+
+  /** Botáo 2 (tecla X). */
+  b2: GamepadButton;
+
+  /**
+   * @constructor
+   *
+   * @param {usize} input Porta de referência.
+   */
+  constructor(player: u8) {
+    this.player = player;
+    this.up    = new GamepadButton();
+    this.down  = new GamepadButton();
+    this.left  = new GamepadButton();
+    this.right = new GamepadButton();
+    this.b1    = new GamepadButton();
+    this.b2    = new GamepadButton();
+  }
+
+  /**
+   * Retorna a entrada de referência do jogador deste controle.
+   *
+   * @return {usize}
+   */
+  gamepad(): usize {
+    // Porta do jogador 1...
+    if(this.player === GAMEPAD_P1) {
+      return load<u8>(w4.GAMEPAD1);
+    }
+    // Porta do jogador 2...
+    else if(this.player === GAMEPAD_P2) {
+      return load<u8>(w4.GAMEPAD2);
+    }
+    // Porta do jogador 3...
+    else if(this.player === GAMEPAD_P3) {
+      return load<u8>(w4.GAMEPAD3);
+    }
+    // Porta do jogador 4...
+    else {
+      return load<u8>(w4.GAMEPAD4);
+    }
+  }
+
+  /**
+   * Atualiza todos os estados de tecla.
+   */
+  update(): void {
+    let gamepad: usize = this.gamepad();
+
+    this.up.nextState(gamepad & w4.BUTTON_UP? true: false);
+    this.down.nextState(gamepad & w4.BUTTON_DOWN? true: false);
+    this.left.nextState(gamepad & w4.BUTTON_LEFT? true: false);
+    this.right.nextState(gamepad & w4.BUTTON_RIGHT? true: false);
+    this.b1.nextState(gamepad & w4.BUTTON_1? true: false);
+    this.b2.nextState(gamepad & w4.BUTTON_2? true: false);
+  }
+
+  /**
+   * Retorna todos os botões ao estado inerte.
+   */
+  reset(): void {
+    this.up.state    = GAMEPAD_STATE_IDLE;
+    this.down.state  = GAMEPAD_STATE_IDLE;
+    this.left.state  = GAMEPAD_STATE_IDLE;
+    this.right.state = GAMEPAD_STATE_IDLE;
+    this.b1.state    = GAMEPAD_STATE_IDLE;
+    this.b2.state    = GAMEPAD_STATE_IDLE;
+  }
+}
+
+/** Controles do jogador 1. */
+export let p1: Gamepad = new Gamepad(GAMEPAD_P1);
+
+/** Controles do jogador 2. */
+export let p2: Gamepad = new Gamepad(GAMEPAD_P2);
+
+/** Controles do jogador 3. */
+export let p3: Gamepad = new Gamepad(GAMEPAD_P3);
+
+/** Controles do jogador 4. */
+export let p4: Gamepad = new Gamepad(GAMEPAD_P4);
+
+// ==========================================================================
+// mouse.ts
+// ==========================================================================
+/**
+ * @class Mouse
+ *
+ * @description
+ * Representa um cursor de mouse/touchscreen.
+ */
+export class Mouse {
+  /** Posição do mouse. */
+  position: Vec2;
+
+  /** Botão esquerdo do mouse. */
+  left: GamepadButton;
+
+  /** Botão direito do mouse. */
+  right: GamepadButton;
+
+  /** Botão do meio do mouse. */
+  middle: GamepadButton;
+
+  /**
+   * @constructor
+   */
+  constructor() {
+    this.position = new Vec2(0, 0);
+    this.left     = new GamepadButton();
+    this.right    = new GamepadButton();
+    this.middle   = new GamepadButton();
+  }
+
+  /**
+   * Atualiza todos os estados de tecla.
+   */
+  update(): void {
+    let mouse: usize = load<u8>(w4.MOUSE_BUTTONS);
+
+    this.left.nextState(mouse & w4.MOUSE_LEFT? true: false);
+    this.right.nextState(mouse & w4.MOUSE_RIGHT? true: false);
+    this.middle.nextState(mouse & w4.MOUSE_MIDDLE? true: false);
+
+    this.position.x = load<i16>(w4.MOUSE_X) as i32;
+    this.position.y = load<i16>(w4.MOUSE_Y) as i32;
+  }
+
+  /**
+   * Retorna todos os botões ao estado inerte.
+   */
+  reset(): void {
+    this.left.state   = GAMEPAD_STATE_IDLE;
+    this.right.state  = GAMEPAD_STATE_IDLE;
+    this.middle.state = GAMEPAD_STATE_IDLE;
+  }
+}
+
+/** Cursor do mouse/touchscreen. */
+export let mouse: Mouse = new Mouse();
+
+// ==========================================================================
+// frame.ts
+// ==========================================================================
+/**
+ * @class Frame
+ *
+ * @description
+ * Representa um quadro de animação usado em uma folha de sprites.
+ */
+export class Frame {
+  /** Posição X. */
+  x: i32;
+
+  /** Posição Y. */
+  y: i32;
+
+  /** Largura. */
+  width: i32;
+
+  /** Altura. */
+  height: i32;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   */
+  constructor(x: i32, y: i32, width: i32, height: i32) {
+    this.x      = x;
+    this.y      = y;
+    this.width  = width;
+    this.height = height;
+  }
+}
+
+// ==========================================================================
+// spritesheet.ts
+// ==========================================================================
+/**
+ * Look-Up Table de flags de rotação, usada por `Spritesheet.draw()`. Cada
+ * linha corresponde aos ângulos de 0º, 90º, 180º e 270º, respectivamente.
+ */
+const SPRITESHEET_ROTATIONS: usize = memory.data<u8>([
+   0, 14,  6,  8, // Rotação original.
+   2, 10,  4, 12, // Rotação com X invertido.
+   4, 12,  2, 10, // Rotação com Y invertido.
+   6,  8,  0, 14, // Rotação com X e Y invertidos.
+]);
+
+/**
+ * @class Spritesheet
+ *
+ * @description
+ * Representa uma folha de sprites. Contém vários quadros de animação.
+ */
+export class Spritesheet {
+  /** Imagem de referência. */
+  image: usize;
+
+  /** Flags de desenho da imagem de referência. */
+  flags: u32;
+
+  /** Largura da imagem. */
+  imageWidth: i32;
+
+  /** Altura da imagem.  */
+  imageHeight: i32;
+
+  /** Largura dos quadros de animação. */
+  width: i32;
+
+  /** Altura dos quadros de animação. */
+  height: i32;
+
+  /** Total de quadros por linha. */
+  rows: i32;
+
+  /** Total de quadros por coluna. */
+  columns: i32;
+
+  /** Quadros de animação. */
+  frames: Frame[];
+
+  /**
+   * @constructor
+   *
+   * @param {usize} image Imagem de referência.
+   * @param {u32} flags Flags de desenho da imagem de referência.
+   * @param {i32} imageWidth Largura da imagem.
+   * @param {i32} imageHeight Altura da imagem.
+   * @param {i32} width Largura dos quadros de animação.
+   * @param {i32} height Altura dos quadros de animação.
+   */
+  constructor(image: usize, flags: u32, imageWidth: i32, imageHeight: i32, width: i32, height: i32) {
+    this.image       = image;
+    this.flags       = flags;
+    this.imageWidth  = imageWidth;
+    this.imageHeight = imageHeight;
+    this.width       = width;
+    this.height      = height;
+    this.rows        = Math.floor(imageHeight / height) as i32;
+    this.columns     = Math.floor(imageWidth / width) as i32;
+    this.frames      = [];
+
+    // Criar quadros de animação dinamicamente...
+    for(let row: i32 = 0; row < this.rows; row += 1) {
+      for(let column: i32 = 0; column < this.columns; column += 1) {
+
+        this.frames.push(
+          new Frame(column * width, row * height, width, height)
+        );
+
+      }
+    }
+  }
+
+  /**
+   * Desenha um quadro de animação.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} index Índice do quadro de animação.
+   * @param {boolean} flipX Inverte este quadro horizontalmente.
+   * @param {boolean} flipY Inverte este quadro verticalmente.
+   * @param {i32} rotation Ângulo de rotação (de 0º a 360º).
+   * @param {u16} colors Ordem de cores da paleta.
+   */
+  draw(x: i32, y: i32, index: i32, flipX: boolean, flipY: boolean, rotation: i32, colors: u16): boolean {
+    // Não desenhar a imagem, caso o índice não exista:
+    if(index < 0 || index >= this.frames.length) {
+      return false;
+    }
+
+    // Índice de rotação, alinhado em 90º.
+    let rotationIndex: i32 = (Math.floor(Math.abs(rotation) / 90) as i32) % 4;
+
+    // Ajustar rotação para ângulos negativos...
+    if(rotation < 0) {
+      rotationIndex = (4 - rotationIndex) % 4;
+    }
+
+    // Linha da Look-Up Table de rotações, de acordo com a inversão...
+    let row: i32 = 0;
+
+    if(flipX) { row |= 1; }
+    if(flipY) { row |= 2; }
+
+    // Flags de desenho.
+    let flags: u32 = this.flags | (load<u8>(SPRITESHEET_ROTATIONS + (((row << 2) + rotationIndex) as usize)) as u32);
+
+    // Quadro de animação.
+    let frame: Frame = this.frames[index];
+
+    // Alterar ordem de cores da paleta:
+    store<u16>(w4.DRAW_COLORS, colors);
+
+    // Desenhar imagem...
+    canvas.blitSub(
+      this.image,
+      x,
+      y,
+      frame.width as u32,
+      frame.height as u32,
+      frame.x as u32,
+      frame.y as u32,
+      this.imageWidth,
+      colors,
+      flags
+    );
+
+    return true;
+  }
+
+  /**
+   * Escreve um texto na tela, usando os quadros de animação como caracteres.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {string} text Texto a ser escrito.
+   * @param {string} charset Charset com todos os caracteres a serem usados.
+   * @param {i32} paddingX Espaçamento horizontal entre cada caractere.
+   * @param {i32} paddingY Espaçamento vertical entre cada caractere.
+   * @param {i32} start Índice do quadro de animação do primeiro caractere.
+   * @param {u16} colors Ordem de cores da paleta.
+   */
+  write(x: i32, y: i32, text: string, charset: string, start: i32, paddingX: i32, paddingY: i32, colors: u16): boolean {
+    // Contadores de linhas e colunas.
+    let line  : i32 = 0;
+    let column: i32 = 0;
+
+    // Caracteres especiais: "\n" (newline) e " " (space).
+    let newline: i32 = 10;
+    let space  : i32 = 32;
+
+    // Percorrer caracteres do texto...
+    for(let index: i32 = 0; index < text.length; index += 1) {
+      let char    : string = text[index];
+      let charCode: i32    = char.charCodeAt(0);
+
+      // Avançar para a próxima linha ao encontrar um "\n" (newline)...
+      if(charCode === newline) {
+        line  += 1;
+        column = 0;
+        continue;
+      }
+      // Avançar para a próxima coluna ao encontrar um " " (space)...
+      else if(charCode === space) {
+        column += 1;
+        continue;
+      }
+
+      // Índice do caractere no charset.
+      let index: i32 = charset.indexOf(char);
+
+      // Se o caractere não existir no charset, ou o índice ultrapassar o
+      // total de quadros de animação existentes nesta folha de sprites, ele
+      // será ignorado e tratado como um " " (space)...
+      if(index < 0 || index >= this.frames.length) {
+        column += 1;
+        continue;
+      }
+
+      // Ajustar índice do caractere para obter o índice do quadro de animação
+      // equivalente ao do caractere...
+      index += start;
+
+      // Quadro de animação equivalente ao do caractere.
+      let frame: Frame = this.frames[index];
+
+      // Desenhar caractere...
+      this.draw(
+        x + (column * (frame.width  + paddingX)),
+        y + (line   * (frame.height + paddingY)),
+        index,
+        colors
+      );
+
+      // Avançar uma coluna...
+      column += 1;
+    }
+
+    return true;
+  }
+
+  /**
+   * Desenha um tilemap na tela.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i16[][]} tilemap Tilemap (Array 2D).
+   * @param {u16} colors Ordem de cores da paleta.
+   * @param {FieldOfView | null} fog Campo de visão (névoa de guerra). Células
+   *        não exploradas não são desenhadas.
+   * @param {u16} fogColors Ordem de cores das células exploradas, mas não
+   *        visíveis (quando zero, elas são desenhadas normalmente).
+   */
+  tile(x: i32, y: i32, tilemap: i16[][], colors: u16, fog: FieldOfView | null = null, fogColors: u16 = 0): boolean {
+    // Percorrer linhas do tilemap...
+    for(let row: i32 = 0; row < tilemap.length; row += 1) {
+      let line: i16[] = tilemap[row];
+
+      // Calcular posição vertical de desenho na viewport.
+      let viewY: i32 = canvas.viewY(y + (row * this.height));
+
+      // Quando menor que zero, saltar para a próxima linha...
+      if(viewY < -this.height) {
+        continue;
+      }
+      // Quando maior que a altura da tela, encerrar iteração...
+      if(viewY >= 160) {
+        break;
+      }
+
+      // Percorrer colunas do tilemap...
+      for(let column: i32 = 0; column < line.length; column += 1) {
+        let index: i32 = line[column] as i32;
+
+        // Calcular posição horizontal de desenho na viewport.
+        let viewX: i32 = canvas.viewX(x + (column * this.width));
+
+        // Quando menor que zero, saltar para a próxima coluna...
+        if(viewX < -this.width) {
+          continue;
+        }
+        // Quando maior que a largura da tela, encerrar iteração...
+        if(viewX >= 160) {
+          break;
+        }
+
+        // Se o índice do tile ultrapassar o total de quadros de animação
+        // existentes nesta folha de sprites, ele será ignorado...
+        if(index < 0 || index >= this.frames.length) {
+          continue;
+        }
+
+        // Quadro de animação equivalente ao do caractere.
+        let frame: Frame = this.frames[index];
+
+        // Cores usadas no desenho (de acordo com a névoa de guerra).
+        let tileColors: u16 = colors;
+
+        if(fog !== null) {
+          if(!fog.isExplored(column, row)) {
+            continue;
+          }
+          if(fogColors !== 0 && !fog.isVisible(column, row)) {
+            tileColors = fogColors;
+          }
+        }
+
+        // Desenhar caractere...
+        this.draw(
+          x + (column * frame.width),
+          y + (row * frame.height),
+          index,
+          false,
+          false,
+          0,
+          tileColors
+        );
+      }
+
+    }
+
+    return true;
+  }
+
+  /**
+   * Desenha um tilemap na tela, lendo os tiles com `Tilemap.getTile()`.
+   * Funciona também com tilemaps carregados com `Tilemap.fromData()`.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {Tilemap} tilemap Tilemap.
+   * @param {u16} colors Ordem de cores da paleta.
+   * @param {FieldOfView | null} fog Campo de visão (névoa de guerra).
+   * @param {u16} fogColors Ordem de cores das células exploradas, mas não visíveis.
+   */
+  tileGrid(x: i32, y: i32, tilemap: Tilemap, colors: u16, fog: FieldOfView | null = null, fogColors: u16 = 0): boolean {
+    // Percorrer linhas do tilemap...
+    for(let row: i32 = 0; row < tilemap.rows; row += 1) {
+      // Calcular posição vertical de desenho na viewport.
+      let viewY: i32 = canvas.viewY(y + (row * this.height));
+
+      // Quando menor que zero, saltar para a próxima linha...
+      if(viewY < -this.height) {
+        continue;
+      }
+      // Quando maior que a altura da tela, encerrar iteração...
+      if(viewY >= 160) {
+        break;
+      }
+
+      // Percorrer colunas do tilemap...
+      for(let column: i32 = 0; column < tilemap.columns; column += 1) {
+        let index: i32 = tilemap.getTile(column, row) as i32;
+
+        // Calcular posição horizontal de desenho na viewport.
+        let viewX: i32 = canvas.viewX(x + (column * this.width));
+
+        // Quando menor que zero, saltar para a próxima coluna...
+        if(viewX < -this.width) {
+          continue;
+        }
+        // Quando maior que a largura da tela, encerrar iteração...
+        if(viewX >= 160) {
+          break;
+        }
+
+        // Tiles vazios ou fora da folha de sprites são ignorados...
+        if(index < 0 || index >= this.frames.length) {
+          continue;
+        }
+
+        // Cores usadas no desenho (de acordo com a névoa de guerra).
+        let tileColors: u16 = colors;
+
+        if(fog !== null) {
+          if(!fog.isExplored(column, row)) {
+            continue;
+          }
+          if(fogColors !== 0 && !fog.isVisible(column, row)) {
+            tileColors = fogColors;
+          }
+        }
+
+        this.draw(
+          x + (column * this.width),
+          y + (row * this.height),
+          index,
+          false,
+          false,
+          0,
+          tileColors
+        );
+      }
+    }
+
+    return true;
+  }
+}
+
+// ==========================================================================
+// animation_player.ts
+// ==========================================================================
+/** Modo de animação: repete do início ao chegar no último quadro. */
+export const ANIMATION_LOOP: u8 = 0;
+
+/** Modo de animação: para no último quadro. */
+export const ANIMATION_ONCE: u8 = 1;
+
+/** Modo de animação: alterna entre ida e volta. */
+export const ANIMATION_PINGPONG: u8 = 2;
+
+/**
+ * @class AnimationClip
+ *
+ * @description
+ * Representa uma animação nomeada, com duração individual por quadro e
+ * eventos associados a quadros específicos.
+ */
+export class AnimationClip {
+  /** Nome da animação. */
+  name: string;
+
+  /** Índices dos quadros de animação na folha de sprites. */
+  frames: i16[];
+
+  /** Duração de cada quadro (em quadros de jogo). */
+  durations: i32[];
+
+  /** Modo de animação. */
+  mode: u8;
+
+  /** Quadros (índices dentro da animação) que acionam eventos. */
+  eventFrames: i32[];
+
+  /** Nomes dos eventos, na mesma ordem de `eventFrames`. */
+  eventNames: string[];
+
+  /** Caixas de colisão de cada quadro (vazio, para não alterá-las). */
+  hitboxes: Hitbox[];
+
+  /**
+   * @constructor
+   *
+   * @param {string} name Nome da animação.
+   * @param {i16[]} frames Índices dos quadros de animação.
+   * @param {i32[]} durations Duração de cada quadro. Quando houver menos
+   *        durações do que quadros, a última duração é repetida.
+   * @param {u8} mode Modo de animação.
+   */
+  constructor(name: string, frames: i16[], durations: i32[], mode: u8 = ANIMATION_LOOP) {
+    this.name        = name;
+    this.frames      = frames;
+    this.durations   = durations;
+    this.mode        = mode;
+    this.eventFrames = [];
+    this.eventNames  = [];
+    this.hitboxes    = [];
+  }
+
+  /**
+   * Obtém a duração de um quadro.
+   *
+   * @param {i32} index Índice do quadro dentro da animação.
+   *
+   * @return {i32}
+   */
+  duration(index: i32): i32 {
+    if(this.durations.length === 0) {
+      return 1;
+    }
+
+    let duration: i32 = this.durations[min<i32>(index, this.durations.length - 1)];
+    return duration > 0? duration: 1;
+  }
+
+  /**
+   * Obtém a caixa de colisão de um quadro.
+   *
+   * @param {i32} index Índice do quadro dentro da animação.
+   *
+   * @return {Hitbox | null} Retorna `null` quando a animação não define
+   *         caixas de colisão.
+   */
+  hitbox(index: i32): Hitbox | null {
+    if(this.hitboxes.length === 0) {
+      return null;
+    }
+
+    return this.hitboxes[min<i32>(index, this.hitboxes.length - 1)];
+  }
+
+  /**
+   * Define as caixas de colisão de cada quadro. Ao entrar em um quadro, a
+   * caixa de colisão do sprite associado ao reprodutor é substituída.
+   *
+   * @param {Hitbox[]} hitboxes Caixas de colisão (de qualquer formato).
+   *        Quando houver menos caixas do que quadros, a última é repetida.
+   *
+   * @return {AnimationClip} Tail call.
+   */
+  setHitboxes(hitboxes: Hitbox[]): AnimationClip {
+    this.hitboxes = hitboxes;
+    return this;
+  }
+
+  /**
+   * Adiciona um evento a um quadro.
+   *
+   * @param {i32} frame Índice do quadro dentro da animação.
+   * @param {string} name Nome do evento.
+   *
+   * @return {AnimationClip} Tail call.
+   */
+  addEvent(frame: i32, name: string): AnimationClip {
+    this.eventFrames.push(frame);
+    this.eventNames.push(name);
+    return this;
+  }
+}
+
+/**
+ * @class AnimationPlayer
+ *
+ * @description
+ * Reprodutor de animações nomeadas, associado a uma folha de sprites.
+ */
+export class AnimationPlayer {
+  /** Folha de sprites. */
+  spritesheet: Spritesheet;
+
+  /** Sprite que recebe os eventos das animações. */
+  owner: Sprite | null;
+
+  /** Animações disponíveis. */
+  clips: AnimationClip[];
+
+  /** Animação atual. */
+  clip: AnimationClip | null;
+
+  /** Índice do quadro atual dentro da animação. */
+  index: i32;
+
+  /** Quadros de jogo restantes até o próximo quadro de animação. */
+  ticks: i32;
+
+  /** Direção de reprodução (`1` ou `-1`, usada no modo ping-pong). */
+  direction: i32;
+
+  /** Indica se a animação atual foi concluída (apenas no modo único). */
+  finished: boolean;
+
+  /** Inverte os quadros horizontalmente. */
+  flipX: boolean;
+
+  /** Inverte os quadros verticalmente. */
+  flipY: boolean;
+
+  /** Ângulo de rotação (de 0º a 360º). */
+  rotation: i32;
+
+  /** Ordem de cores da paleta. */
+  colors: u16;
+
+  /**
+   * @constructor
+   *
+   * @param {Spritesheet} spritesheet Folha de sprites.
+   * @param {Sprite | null} owner Sprite que recebe os eventos das animações.
+   */
+  constructor(spritesheet: Spritesheet, owner: Sprite | null = null) {
+    this.spritesheet = spritesheet;
+    this.owner       = owner;
+    this.clips       = [];
+    this.clip        = null;
+    this.index       = 0;
+    this.ticks       = 0;
+    this.direction   = 1;
+    this.finished    = false;
+    this.flipX       = false;
+    this.flipY       = false;
+    this.rotation    = 0;
+    this.colors      = 0x4321;
+  }
+
+  /**
+   * Adiciona uma animação.
+   *
+   * @param {string} name Nome da animação.
+   * @param {i16[]} frames Índices dos quadros de animação.
+   * @param {i32[]} durations Duração de cada quadro.
+   * @param {u8} mode Modo de animação.
+   *
+   * @return {AnimationClip}
+   */
+  add(name: string, frames: i16[], durations: i32[], mode: u8 = ANIMATION_LOOP): AnimationClip {
+    let clip: AnimationClip = new AnimationClip(name, frames, durations, mode);
+
+    this.clips.push(clip);
+    return clip;
+  }
+
+  /**
+   * Obtém uma animação pelo seu nome.
+   *
+   * @param {string} name Nome da animação.
+   *
+   * @return {AnimationClip | null}
+   */
+  get(name: string): AnimationClip | null {
+    for(let index: i32 = 0; index < this.clips.length; index += 1) {
+      let clip: AnimationClip = this.clips[index];
+
+      if(clip.name === name) {
+        return clip;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Retorna o nome da animação atual.
+   *
+   * @return {string}
+   */
+  current(): string {
+    let clip: AnimationClip | null = this.clip;
+
+    return clip !== null? clip.name: "";
+  }
+
+  /**
+   * Reproduz uma animação. Quando ela já estiver em reprodução, nada muda.
+   *
+   * @param {string} name Nome da animação.
+   * @param {boolean} restart Reinicia a animação, mesmo que já esteja em reprodução.
+   *
+   * @return {boolean} Retorna `false` quando a animação não existe.
+   */
+  play(name: string, restart: boolean = false): boolean {
+    let clip: AnimationClip | null = this.get(name);
+
+    if(clip === null) {
+      return false;
+    }
+
+    // Não reiniciar a animação atual...
+    if(clip === this.clip && !restart) {
+      return true;
+    }
+
+    this.clip      = clip;
+    this.index     = 0;
+    this.ticks     = clip.duration(0);
+    this.direction = 1;
+    this.finished  = false;
+
+    this.enterFrame(clip);
+    return true;
+  }
+
+  /**
+   * Interrompe a animação atual.
+   */
+  stop(): void {
+    this.clip = null;
+  }
+
+  /**
+   * Obtém o índice do quadro atual na folha de sprites.
+   *
+   * @return {i32} Retorna `-1` quando não há animação em reprodução.
+   */
+  frame(): i32 {
+    let clip: AnimationClip | null = this.clip;
+
+    if(clip === null || clip.frames.length === 0) {
+      return -1;
+    }
+
+    return clip.frames[this.index] as i32;
+  }
+
+  /**
+   * Entra no quadro atual, aplicando sua caixa de colisão ao sprite
+   * associado e acionando seus eventos.
+   *
+   * @param {AnimationClip} clip Animação atual.
+   */
+  enterFrame(clip: AnimationClip): void {
+    let owner : Sprite | null = this.owner;
+    let hitbox: Hitbox | null = clip.hitbox(this.index);
+
+    if(owner !== null && hitbox !== null) {
+      owner.hitbox = hitbox;
+    }
+
+    this.fireEvents(clip);
+  }
+
+  /**
+   * Aciona os eventos do quadro atual.
+   *
+   * @param {AnimationClip} clip Animação atual.
+   */
+  fireEvents(clip: AnimationClip): void {
+    for(let index: i32 = 0; index < clip.eventFrames.length; index += 1) {
+      if(clip.eventFrames[index] === this.index) {
+        this.onEvent(clip.eventNames[index], clip.name);
+      }
+    }
+  }
+
+  /**
+   * Atualiza a animação atual. Deve ser chamado a cada quadro.
+   */
+  update(): void {
+    let clip: AnimationClip | null = this.clip;
+
+    // Não atualizar quando não houver animação ou ela estiver concluída...
+    if(clip === null || this.finished || clip.frames.length === 0) {
+      return;
+    }
+
+    // Aguardar a duração do quadro atual...
+    this.ticks -= 1;
+
+    if(this.ticks > 0) {
+      return;
+    }
+
+    // Quantidade de quadros.
+    let length: i32 = clip.frames.length;
+
+    // Modo único: parar no último quadro...
+    if(clip.mode === ANIMATION_ONCE) {
+      if(this.index + 1 >= length) {
+        this.finished = true;
+        this.onFinish(clip.name);
+        return;
+      }
+
+      this.index += 1;
+    }
+    // Modo ping-pong: inverter a direção nas extremidades...
+    else if(clip.mode === ANIMATION_PINGPONG) {
+      if(length > 1) {
+        let next: i32 = this.index + this.direction;
+
+        if(next < 0 || next >= length) {
+          this.direction = -this.direction;
+          next = this.index + this.direction;
+        }
+
+        this.index = next;
+      }
+
+      // Um ciclo se completa ao voltar para o primeiro quadro:
+      if(this.index === 0) {
+        this.onFinish(clip.name);
+      }
+    }
+    // Modo de repetição: voltar ao início depois do último quadro...
+    else {
+      this.index = (this.index + 1) % length;
+
+      // Um ciclo se completa ao voltar para o primeiro quadro:
+      if(this.index === 0) {
+        this.onFinish(clip.name);
+      }
+    }
+
+    // A animação pode ter sido trocada durante o evento de conclusão:
+    if(this.clip !== clip) {
+      return;
+    }
+
+    this.ticks = clip.duration(this.index);
+    this.enterFrame(clip);
+  }
+
+  /**
+   * Desenha o quadro atual.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   *
+   * @return {boolean}
+   */
+  draw(x: i32, y: i32): boolean {
+    let frame: i32 = this.frame();
+
+    if(frame < 0) {
+      return false;
+    }
+
+    let flipX: boolean = this.flipX;
+    let flipY: boolean = this.flipY;
+
+    // Combinar com a inversão do sprite associado (e de seus ancestrais):
+    let owner: Sprite | null = this.owner;
+
+    if(owner !== null) {
+      flipX = flipX !== owner.worldFlipX();
+      flipY = flipY !== owner.worldFlipY();
+    }
+
+    return this.spritesheet.draw(x, y, frame, flipX, flipY, this.rotation, this.colors);
+  }
+
+  /**
+   * @event onEvent
+   * Evento acionado ao entrar em um quadro com eventos. Por padrão, repassa
+   * o evento para o sprite associado.
+   *
+   * @param {string} name Nome do evento.
+   * @param {string} clip Nome da animação.
+   */
+  onEvent(name: string, clip: string): void {
+    let owner: Sprite | null = this.owner;
+
+    if(owner !== null) {
+      owner.onAnimationEvent(name, clip);
+    }
+  }
+
+  /**
+   * @event onFinish
+   * Evento acionado ao concluir uma animação (no modo único) ou ao completar
+   * um ciclo (nos demais modos). Por padrão, repassa o evento para o sprite
+   * associado.
+   *
+   * @param {string} clip Nome da animação.
+   */
+  onFinish(clip: string): void {
+    let owner: Sprite | null = this.owner;
+
+    if(owner !== null) {
+      owner.onAnimationFinish(clip);
+    }
+  }
+}
+
+// ==========================================================================
+// hitbox.ts
+// ==========================================================================
+/** Formato de caixa de colisão: retângulo. */
+export const HITBOX_RECT: u8 = 0;
+
+/** Formato de caixa de colisão: círculo. */
+export const HITBOX_CIRCLE: u8 = 1;
+
+/** Formato de caixa de colisão: várias caixas combinadas. */
+export const HITBOX_MULTI: u8 = 2;
+
+/** Formato de caixa de colisão: máscara de pixels. */
+export const HITBOX_MASK: u8 = 3;
+
+/**
+ * @class Hitbox
+ *
+ * @description
+ * Representa uma caixa de colisão retangular, relativa à posição do sprite.
+ * Outros formatos (círculos, máscaras, etc.) estendem esta classe: seus
+ * limites (`left`, `top`, `right` e `bottom`) sempre envolvem o formato, e
+ * são usados em checagens rápidas, na tabela espacial e nos tilemaps.
+ */
+export class Hitbox {
   /** Posição esquerda. */
   left: i32;
 
-  /** Posição superior. */
-  top: i32;
+  /** Posição superior. */
+  top: i32;
+
+  /** Posição direita. */
+  right: i32;
+
+  /** Posição inferior. */
+  bottom: i32;
+
+  /** Formato (ex: `HITBOX_RECT`). */
+  kind: u8;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} left Posição esquerda.
+   * @param {i32} top Posição superior.
+   * @param {i32} right Posição direita.
+   * @param {i32} bottom Posição inferior.
+   */
+  constructor(left: i32, top: i32, right: i32, bottom: i32) {
+    this.left   = left;
+    this.top    = top;
+    this.right  = right;
+    this.bottom = bottom;
+    this.kind   = HITBOX_RECT;
+  }
+
+  /**
+   * Checa a intersecção entre duas caixas de colisão de qualquer formato.
+   *
+   * @param {Hitbox} a Primeira caixa de colisão.
+   * @param {i32} ax Posição X da primeira caixa.
+   * @param {i32} ay Posição Y da primeira caixa.
+   * @param {Hitbox} b Segunda caixa de colisão.
+   * @param {i32} bx Posição X da segunda caixa.
+   * @param {i32} by Posição Y da segunda caixa.
+   *
+   * @return {boolean}
+   */
+  static overlaps(a: Hitbox, ax: i32, ay: i32, b: Hitbox, bx: i32, by: i32): boolean {
+    // Checagem rápida pelos limites...
+    if(!(
+      ax + a.left   < bx + b.right  &&
+      ax + a.right  > bx + b.left   &&
+      ay + a.top    < by + b.bottom &&
+      ay + a.bottom > by + b.top
+    )) {
+      return false;
+    }
+
+    // Caixas combinadas: basta uma delas colidir...
+    if(a.kind === HITBOX_MULTI) {
+      let boxes: Hitbox[] = (a as MultiHitbox).boxes;
+
+      for(let index: i32 = 0; index < boxes.length; index += 1) {
+        if(Hitbox.overlaps(boxes[index], ax, ay, b, bx, by)) {
+          return true;
+        }
+      }
+
+      return false;
+    }
+    if(b.kind === HITBOX_MULTI) {
+      return Hitbox.overlaps(b, bx, by, a, ax, ay);
+    }
+
+    // Ordenar formatos (o de menor valor primeiro)...
+    if(a.kind > b.kind) {
+      return Hitbox.overlaps(b, bx, by, a, ax, ay);
+    }
+
+    // Retângulo com retângulo (os limites já se sobrepõem)...
+    if(a.kind === HITBOX_RECT && b.kind === HITBOX_RECT) {
+      return true;
+    }
+    // Retângulo com círculo...
+    if(a.kind === HITBOX_RECT && b.kind === HITBOX_CIRCLE) {
+      return (b as CircleHitbox).overlapsRect(bx, by, ax + a.left, ay + a.top, ax + a.right, ay + a.bottom);
+    }
+    // Retângulo com máscara...
+    if(a.kind === HITBOX_RECT && b.kind === HITBOX_MASK) {
+      return (b as MaskHitbox).overlapsRect(bx, by, ax + a.left, ay + a.top, ax + a.right, ay + a.bottom);
+    }
+    // Círculo com círculo...
+    if(a.kind === HITBOX_CIRCLE && b.kind === HITBOX_CIRCLE) {
+      return (a as CircleHitbox).overlapsCircle(ax, ay, b as CircleHitbox, bx, by);
+    }
+    // Círculo com máscara...
+    if(a.kind === HITBOX_CIRCLE && b.kind === HITBOX_MASK) {
+      return (b as MaskHitbox).overlapsCircle(bx, by, a as CircleHitbox, ax, ay);
+    }
+    // Máscara com máscara...
+    if(a.kind === HITBOX_MASK && b.kind === HITBOX_MASK) {
+      return (a as MaskHitbox).overlapsMask(ax, ay, b as MaskHitbox, bx, by);
+    }
+
+    return true;
+  }
+}
+
+/**
+ * @class CircleHitbox
+ *
+ * @extends Hitbox
+ *
+ * @description
+ * Caixa de colisão circular.
+ */
+export class CircleHitbox extends Hitbox {
+  /** Posição X do centro. */
+  centerX: i32;
+
+  /** Posição Y do centro. */
+  centerY: i32;
+
+  /** Raio. */
+  radius: i32;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} centerX Posição X do centro.
+   * @param {i32} centerY Posição Y do centro.
+   * @param {i32} radius Raio.
+   */
+  constructor(centerX: i32, centerY: i32, radius: i32) {
+    super(centerX - radius, centerY - radius, centerX + radius, centerY + radius);
+    this.kind    = HITBOX_CIRCLE;
+    this.centerX = centerX;
+    this.centerY = centerY;
+    this.radius  = radius;
+  }
+
+  /**
+   * Checa a intersecção com um retângulo (em posições absolutas).
+   *
+   * @param {i32} x Posição X deste círculo.
+   * @param {i32} y Posição Y deste círculo.
+   * @param {i32} left Posição esquerda do retângulo.
+   * @param {i32} top Posição superior do retângulo.
+   * @param {i32} right Posição direita do retângulo (não inclusa).
+   * @param {i32} bottom Posição inferior do retângulo (não inclusa).
+   *
+   * @return {boolean}
+   */
+  overlapsRect(x: i32, y: i32, left: i32, top: i32, right: i32, bottom: i32): boolean {
+    let centerX: i32 = x + this.centerX;
+    let centerY: i32 = y + this.centerY;
+
+    // Ponto do retângulo mais próximo do centro:
+    let nearestX: i32 = max<i32>(left, min<i32>(centerX, right - 1));
+    let nearestY: i32 = max<i32>(top, min<i32>(centerY, bottom - 1));
+
+    let dx: i32 = centerX - nearestX;
+    let dy: i32 = centerY - nearestY;
+
+    return (dx * dx) + (dy * dy) < this.radius * this.radius;
+  }
+
+  /**
+   * Checa a intersecção com outro círculo.
+   *
+   * @param {i32} x Posição X deste círculo.
+   * @param {i32} y Posição Y deste círculo.
+   * @param {CircleHitbox} other Outro círculo.
+   * @param {i32} otherX Posição X do outro círculo.
+   * @param {i32} otherY Posição Y do outro círculo.
+   *
+   * @return {boolean}
+   */
+  overlapsCircle(x: i32, y: i32, other: CircleHitbox, otherX: i32, otherY: i32): boolean {
+    let dx    : i32 = (otherX + other.centerX) - (x + this.centerX);
+    let dy    : i32 = (otherY + other.centerY) - (y + this.centerY);
+    let radius: i32 = this.radius + other.radius;
+
+    return (dx * dx) + (dy * dy) < radius * radius;
+  }
+}
+
+/**
+ * @class MultiHitbox
+ *
+ * @extends Hitbox
+ *
+ * @description
+ * Várias caixas de colisão combinadas (de qualquer formato). Há colisão
+ * quando qualquer uma delas colidir. Para trocar as caixas a cada quadro de
+ * animação, veja `AnimationClip.setHitboxes()`.
+ */
+export class MultiHitbox extends Hitbox {
+  /** Caixas de colisão. */
+  boxes: Hitbox[];
+
+  /**
+   * @constructor
+   *
+   * @param {Hitbox[]} boxes Caixas de colisão.
+   */
+  constructor(boxes: Hitbox[]) {
+    super(0, 0, 0, 0);
+    this.kind  = HITBOX_MULTI;
+    this.boxes = [];
+
+    for(let index: i32 = 0; index < boxes.length; index += 1) {
+      this.add(boxes[index]);
+    }
+  }
+
+  /**
+   * Adiciona uma caixa de colisão, atualizando os limites.
+   *
+   * @param {Hitbox} box Caixa de colisão.
+   *
+   * @return {MultiHitbox} Tail call.
+   */
+  add(box: Hitbox): MultiHitbox {
+    // Primeira caixa define os limites...
+    if(this.boxes.length === 0) {
+      this.left   = box.left;
+      this.top    = box.top;
+      this.right  = box.right;
+      this.bottom = box.bottom;
+    }
+    // ...e as demais os expandem:
+    else {
+      this.left   = min<i32>(this.left, box.left);
+      this.top    = min<i32>(this.top, box.top);
+      this.right  = max<i32>(this.right, box.right);
+      this.bottom = max<i32>(this.bottom, box.bottom);
+    }
+
+    this.boxes.push(box);
+    return this;
+  }
+}
+
+/**
+ * @class MaskHitbox
+ *
+ * @extends Hitbox
+ *
+ * @description
+ * Caixa de colisão com precisão de pixels, a partir de uma imagem 1BPP (ou
+ * 2BPP, onde qualquer cor diferente de zero é sólida). Os pixels seguem a
+ * mesma ordem das imagens do WASM-4, portanto o próprio quadro de um sprite
+ * pode ser usado como máscara.
+ */
+export class MaskHitbox extends Hitbox {
+  /** Imagem da máscara. */
+  image: usize;
+
+  /** Quantidade de bytes por linha da imagem. */
+  stride: i32;
+
+  /** Quando `true`, a imagem usa 2 bits por pixel. */
+  twoBpp: boolean;
+
+  /** Posição X da máscara dentro da imagem. */
+  cutX: i32;
+
+  /** Posição Y da máscara dentro da imagem. */
+  cutY: i32;
+
+  /**
+   * @constructor
+   *
+   * @param {usize} image Imagem 1BPP da máscara.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   * @param {i32} left Posição esquerda (relativa ao sprite).
+   * @param {i32} top Posição superior (relativa ao sprite).
+   */
+  constructor(image: usize, width: i32, height: i32, left: i32 = 0, top: i32 = 0) {
+    super(left, top, left + width, top + height);
+    this.kind   = HITBOX_MASK;
+    this.image  = image;
+    this.stride = (width + 7) >> 3;
+    this.twoBpp = false;
+    this.cutX   = 0;
+    this.cutY   = 0;
+  }
+
+  /**
+   * Cria uma máscara a partir de um quadro de uma folha de sprites.
+   *
+   * @param {Spritesheet} spritesheet Folha de sprites.
+   * @param {i32} index Índice do quadro de animação.
+   * @param {i32} left Posição esquerda (relativa ao sprite).
+   * @param {i32} top Posição superior (relativa ao sprite).
+   *
+   * @return {MaskHitbox}
+   */
+  static fromFrame(spritesheet: Spritesheet, index: i32, left: i32 = 0, top: i32 = 0): MaskHitbox {
+    let frame : Frame      = spritesheet.frames[index];
+    let mask  : MaskHitbox = new MaskHitbox(spritesheet.image, frame.width, frame.height, left, top);
+    let twoBpp: boolean    = (spritesheet.flags & w4.BLIT_2BPP) !== 0;
+
+    mask.twoBpp = twoBpp;
+    mask.stride = twoBpp? spritesheet.imageWidth >> 2: spritesheet.imageWidth >> 3;
+    mask.cutX   = frame.x;
+    mask.cutY   = frame.y;
+    return mask;
+  }
+
+  /**
+   * Retorna se um pixel da máscara é sólido.
+   *
+   * @param {i32} x Posição X (relativa à máscara).
+   * @param {i32} y Posição Y (relativa à máscara).
+   *
+   * @return {boolean}
+   */
+  solid(x: i32, y: i32): boolean {
+    if(x < 0 || y < 0 || x >= this.right - this.left || y >= this.bottom - this.top) {
+      return false;
+    }
+
+    let imageX: i32   = this.cutX + x;
+    let row   : usize = this.image + ((this.cutY + y) * this.stride) as usize;
+
+    // 2 bits por pixel...
+    if(this.twoBpp) {
+      return ((load<u8>(row + (imageX >> 2) as usize) >> ((3 - (imageX & 3)) << 1)) & 0b11) !== 0;
+    }
+
+    // 1 bit por pixel:
+    return ((load<u8>(row + (imageX >> 3) as usize) >> (7 - (imageX & 7))) & 1) !== 0;
+  }
+
+  /**
+   * Checa a intersecção com um retângulo (em posições absolutas).
+   *
+   * @param {i32} x Posição X desta máscara.
+   * @param {i32} y Posição Y desta máscara.
+   * @param {i32} left Posição esquerda do retângulo.
+   * @param {i32} top Posição superior do retângulo.
+   * @param {i32} right Posição direita do retângulo (não inclusa).
+   * @param {i32} bottom Posição inferior do retângulo (não inclusa).
+   *
+   * @return {boolean}
+   */
+  overlapsRect(x: i32, y: i32, left: i32, top: i32, right: i32, bottom: i32): boolean {
+    let originX: i32 = x + this.left;
+    let originY: i32 = y + this.top;
+
+    // Percorrer apenas a área em comum...
+    for(let py: i32 = max<i32>(top, originY); py < min<i32>(bottom, y + this.bottom); py += 1) {
+      for(let px: i32 = max<i32>(left, originX); px < min<i32>(right, x + this.right); px += 1) {
+        if(this.solid(px - originX, py - originY)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Checa a intersecção com um círculo. Um pixel colide quando seu centro
+   * estiver dentro do círculo.
+   *
+   * @param {i32} x Posição X desta máscara.
+   * @param {i32} y Posição Y desta máscara.
+   * @param {CircleHitbox} circle Círculo.
+   * @param {i32} circleX Posição X do círculo.
+   * @param {i32} circleY Posição Y do círculo.
+   *
+   * @return {boolean}
+   */
+  overlapsCircle(x: i32, y: i32, circle: CircleHitbox, circleX: i32, circleY: i32): boolean {
+    let originX: i32 = x + this.left;
+    let originY: i32 = y + this.top;
+
+    // Coordenadas dobradas (evita frações no centro dos pixels).
+    let centerX: i32 = (circleX + circle.centerX) * 2;
+    let centerY: i32 = (circleY + circle.centerY) * 2;
+    let radius : i32 = circle.radius * 2;
+
+    for(let py: i32 = max<i32>(circleY + circle.top, originY); py < min<i32>(circleY + circle.bottom, y + this.bottom); py += 1) {
+      for(let px: i32 = max<i32>(circleX + circle.left, originX); px < min<i32>(circleX + circle.right, x + this.right); px += 1) {
+        let dx: i32 = ((px * 2) + 1) - centerX;
+        let dy: i32 = ((py * 2) + 1) - centerY;
+
+        if((dx * dx) + (dy * dy) < radius * radius && this.solid(px - originX, py - originY)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Checa a intersecção com outra máscara.
+   *
+   * @param {i32} x Posição X desta máscara.
+   * @param {i32} y Posição Y desta máscara.
+   * @param {MaskHitbox} other Outra máscara.
+   * @param {i32} otherX Posição X da outra máscara.
+   * @param {i32} otherY Posição Y da outra máscara.
+   *
+   * @return {boolean}
+   */
+  overlapsMask(x: i32, y: i32, other: MaskHitbox, otherX: i32, otherY: i32): boolean {
+    let originX: i32 = x + this.left;
+    let originY: i32 = y + this.top;
+    let otherOriginX: i32 = otherX + other.left;
+    let otherOriginY: i32 = otherY + other.top;
+
+    for(let py: i32 = max<i32>(originY, otherOriginY); py < min<i32>(y + this.bottom, otherY + other.bottom); py += 1) {
+      for(let px: i32 = max<i32>(originX, otherOriginX); px < min<i32>(x + this.right, otherX + other.right); px += 1) {
+        if(this.solid(px - originX, py - originY) && other.solid(px - otherOriginX, py - otherOriginY)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+}
+
+// ==========================================================================
+// tile_collision.ts
+// ==========================================================================
+/**
+ * @class TileCollision
+ *
+ * @description
+ * Representa os lados de um sprite que colidiram com um tilemap durante uma
+ * movimentação.
+ */
+export class TileCollision {
+  /** Colisão com o chão. */
+  floor: boolean;
+
+  /** Colisão com o teto. */
+  ceiling: boolean;
+
+  /** Colisão com uma parede à esquerda. */
+  left: boolean;
+
+  /** Colisão com uma parede à direita. */
+  right: boolean;
+
+  /**
+   * @constructor
+   */
+  constructor() {
+    this.floor   = false;
+    this.ceiling = false;
+    this.left    = false;
+    this.right   = false;
+  }
+
+  /**
+   * Indica se houve colisão com uma parede (esquerda ou direita).
+   *
+   * @return {boolean}
+   */
+  wall(): boolean {
+    return this.left || this.right;
+  }
+
+  /**
+   * Indica se houve alguma colisão.
+   *
+   * @return {boolean}
+   */
+  any(): boolean {
+    return this.floor || this.ceiling || this.left || this.right;
+  }
+
+  /**
+   * Limpa todas as colisões.
+   */
+  reset(): void {
+    this.floor   = false;
+    this.ceiling = false;
+    this.left    = false;
+    this.right   = false;
+  }
+}
+
+// ==========================================================================
+// sprite.ts
+// ==========================================================================
+/**
+ * Referência segura a um sprite: UID nos 32 bits inferiores e geração nos 32
+ * bits superiores. Pode ser guardada por outros sprites e resolvida com
+ * `Scene.resolve()`, que retorna `null` quando o sprite já foi destruído.
+ */
+export type SpriteHandle = u64;
+
+/** Referência vazia (nunca é resolvida). */
+export const SPRITE_HANDLE_NONE: SpriteHandle = 0;
+
+/**
+ * @class Sprite
+ *
+ * @description
+ * Classe de sprite genérica.
+ */
+export class Sprite {
+  /** Última UID gerada. */
+  static lastUID: u32 = 0;
+
+  /** UID. Gerada em ordem crescente, sem repetições. */
+  uid: u32;
+
+  /**
+   * Geração do sprite. É incrementada sempre que o sprite for reaproveitado
+   * por um pool, invalidando as referências (`SpriteHandle`) anteriores.
+   */
+  generation: u32;
+
+  /** Tag. Para trocá-la com o sprite já na cena, use `setTag()`. */
+  tag: string;
+
+  /** Posição X. */
+  x: i32;
+
+  /** Posição Y. */
+  y: i32;
+
+  /** Largura do sprite. */
+  width: i32;
+
+  /** Altura do sprite. */
+  height: i32;
+
+  /** Caixa de colisão. */
+  hitbox: Hitbox;
+
+  /**
+   * Profundidade de desenho. Sprites com maior profundidade são desenhados
+   * por cima dos demais.
+   */
+  depth: i32;
+
+  /** Indica se o evento de criação já foi acionado. */
+  _created: boolean;
+
+  /** Indica se o evento de destruição já foi acionado. */
+  _destroyed: boolean;
+
+  /** Marca da última consulta da tabela espacial que checou este sprite. */
+  _hashStamp: u32;
+
+  /** Resultado da última chamada de `moveAndCollide()`. */
+  collision: TileCollision;
+
+  /** Fração acumulada da posição X (subpixel, em ponto fixo). */
+  subX: i32;
+
+  /** Fração acumulada da posição Y (subpixel, em ponto fixo). */
+  subY: i32;
+
+  /** Reprodutor de animações. É atualizado pela cena após o evento de update. */
+  anim: AnimationPlayer | null;
+
+  /** Máquina de estados. É avançada pela cena após o evento de update. */
+  fsm: StateMachine | null;
+
+  /** Camadas de colisão às quais este sprite pertence (bits). */
+  layer: u32;
+
+  /**
+   * Camadas de colisão com as quais este sprite interage (bits). Quando
+   * zero, nenhum evento de colisão é acionado para este sprite.
+   */
+  mask: u32;
+
+  /** Sprites em contato com este sprite (desde o último game loop). */
+  contacts: Sprite[];
+
+  /** Sprites em contato neste game loop (usado para comparar os contatos). */
+  _contacts: Sprite[];
+
+  /** Pool ao qual este sprite pertence. Ao ser destruído, volta para ele. */
+  pool: PoolBase | null;
+
+  /** Sprite pai. A posição deste sprite acompanha a dele. */
+  parent: Sprite | null;
+
+  /** Sprites filhos. São atualizados e desenhados logo após este sprite. */
+  children: Sprite[];
+
+  /** Deslocamento X em relação ao sprite pai. */
+  localX: i32;
+
+  /** Deslocamento Y em relação ao sprite pai. */
+  localY: i32;
+
+  /** Inverte este sprite horizontalmente (herdado pelos filhos). */
+  flipX: boolean;
+
+  /** Inverte este sprite verticalmente (herdado pelos filhos). */
+  flipY: boolean;
+
+  /** Indica se este sprite está nos índices de UIDs e tags da cena. */
+  _indexed: boolean;
+
+  /** Tag sob a qual este sprite foi indexado. */
+  _indexedTag: string;
+
+  /** Indica se a tag foi trocada (com `setTag()`) desde a indexação. */
+  _retag: boolean;
+
+  /**
+   * Gera e retorna uma UID para um sprite. As UIDs são sequenciais (a partir
+   * de 1), portanto nunca colidem entre si.
+   *
+   * @return {u32}
+   */
+  static generateUID(): u32 {
+    Sprite.lastUID += 1;
+
+    // Evitar a UID zero, reservada para referências vazias:
+    if(Sprite.lastUID === 0) {
+      Sprite.lastUID = 1;
+    }
+
+    return Sprite.lastUID;
+  }
+
+  /**
+   * @constructor
+   *
+   * @param {i32} width Largura do sprite.
+   * @param {i32} height Altura do sprite.
+   */
+  constructor(width: i32, height: i32) {
+    this.uid = Sprite.generateUID();
+    this.generation = 0;
+    this.tag = "Sprite";
+    this.x = 0;
+    this.y = 0;
+    this.width  = width;
+    this.height = height;
+    this.hitbox = new Hitbox(0, 0, width, height);
+    this.depth = 0;
+    this._created = false;
+    this._destroyed = false;
+    this._hashStamp = 0;
+    this.collision = new TileCollision();
+    this.subX = 0;
+    this.subY = 0;
+    this.anim = null;
+    this.fsm = null;
+    this.layer = 1;
+    this.mask = 0;
+    this.contacts = [];
+    this._contacts = [];
+    this.pool = null;
+    this.parent = null;
+    this.children = [];
+    this.localX = 0;
+    this.localY = 0;
+    this.flipX = false;
+    this.flipY = false;
+    this._indexed = false;
+    this._indexedTag = "";
+    this._retag = false;
+  }
+
+  /**
+   * Calcula e retorna o posicionamento central deste sprite.
+   *
+   * @return {Vec2}
+   */
+  center(): Vec2 {
+    return new Vec2(
+      this.x + (Math.floor(this.width  / 2) as i32),
+      this.y + (Math.floor(this.height / 2) as i32)
+    );
+  }
+
+  /**
+   * Calcula e retorna o posicionamento equivalente deste sprite em uma grade.
+   *
+   * @param {i32} width Largura dos tiles.
+   * @param {i32} height Altura dos tiles.
+   *
+   * @return {Vec2}
+   */
+  grid(width: i32, height: i32): Vec2 {
+    // Posição central deste sprite.
+    let center: Vec2 = this.center();
+
+    return new Vec2(
+      Math.floor(center.x /  width) as i32,
+      Math.floor(center.y / height) as i32
+    );
+  }
+
+  /**
+   * Retorna a posição X deste sprite em ponto fixo (incluindo subpixels).
+   *
+   * @return {i32}
+   */
+  fixedX(): i32 {
+    return (this.x << FIXED_SHIFT) | this.subX;
+  }
+
+  /**
+   * Retorna a posição Y deste sprite em ponto fixo (incluindo subpixels).
+   *
+   * @return {i32}
+   */
+  fixedY(): i32 {
+    return (this.y << FIXED_SHIFT) | this.subY;
+  }
+
+  /**
+   * Define a posição deste sprite em ponto fixo (incluindo subpixels).
+   *
+   * @param {i32} x Posição X (em ponto fixo).
+   * @param {i32} y Posição Y (em ponto fixo).
+   *
+   * @return {Sprite} Tail call.
+   */
+  setFixed(x: i32, y: i32): Sprite {
+    this.x    = x >> FIXED_SHIFT;
+    this.y    = y >> FIXED_SHIFT;
+    this.subX = x & FIXED_MASK;
+    this.subY = y & FIXED_MASK;
+
+    return this;
+  }
+
+  /**
+   * Movimenta este sprite com precisão de subpixel. Frações de pixel são
+   * acumuladas entre os quadros, de modo que velocidades menores que 1
+   * pixel por quadro ainda movimentam o sprite.
+   *
+   * @param {i32} dx Deslocamento horizontal (em ponto fixo).
+   * @param {i32} dy Deslocamento vertical (em ponto fixo).
+   *
+   * @return {Sprite} Tail call.
+   */
+  moveFixed(dx: i32, dy: i32): Sprite {
+    return this.setFixed(this.fixedX() + dx, this.fixedY() + dy);
+  }
+
+  /**
+   * Movimenta este sprite em um ângulo específico.
+   *
+   * @param {f64} angle Ângulo (de 0º a 359º).
+   * @param {f64} speed Velocidade de movimentação.
+   *
+   * @return {Sprite} Tail call.
+   */
+  moveToAngle(angle: f64, speed: f64): Sprite {
+    // Ângulo radiano.
+    let degree: f64 = Math.PI / 180.0;
+
+    // Movimentar sprite (com precisão de subpixel)...
+    return this.moveFixed(
+      fxf(speed * Math.cos(angle * degree)),
+      fxf(speed * Math.sin(angle * degree))
+    );
+  }
+
+  /**
+   * Movimenta este sprite em um ângulo específico, usando apenas ponto fixo
+   * e a Look-Up Table de senos.
+   *
+   * @param {i32} angle Ângulo (em graus).
+   * @param {i32} speed Velocidade de movimentação (em ponto fixo).
+   *
+   * @return {Sprite} Tail call.
+   */
+  moveToAngleFixed(angle: i32, speed: i32): Sprite {
+    return this.moveFixed(
+      fxmul(speed, fxcos(angle)),
+      fxmul(speed, fxsin(angle))
+    );
+  }
+
+  /**
+   * Movimenta este sprite até uma posição específica, sem ultrapassá-la.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {f64} speed Velocidade de movimentação.
+   *
+   * @return {Sprite} Tail call.
+   */
+  moveTo(x: i32, y: i32, speed: f64): Sprite {
+    // Distância até o destino (incluindo subpixels).
+    let dx      : f64 = fxtof((x << FIXED_SHIFT) - this.fixedX());
+    let dy      : f64 = fxtof((y << FIXED_SHIFT) - this.fixedY());
+    let distance: f64 = Math.sqrt((dx * dx) + (dy * dy));
+
+    // Chegar ao destino, quando estiver ao alcance...
+    if(distance <= speed) {
+      this.x    = x;
+      this.y    = y;
+      this.subX = 0;
+      this.subY = 0;
+
+      return this;
+    }
+
+    // ...do contrário, movimentar sprite (com precisão de subpixel):
+    return this.moveFixed(
+      fxf(speed * (dx / distance)),
+      fxf(speed * (dy / distance))
+    );
+  }
+
+  /**
+   * Checa a intersecção entre dois sprites (de acordo com o formato de suas
+   * caixas de colisão).
+   *
+   * @param {Sprite} sprite Sprite a ser checado.
+   *
+   * @return {boolean}
+   */
+  intersect(sprite: Sprite): bool {
+    return Hitbox.overlaps(this.hitbox, this.x, this.y, sprite.hitbox, sprite.x, sprite.y);
+  }
+
+  /**
+   * Retorna uma referência segura a este sprite.
+   *
+   * @return {SpriteHandle}
+   */
+  handle(): SpriteHandle {
+    return ((this.generation as u64) << 32) | (this.uid as u64);
+  }
+
+  /**
+   * Troca a tag deste sprite. Sprites já indexados pela cena são
+   * reclassificados no início do próximo game loop.
+   *
+   * @param {string} tag Tag.
+   *
+   * @return {Sprite} Tail call.
+   */
+  setTag(tag: string): Sprite {
+    if(this._indexed && tag != this.tag) {
+      this._retag = true;
+    }
+
+    this.tag = tag;
+    return this;
+  }
+
+  /**
+   * Define as camadas de colisão deste sprite.
+   *
+   * @param {u32} layer Camadas às quais este sprite pertence (bits).
+   * @param {u32} mask Camadas com as quais este sprite interage (bits).
+   *
+   * @return {Sprite} Tail call.
+   */
+  setCollision(layer: u32, mask: u32): Sprite {
+    this.layer = layer;
+    this.mask  = mask;
+    return this;
+  }
+
+  /**
+   * Retorna se este sprite interage com as camadas de outro sprite.
+   *
+   * @param {Sprite} sprite Sprite a ser checado.
+   *
+   * @return {boolean}
+   */
+  collidesWith(sprite: Sprite): boolean {
+    return (this.mask & sprite.layer) !== 0;
+  }
+
+  /**
+   * Retorna se outro sprite está em contato com este sprite (de acordo com
+   * o último game loop).
+   *
+   * @param {Sprite} sprite Sprite a ser checado.
+   *
+   * @return {boolean}
+   */
+  isTouching(sprite: Sprite): boolean {
+    return this.contacts.includes(sprite);
+  }
+
+  /**
+   * Checa a intersecção entre múltiplos sprites.
+   *
+   * @param {Sprite[]} sprites Sprites a serem checados.
+   *
+   * @return {Sprite[]} Sprites colididos (vazio quando não há colisões).
+   */
+  intersectArray(sprites: Sprite[]): Sprite[] {
+    // Resultados.
+    let results: Sprite[] = [];
+
+    // Percorrer lista de spriets...
+    for(let index: i32 = 0; index < sprites.length; index += 1) {
+      let sprite: Sprite = sprites[index];
+
+      // Checagem de colisão.
+      let collision: boolean = this.intersect(sprite);
+
+      // Mover sprite para os resultados, caso exista colisão:
+      if(collision) {
+        results.push(sprite);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Checa a intersecção entre dois sprites, em uma posição arbitrária.
+   *
+   * @param {Sprite} sprite Sprite a ser checado.
+   * @param {i32} x X Posição X.
+   * @param {i32} y Y Posição Y.
+   *
+   * @return {boolean}
+   */
+  intersectAt(sprite: Sprite, x: i32, y: i32): boolean {
+    // Salvar posição atual deste sprite temporariamente...
+    let xprev: i32 = this.x;
+    let yprev: i32 = this.y;
+
+    // Mover este sprite para uma posição arbitrária...
+    this.x = x;
+    this.y = y;
+
+    // Checar colisão com o outro sprite:
+    let result: boolean = this.intersect(sprite);
+
+    // Mover sprite de volta à sua posição original...
+    this.x = xprev;
+    this.y = yprev;
+
+    return result;
+  }
+
+  /**
+   * Checa a intersecção entre múltiplos sprites, em uma posição arbitrária.
+   *
+   * @param {Sprite[]} sprites Sprites a serem checados.
+   * @param {i32} x X Posição X.
+   * @param {i32} y Y Posição Y.
+   *
+   * @return {Sprite[]} Sprites colididos (vazio quando não há colisões).
+   */
+  intersectAtArray(sprites: Sprite[], x: i32, y: i32): Sprite[] {
+    // Resultados.
+    let results: Sprite[] = [];
+
+    // Percorrer lista de spriets...
+    for(let index: i32 = 0; index < sprites.length; index += 1) {
+      let sprite: Sprite = sprites[index];
+
+      // Checagem de colisão.
+      let collision: boolean = this.intersectAt(sprite, x, y);
+
+      // Mover sprite para os resultados, caso exista colisão:
+      if(collision) {
+        results.push(sprite);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Checa a intersecção entre um sprite e um tilemap.
+   *
+   * @param {Tilemap} tilemap Tilemap.
+   * @param {i16[]} tiles Índices do tilemap a serem checados.
+   *
+   * @return {boolean}
+   */
+  intersectTiles(tilemap: Tilemap, tiles: i16[]): boolean {
+    // Posição equivalente deste sprite na grade.
+    let grid: Vec2 = this.grid(tilemap.width, tilemap.height);
+
+    // Percorrer tiles de colisão...
+    for(let index: i32 = 0; index < tiles.length; index += 1) {
+      let tile: i16 = tiles[index];
+
+      // Se um dos índices de colisão estiverem na mesma posição equivalente
+      // deste sprite na grade, então existe colisão:
+      if(tilemap.getTile(grid.x, grid.y) === tile) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Checa a intersecção entre um sprite e um tilemap, em uma posição
+   * arbitrária.
+   *
+   * @param {Tilemap} tilemap Tilemap.
+   * @param {i16[]} tiles Índices do tilemap a serem checados.
+   * @param {i32} x X Posição X.
+   * @param {i32} y Y Posição Y.
+   *
+   * @return {boolean}
+   */
+  intersectTilesAt(tilemap: Tilemap, tiles: i16[], x: i32, y: i32): boolean {
+    // Salvar posição atual deste sprite temporariamente...
+    let xprev: i32 = this.x;
+    let yprev: i32 = this.y;
+
+    // Mover este sprite para uma posição arbitrária...
+    this.x = x;
+    this.y = y;
+
+    // Checar colisão com os tiles:
+    let result: boolean = this.intersectTiles(tilemap, tiles);
+
+    // Mover sprite de volta à sua posição original...
+    this.x = xprev;
+    this.y = yprev;
+
+    return result;
+  }
+
+  /**
+   * Checa se a caixa de colisão deste sprite, em uma posição arbitrária,
+   * toca algum dos tiles especificados.
+   *
+   * @param {Tilemap} tilemap Tilemap.
+   * @param {i16[]} tiles Índices do tilemap a serem checados.
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   *
+   * @return {boolean}
+   */
+  touchTilesAt(tilemap: Tilemap, tiles: i16[], x: i32, y: i32): boolean {
+    return tilemap.hasTileIn(
+      x + this.hitbox.left,
+      y + this.hitbox.top,
+      x + this.hitbox.right,
+      y + this.hitbox.bottom,
+      tiles
+    );
+  }
+
+  /**
+   * Checa se este sprite pode descer 1 pixel a partir de uma posição
+   * arbitrária sem atravessar o chão (tiles sólidos, plataformas de mão
+   * única ou rampas).
+   *
+   * @param {Tilemap} tilemap Tilemap.
+   * @param {i16[]} solidTiles Índices de tiles sólidos.
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   *
+   * @return {boolean} Retorna `true` quando o chão impede a descida.
+   */
+  blockedBelowAt(tilemap: Tilemap, solidTiles: i16[], x: i32, y: i32): boolean {
+    // Base atual e base após descer 1 pixel.
+    let bottom: i32 = y + this.hitbox.bottom;
+
+    // Tiles sólidos...
+    if(this.touchTilesAt(tilemap, solidTiles, x, y + 1)) {
+      return true;
+    }
+
+    // Plataformas de mão única bloqueiam apenas quando a base do sprite está
+    // exatamente sobre o topo do tile...
+    if(bottom % tilemap.height === 0 && tilemap.hasTileIn(
+      x + this.hitbox.left,
+      bottom,
+      x + this.hitbox.right,
+      bottom + 1,
+      tilemap.platforms
+    )) {
+      return true;
+    }
+
+    // Rampas são checadas pelo centro da base do sprite:
+    let footX: i32 = x + ((this.hitbox.left + this.hitbox.right) / 2);
+
+    return (
+      tilemap.slopeSurface(footX, bottom - 1) <= bottom ||
+      tilemap.slopeSurface(footX, bottom)     <= bottom
+    );
+  }
+
+  /**
+   * Movimenta este sprite, resolvendo colisões contra um tilemap. A
+   * movimentação é feita em cada eixo separadamente (primeiro X, depois Y),
+   * pixel por pixel, checando todos os tiles tocados pela caixa de colisão.
+   *
+   * Plataformas de mão única e rampas são definidas no próprio tilemap, em
+   * `platforms`, `slopesRight` e `slopesLeft`.
+   *
+   * @param {i32} dx Deslocamento horizontal.
+   * @param {i32} dy Deslocamento vertical.
+   * @param {Tilemap} tilemap Tilemap.
+   * @param {i16[]} solidTiles Índices de tiles sólidos.
+   *
+   * @return {TileCollision} Lados colididos (reaproveitado entre chamadas).
+   */
+  moveAndCollide(dx: i32, dy: i32, tilemap: Tilemap, solidTiles: i16[]): TileCollision {
+    let collision: TileCollision = this.collision;
+        collision.reset();
+
+    // Indica se o sprite estava no chão antes de se movimentar.
+    let grounded: boolean = this.blockedBelowAt(tilemap, solidTiles, this.x, this.y);
+
+    // Movimentar no eixo X...
+    let stepX: i32 = dx > 0? 1: -1;
+
+    for(let step: i32 = 0; step < Math.abs(dx); step += 1) {
+      // Paredes impedem a movimentação:
+      if(this.touchTilesAt(tilemap, solidTiles, this.x + stepX, this.y)) {
+        collision.left  = stepX < 0;
+        collision.right = stepX > 0;
+        break;
+      }
+
+      this.x += stepX;
+
+      // Acompanhar a superfície das rampas...
+      let footX : i32 = this.x + ((this.hitbox.left + this.hitbox.right) / 2);
+      let bottom: i32 = this.y + this.hitbox.bottom;
+      let ground: i32 = min<i32>(
+        tilemap.slopeSurface(footX, bottom - 1),
+        tilemap.slopeSurface(footX, bottom)
+      );
+
+      if(ground === i32.MAX_VALUE) {
+        continue;
+      }
+
+      // ...subindo, quando a base estiver dentro da rampa...
+      if(ground < bottom) {
+        if(!this.touchTilesAt(tilemap, solidTiles, this.x, this.y - (bottom - ground))) {
+          this.y -= bottom - ground;
+          collision.floor = true;
+        }
+      }
+      // ...ou descendo, quando o sprite já estava no chão:
+      else if(grounded && ground - bottom <= 1) {
+        this.y += ground - bottom;
+        collision.floor = true;
+      }
+    }
+
+    // Movimentar no eixo Y...
+    let stepY: i32 = dy > 0? 1: -1;
+
+    for(let step: i32 = 0; step < Math.abs(dy); step += 1) {
+      // Chão (tiles sólidos, plataformas e rampas) impede a descida...
+      if(stepY > 0 && this.blockedBelowAt(tilemap, solidTiles, this.x, this.y)) {
+        collision.floor = true;
+        break;
+      }
+      // ...e tiles sólidos impedem a subida:
+      if(stepY < 0 && this.touchTilesAt(tilemap, solidTiles, this.x, this.y - 1)) {
+        collision.ceiling = true;
+        break;
+      }
+
+      this.y += stepY;
+    }
+
+    return collision;
+  }
+
+  /**
+   * Adiciona um sprite filho. Sua posição passa a acompanhar este sprite
+   * (de acordo com o deslocamento local e a inversão herdada), e ele é
+   * destruído junto com este sprite. Filhos que não estiverem na cena são
+   * adicionados a ela no início do próximo game loop. Um sprite não pode ser
+   * filho de si mesmo ou de um de seus descendentes (a chamada é ignorada).
+   *
+   * @param {Sprite} child Sprite filho.
+   * @param {i32} localX Deslocamento X (relativo a este sprite).
+   * @param {i32} localY Deslocamento Y (relativo a este sprite).
+   *
+   * @return {Sprite} Tail call.
+   */
+  addChild(child: Sprite, localX: i32 = 0, localY: i32 = 0): Sprite {
+    // Ignorar ciclos (o filho não pode ser este sprite ou um ancestral):
+    let ancestor: Sprite | null = this;
+
+    while(ancestor !== null) {
+      if(ancestor === child) {
+        return this;
+      }
+
+      ancestor = ancestor.parent;
+    }
+
+    let parent: Sprite | null = child.parent;
+
+    // Remover filho de seu pai anterior:
+    if(parent !== null) {
+      parent.removeChild(child);
+    }
+
+    child.parent = this;
+    child.localX = localX;
+    child.localY = localY;
+
+    this.children.push(child);
+    this.updateTransform();
+    return this;
+  }
+
+  /**
+   * Remove um sprite filho. Ele continua na cena, na mesma posição, como
+   * um sprite independente.
+   *
+   * @param {Sprite} child Sprite filho.
+   *
+   * @return {boolean} Se o sprite era filho deste sprite.
+   */
+  removeChild(child: Sprite): boolean {
+    let index: i32 = this.children.indexOf(child);
+
+    if(index === -1) {
+      return false;
+    }
+
+    // Remover filho da lista, preservando a ordem (sem alocações):
+    for(let next: i32 = index + 1; next < this.children.length; next += 1) {
+      this.children[next - 1] = this.children[next];
+    }
+
+    this.children.length -= 1;
+    child.parent = null;
+    return true;
+  }
+
+  /**
+   * Retorna se este sprite está invertido horizontalmente, considerando a
+   * inversão herdada de seus ancestrais.
+   *
+   * @return {boolean}
+   */
+  worldFlipX(): boolean {
+    let parent: Sprite | null = this.parent;
+
+    if(parent !== null) {
+      return this.flipX !== parent.worldFlipX();
+    }
+
+    return this.flipX;
+  }
+
+  /**
+   * Retorna se este sprite está invertido verticalmente, considerando a
+   * inversão herdada de seus ancestrais.
+   *
+   * @return {boolean}
+   */
+  worldFlipY(): boolean {
+    let parent: Sprite | null = this.parent;
+
+    if(parent !== null) {
+      return this.flipY !== parent.worldFlipY();
+    }
+
+    return this.flipY;
+  }
+
+  /**
+   * Posiciona os filhos deste sprite (e seus descendentes) de acordo com seus
+   * deslocamentos locais. Quando invertido, os deslocamentos são espelhados.
+   */
+  updateTransform(): void {
+    let flipX: boolean = this.worldFlipX();
+    let flipY: boolean = this.worldFlipY();
+
+    for(let index: i32 = 0; index < this.children.length; index += 1) {
+      let child: Sprite = this.children[index];
+
+      child.x = flipX? this.x + this.width  - child.localX - child.width:  this.x + child.localX;
+      child.y = flipY? this.y + this.height - child.localY - child.height: this.y + child.localY;
+
+      child.updateTransform();
+    }
+  }
+
+  /**
+   * Cria um reprodutor de animações para este sprite.
+   *
+   * @param {Spritesheet} spritesheet Folha de sprites.
+   *
+   * @return {AnimationPlayer}
+   */
+  animate(spritesheet: Spritesheet): AnimationPlayer {
+    let anim: AnimationPlayer = new AnimationPlayer(spritesheet, this);
+
+    this.anim = anim;
+    return anim;
+  }
+
+  /**
+   * Cria uma máquina de estados para este sprite.
+   *
+   * @return {StateMachine}
+   */
+  stateMachine(): StateMachine {
+    let fsm: StateMachine = new StateMachine(this);
+
+    this.fsm = fsm;
+    return fsm;
+  }
+
+  /**
+   * Destrói este sprite (e seus filhos).
+   *
+   * @return {boolean}
+   */
+  destroy(): boolean {
+    this._destroyed = true;
+
+    for(let index: i32 = 0; index < this.children.length; index += 1) {
+      this.children[index].destroy();
+    }
+
+    return this._destroyed;
+  }
+
+  /**
+   * @event onCreate
+   */
+  onCreate(): void {
+    // ...
+  }
+
+  /**
+   * @event update
+   */
+  update(): void {
+    // ...
+  }
+
+  /**
+   * @event onDestroy
+   */
+  onDestroy(): void {
+    // ...
+  }
+
+  /**
+   * @event draw
+   */
+  draw(): void {
+    // ...
+  }
+
+  /**
+   * @event onAnimationEvent
+   * Evento acionado ao entrar em um quadro de animação com eventos.
+   *
+   * @param {string} name Nome do evento.
+   * @param {string} clip Nome da animação.
+   */
+  onAnimationEvent(name: string, clip: string): void {
+    // ...
+  }
+
+  /**
+   * @event onAnimationFinish
+   * Evento acionado ao concluir uma animação ou completar um ciclo.
+   *
+   * @param {string} clip Nome da animação.
+   */
+  onAnimationFinish(clip: string): void {
+    // ...
+  }
+
+  /**
+   * @event onTweenFinish
+   * Evento acionado ao concluir um tween deste sprite.
+   *
+   * @param {Tween} tween Tween concluído.
+   */
+  onTweenFinish(tween: Tween): void {
+    // ...
+  }
+
+  /**
+   * @event onCollisionEnter
+   * Evento acionado quando outro sprite entra em contato com este sprite.
+   *
+   * @param {Sprite} other Outro sprite.
+   */
+  onCollisionEnter(other: Sprite): void {
+    // ...
+  }
+
+  /**
+   * @event onCollisionStay
+   * Evento acionado a cada game loop em que outro sprite continua em contato
+   * com este sprite.
+   *
+   * @param {Sprite} other Outro sprite.
+   */
+  onCollisionStay(other: Sprite): void {
+    // ...
+  }
+
+  /**
+   * @event onCollisionExit
+   * Evento acionado quando outro sprite deixa de estar em contato com este
+   * sprite (inclusive ao ser destruído).
+   *
+   * @param {Sprite} other Outro sprite.
+   */
+  onCollisionExit(other: Sprite): void {
+    // ...
+  }
+}
+
+// ==========================================================================
+// sprite_pool.ts
+// ==========================================================================
+/**
+ * @class PoolBase
+ *
+ * @description
+ * Base (não genérica) dos pools de sprites. Permite que a cena devolva
+ * sprites destruídos aos seus pools, sem conhecer seus tipos.
+ */
+export class PoolBase {
+  /**
+   * Devolve um sprite destruído ao pool.
+   *
+   * @param {Sprite} sprite Sprite.
+   *
+   * @return {boolean}
+   */
+  release(sprite: Sprite): boolean {
+    return false;
+  }
+}
+
+/**
+ * @class SpritePool
+ *
+ * @extends PoolBase
+ *
+ * @description
+ * Pool com uma quantidade fixa de sprites, criados uma única vez. Sprites
+ * obtidos com `spawn()` são adicionados à cena, e voltam ao pool ao serem
+ * destruídos (após o evento `onDestroy`), sem serem liberados da memória. O
+ * evento `onCreate` é acionado novamente a cada reutilização.
+ *
+ * ```
+ * let bullets = new SpritePool<Bullet>(scene, 16, (): Bullet => new Bullet());
+ * let bullet: Bullet | null = bullets.spawn();
+ * ```
+ */
+export class SpritePool<T extends Sprite> extends PoolBase {
+  /** Cena onde os sprites são adicionados. */
+  scene: Scene;
+
+  /** Todos os sprites do pool. */
+  items: T[];
+
+  /** Sprites disponíveis. */
+  free: T[];
+
+  /**
+   * @constructor
+   *
+   * @param {Scene} scene Cena onde os sprites são adicionados.
+   * @param {i32} size Quantidade de sprites.
+   * @param {() => T} factory Função usada para criar cada sprite.
+   */
+  constructor(scene: Scene, size: i32, factory: () => T) {
+    super();
+    this.scene = scene;
+    this.items = [];
+    this.free  = [];
+
+    for(let index: i32 = 0; index < size; index += 1) {
+      let sprite: T = factory();
+      sprite.pool = this;
+
+      this.items.push(sprite);
+      this.free.push(sprite);
+    }
+  }
+
+  /**
+   * Obtém um sprite disponível e o adiciona à cena.
+   *
+   * @return {T | null} Sprite (ou `null`, quando todos estiverem em uso).
+   */
+  spawn(): T | null {
+    if(this.free.length === 0) {
+      return null;
+    }
+
+    let sprite: T = this.free.pop();
+
+    // Reiniciar estado do sprite (invalidando referências anteriores):
+    sprite.generation += 1;
+    sprite._created   = false;
+    sprite._destroyed = false;
+    sprite.subX = 0;
+    sprite.subY = 0;
+    sprite.contacts.length = 0;
+
+    // Reiniciar hierarquia (os filhos anteriores foram destruídos junto):
+    let parent: Sprite | null = sprite.parent;
+
+    if(parent !== null) {
+      parent.removeChild(sprite);
+    }
+
+    sprite.children.length = 0;
+    sprite.flipX = false;
+    sprite.flipY = false;
+
+    // Reiniciar animação e máquina de estados (mantendo suas definições):
+    let anim: AnimationPlayer | null = sprite.anim;
+    let fsm : StateMachine | null    = sprite.fsm;
+
+    if(anim !== null) {
+      anim.stop();
+    }
+
+    if(fsm !== null) {
+      fsm.reset();
+    }
+
+    this.scene.sprites.push(sprite);
+    return sprite;
+  }
+
+  /**
+   * Devolve um sprite destruído ao pool. Chamado automaticamente pela cena.
+   *
+   * @param {Sprite} sprite Sprite.
+   *
+   * @return {boolean}
+   */
+  release(sprite: Sprite): boolean {
+    let item: T = changetype<T>(sprite);
+
+    if(sprite.pool !== this || this.free.includes(item)) {
+      return false;
+    }
+
+    // Cancelar timers, rotinas, tweens, emissores e inscrições do sprite,
+    // para que não sobrevivam à sua reutilização:
+    this.scene.cancelOwner(sprite);
+
+    this.free.push(item);
+    return true;
+  }
+
+  /**
+   * Retorna a quantidade de sprites disponíveis.
+   *
+   * @return {i32}
+   */
+  available(): i32 {
+    return this.free.length;
+  }
+
+  /**
+   * Retorna a quantidade de sprites em uso.
+   *
+   * @return {i32}
+   */
+  used(): i32 {
+    return this.items.length - this.free.length;
+  }
+}
+
+// ==========================================================================
+// state_machine.ts
+// ==========================================================================
+/** Condição (guarda) de uma transição de estados. */
+export type StateCondition = (machine: StateMachine) => boolean;
+
+/**
+ * @class State
+ *
+ * @description
+ * Estado de uma máquina de estados. Os comportamentos são definidos ao
+ * estender esta classe e sobrescrever seus eventos. O sprite associado pode
+ * ser obtido por `machine.owner`.
+ */
+export class State {
+  /** Nome (usado para transições e depuração). */
+  name: string;
+
+  /** Animação reproduzida ao entrar neste estado (vazio para nenhuma). */
+  clip: string;
+
+  /**
+   * @constructor
+   *
+   * @param {string} name Nome.
+   * @param {string} clip Animação reproduzida ao entrar neste estado.
+   */
+  constructor(name: string, clip: string = "") {
+    this.name = name;
+    this.clip = clip;
+  }
+
+  /**
+   * @event enter
+   * Evento acionado ao entrar neste estado.
+   *
+   * @param {StateMachine} machine Máquina de estados.
+   */
+  enter(machine: StateMachine): void {
+    // ...
+  }
+
+  /**
+   * @event update
+   * Evento acionado a cada quadro, enquanto este estado estiver ativo.
+   *
+   * @param {StateMachine} machine Máquina de estados.
+   */
+  update(machine: StateMachine): void {
+    // ...
+  }
+
+  /**
+   * @event exit
+   * Evento acionado ao sair deste estado.
+   *
+   * @param {StateMachine} machine Máquina de estados.
+   */
+  exit(machine: StateMachine): void {
+    // ...
+  }
+}
+
+/**
+ * @class StateTransition
+ *
+ * @description
+ * Transição automática entre estados, realizada quando sua condição (guarda)
+ * for verdadeira.
+ */
+export class StateTransition {
+  /** Estado de origem (`null` para qualquer estado). */
+  from: State | null;
+
+  /** Estado de destino. */
+  to: State;
+
+  /** Condição (guarda). */
+  condition: StateCondition;
+
+  /**
+   * @constructor
+   *
+   * @param {State | null} from Estado de origem (`null` para qualquer estado).
+   * @param {State} to Estado de destino.
+   * @param {StateCondition} condition Condição (guarda).
+   */
+  constructor(from: State | null, to: State, condition: StateCondition) {
+    this.from      = from;
+    this.to        = to;
+    this.condition = condition;
+  }
+}
+
+/**
+ * @class StateMachine
+ *
+ * @description
+ * Máquina de estados finitos. Quando associada a um sprite (por meio de
+ * `Sprite.stateMachine()`), é avançada pela cena logo após o evento de update
+ * do sprite, e troca a animação do sprite ao entrar em cada estado.
+ *
+ * ```
+ * let fsm = this.stateMachine();
+ * fsm.add(new Idle("idle", "idle"));
+ * fsm.add(new Run("run", "run"));
+ * fsm.addTransition("idle", "run", (machine: StateMachine): boolean => p1.right.held());
+ * fsm.change("idle");
+ * ```
+ */
+export class StateMachine {
+  /** Sprite associado. */
+  owner: Sprite | null;
+
+  /** Estados. */
+  states: State[];
+
+  /** Transições automáticas. */
+  transitions: StateTransition[];
+
+  /** Estado atual. */
+  state: State | null;
+
+  /** Estado anterior. */
+  previous: State | null;
+
+  /** Quantidade de quadros no estado atual. */
+  frames: i32;
+
+  /**
+   * @constructor
+   *
+   * @param {Sprite | null} owner Sprite associado.
+   */
+  constructor(owner: Sprite | null = null) {
+    this.owner       = owner;
+    this.states      = [];
+    this.transitions = [];
+    this.state       = null;
+    this.previous    = null;
+    this.frames      = 0;
+  }
+
+  /**
+   * Adiciona um estado.
+   *
+   * @param {State} state Estado.
+   *
+   * @return {State}
+   */
+  add(state: State): State {
+    this.states.push(state);
+    return state;
+  }
+
+  /**
+   * Obtém um estado por seu nome.
+   *
+   * @param {string} name Nome do estado.
+   *
+   * @return {State | null}
+   */
+  get(name: string): State | null {
+    for(let index: i32 = 0; index < this.states.length; index += 1) {
+      let state: State = this.states[index];
+
+      if(state.name === name) {
+        return state;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Adiciona uma transição automática. As transições são checadas em ordem
+   * de adição, antes do update do estado atual.
+   *
+   * @param {string} from Nome do estado de origem (vazio para qualquer estado).
+   * @param {string} to Nome do estado de destino.
+   * @param {StateCondition} condition Condição (guarda).
+   *
+   * @return {StateTransition | null} Transição (ou `null`, caso algum dos
+   *         estados não exista).
+   */
+  addTransition(from: string, to: string, condition: StateCondition): StateTransition | null {
+    let source: State | null = null;
+    let target: State | null = this.get(to);
+
+    if(from.length > 0) {
+      source = this.get(from);
+
+      if(source === null) {
+        return null;
+      }
+    }
+
+    if(target === null) {
+      return null;
+    }
+
+    let transition: StateTransition = new StateTransition(source, target, condition);
+
+    this.transitions.push(transition);
+    return transition;
+  }
+
+  /**
+   * Retorna o nome do estado atual (útil para depuração).
+   *
+   * @return {string}
+   */
+  name(): string {
+    let state: State | null = this.state;
+    return state !== null? state.name: "";
+  }
+
+  /**
+   * Retorna se um estado específico é o atual.
+   *
+   * @param {string} name Nome do estado.
+   *
+   * @return {boolean}
+   */
+  is(name: string): boolean {
+    return this.name() === name;
+  }
+
+  /**
+   * Troca o estado atual, acionando os eventos de saída e de entrada.
+   *
+   * @param {string} name Nome do estado.
+   *
+   * @return {boolean} Retorna `false` quando o estado não existe.
+   */
+  change(name: string): boolean {
+    let state: State | null = this.get(name);
+
+    if(state === null) {
+      return false;
+    }
+
+    this.enter(state);
+    return true;
+  }
+
+  /**
+   * Entra em um estado, acionando os eventos de saída e de entrada.
+   *
+   * @param {State} state Estado.
+   */
+  enter(state: State): void {
+    let current: State | null = this.state;
+
+    if(current !== null) {
+      current.exit(this);
+    }
+
+    this.previous = current;
+    this.state    = state;
+    this.frames   = 0;
+
+    // Trocar animação do sprite associado:
+    let owner: Sprite | null = this.owner;
+
+    if(owner !== null && state.clip.length > 0) {
+      let anim: AnimationPlayer | null = owner.anim;
+
+      if(anim !== null) {
+        anim.play(state.clip);
+      }
+    }
+
+    state.enter(this);
+  }
+
+  /**
+   * Sai do estado atual sem acionar eventos, mantendo estados e transições.
+   */
+  reset(): void {
+    this.state    = null;
+    this.previous = null;
+    this.frames   = 0;
+  }
+
+  /**
+   * Avança um quadro: checa as transições automáticas e aciona o update do
+   * estado atual.
+   */
+  update(): void {
+    let state: State | null = this.state;
+
+    if(state === null) {
+      return;
+    }
+
+    // Realizar a primeira transição cuja condição seja verdadeira...
+    for(let index: i32 = 0; index < this.transitions.length; index += 1) {
+      let transition: StateTransition = this.transitions[index];
+      let from      : State | null    = transition.from;
+
+      // Ignorar transições de outros estados (ou para o próprio estado):
+      if((from !== null && from !== state) || transition.to === state) {
+        continue;
+      }
+
+      if(transition.condition(this)) {
+        this.enter(transition.to);
+        break;
+      }
+    }
+
+    // O estado pode ter sido trocado:
+    state = this.state;
+
+    if(state !== null) {
+      state.update(this);
+      this.frames += 1;
+    }
+  }
+}
+
+// ==========================================================================
+// particle_emitter.ts
+// ==========================================================================
+/** Partículas desenhadas como pixels. */
+export const PARTICLE_PIXEL: u8 = 0;
+
+/** Partículas desenhadas como retângulos. */
+export const PARTICLE_RECT: u8 = 1;
+
+/** Partículas desenhadas como círculos. */
+export const PARTICLE_OVAL: u8 = 2;
+
+/** Partículas desenhadas como quadros de uma folha de sprites. */
+export const PARTICLE_FRAME: u8 = 3;
+
+/**
+ * @class ParticleEmitter
+ *
+ * @description
+ * Emissor de partículas (explosões, poeira, faíscas, etc.). As partículas
+ * ficam em buffers de capacidade fixa, alocados uma única vez: nenhuma
+ * alocação acontece ao emiti-las.
+ */
+export class ParticleEmitter {
+  /** Capacidade máxima de partículas. */
+  capacity: i32;
+
+  /** Quantidade de partículas ativas. */
+  count: i32;
+
+  /** Posições X das partículas. */
+  particleX: Float32Array;
+
+  /** Posições Y das partículas. */
+  particleY: Float32Array;
+
+  /** Velocidades X das partículas. */
+  velocityX: Float32Array;
+
+  /** Velocidades Y das partículas. */
+  velocityY: Float32Array;
+
+  /** Idades das partículas (em quadros). */
+  ages: Int32Array;
+
+  /** Tempos de vida das partículas (em quadros). */
+  lifetimes: Int32Array;
+
+  /** Posição X do emissor. */
+  x: f32;
+
+  /** Posição Y do emissor. */
+  y: f32;
+
+  /** Sprite ao qual o emissor está preso. */
+  owner: Sprite | null;
+
+  /** Deslocamento X em relação ao sprite. */
+  offsetX: i32;
+
+  /** Deslocamento Y em relação ao sprite. */
+  offsetY: i32;
+
+  /** Ângulo de emissão (em graus). */
+  angle: f32;
+
+  /** Abertura do ângulo de emissão (em graus, para cada lado). */
+  spread: f32;
+
+  /** Velocidade mínima. */
+  speedMin: f32;
+
+  /** Velocidade máxima. */
+  speedMax: f32;
+
+  /** Gravidade X (aceleração por quadro). */
+  gravityX: f32;
+
+  /** Gravidade Y (aceleração por quadro). */
+  gravityY: f32;
+
+  /** Tempo de vida mínimo (em quadros). */
+  lifeMin: i32;
+
+  /** Tempo de vida máximo (em quadros). */
+  lifeMax: i32;
+
+  /** Quantidade de partículas emitidas por quadro (emissão contínua). */
+  rate: f32;
+
+  /** Indica se a emissão contínua está ativa. */
+  emitting: boolean;
+
+  /** Formato das partículas. */
+  shape: u8;
+
+  /** Tamanho das partículas (retângulos e círculos). */
+  size: i32;
+
+  /** Ordens de cores da paleta ao longo da vida das partículas. */
+  colors: u16[];
+
+  /** Folha de sprites (partículas desenhadas como quadros). */
+  spritesheet: Spritesheet | null;
+
+  /** Quadros de animação ao longo da vida das partículas. */
+  frames: i16[];
+
+  /** Acúmulo de partículas a serem emitidas (emissão contínua). */
+  _pending: f32;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} capacity Capacidade máxima de partículas.
+   * @param {f32} x Posição X do emissor.
+   * @param {f32} y Posição Y do emissor.
+   */
+  constructor(capacity: i32, x: f32 = 0, y: f32 = 0) {
+    this.capacity    = capacity;
+    this.count       = 0;
+    this.particleX   = new Float32Array(capacity);
+    this.particleY   = new Float32Array(capacity);
+    this.velocityX   = new Float32Array(capacity);
+    this.velocityY   = new Float32Array(capacity);
+    this.ages        = new Int32Array(capacity);
+    this.lifetimes   = new Int32Array(capacity);
+    this.x           = x;
+    this.y           = y;
+    this.owner       = null;
+    this.offsetX     = 0;
+    this.offsetY     = 0;
+    this.angle       = 270;
+    this.spread      = 180;
+    this.speedMin    = 0.5;
+    this.speedMax    = 1.5;
+    this.gravityX    = 0;
+    this.gravityY    = 0;
+    this.lifeMin     = 20;
+    this.lifeMax     = 30;
+    this.rate        = 0;
+    this.emitting    = false;
+    this.shape       = PARTICLE_PIXEL;
+    this.size        = 1;
+    this.colors      = [0x4];
+    this.spritesheet = null;
+    this.frames      = [];
+    this._pending    = 0;
+  }
+
+  /**
+   * Prende o emissor a um sprite. Quando o sprite for destruído, a emissão
+   * contínua é encerrada.
+   *
+   * @param {Sprite} sprite Sprite.
+   * @param {i32} offsetX Deslocamento X.
+   * @param {i32} offsetY Deslocamento Y.
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  attach(sprite: Sprite, offsetX: i32 = 0, offsetY: i32 = 0): ParticleEmitter {
+    this.owner   = sprite;
+    this.offsetX = offsetX;
+    this.offsetY = offsetY;
+    this.follow();
+    return this;
+  }
+
+  /**
+   * Solta o emissor do sprite ao qual está preso.
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  detach(): ParticleEmitter {
+    this.owner = null;
+    return this;
+  }
+
+  /**
+   * Define as ordens de cores ao longo da vida das partículas.
+   *
+   * @param {u16[]} colors Ordens de cores da paleta.
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  setColors(colors: u16[]): ParticleEmitter {
+    this.colors = colors;
+    return this;
+  }
+
+  /**
+   * Define o formato das partículas.
+   *
+   * @param {u8} shape Formato (`PARTICLE_PIXEL`, `PARTICLE_RECT` ou `PARTICLE_OVAL`).
+   * @param {i32} size Tamanho.
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  setShape(shape: u8, size: i32 = 1): ParticleEmitter {
+    this.shape = shape;
+    this.size  = size;
+    return this;
+  }
+
+  /**
+   * Desenha as partículas como quadros de uma folha de sprites.
+   *
+   * @param {Spritesheet} spritesheet Folha de sprites.
+   * @param {i16[]} frames Quadros de animação ao longo da vida das partículas.
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  setFrames(spritesheet: Spritesheet, frames: i16[]): ParticleEmitter {
+    this.shape       = PARTICLE_FRAME;
+    this.spritesheet = spritesheet;
+    this.frames      = frames;
+    return this;
+  }
+
+  /**
+   * Define a direção e a velocidade de emissão.
+   *
+   * @param {f32} angle Ângulo de emissão (em graus).
+   * @param {f32} spread Abertura do ângulo (em graus, para cada lado).
+   * @param {f32} speedMin Velocidade mínima.
+   * @param {f32} speedMax Velocidade máxima.
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  setDirection(angle: f32, spread: f32, speedMin: f32, speedMax: f32): ParticleEmitter {
+    this.angle    = angle;
+    this.spread   = spread;
+    this.speedMin = speedMin;
+    this.speedMax = speedMax;
+    return this;
+  }
+
+  /**
+   * Define a gravidade aplicada às partículas.
+   *
+   * @param {f32} x Gravidade X.
+   * @param {f32} y Gravidade Y.
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  setGravity(x: f32, y: f32): ParticleEmitter {
+    this.gravityX = x;
+    this.gravityY = y;
+    return this;
+  }
+
+  /**
+   * Define o tempo de vida das partículas.
+   *
+   * @param {i32} min Tempo de vida mínimo (em quadros).
+   * @param {i32} max Tempo de vida máximo (em quadros).
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  setLifetime(min: i32, max: i32): ParticleEmitter {
+    this.lifeMin = min;
+    this.lifeMax = max;
+    return this;
+  }
+
+  /**
+   * Acompanha a posição do sprite ao qual o emissor está preso.
+   */
+  follow(): void {
+    let owner: Sprite | null = this.owner;
+
+    if(owner !== null) {
+      this.x = (owner.x + this.offsetX) as f32;
+      this.y = (owner.y + this.offsetY) as f32;
+    }
+  }
+
+  /**
+   * Emite uma única partícula.
+   *
+   * @return {boolean}
+   */
+  emit(): boolean {
+    if(this.count >= this.capacity) {
+      return false;
+    }
+
+    let index    : i32 = this.count;
+    let direction: f32 = this.angle + (((Math.random() as f32) * 2 - 1) * this.spread);
+    let speed    : f32 = this.speedMin + ((Math.random() as f32) * (this.speedMax - this.speedMin));
+    let radians  : f32 = direction * (Mathf.PI / 180);
+
+    this.particleX[index] = this.x;
+    this.particleY[index] = this.y;
+    this.velocityX[index] = Mathf.cos(radians) * speed;
+    this.velocityY[index] = Mathf.sin(radians) * speed;
+    this.ages[index]      = 0;
+    this.lifetimes[index] = max<i32>(1, this.lifeMin + (((Math.random() * ((this.lifeMax - this.lifeMin + 1) as f64)) as i32)));
+
+    this.count += 1;
+    return true;
+  }
+
+  /**
+   * Emite várias partículas de uma só vez.
+   *
+   * @param {i32} amount Quantidade de partículas.
+   *
+   * @return {i32} Quantidade de partículas realmente emitidas.
+   */
+  burst(amount: i32): i32 {
+    let emitted: i32 = 0;
+
+    this.follow();
+
+    while(emitted < amount && this.emit()) {
+      emitted += 1;
+    }
+
+    return emitted;
+  }
+
+  /**
+   * Inicia a emissão contínua.
+   *
+   * @param {f32} rate Quantidade de partículas emitidas por quadro (ex: `0.25`
+   *        emite uma partícula a cada 4 quadros).
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  start(rate: f32): ParticleEmitter {
+    this.rate     = rate;
+    this.emitting = true;
+    return this;
+  }
+
+  /**
+   * Encerra a emissão contínua. As partículas já emitidas continuam até o
+   * fim de suas vidas.
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  stop(): ParticleEmitter {
+    this.emitting = false;
+    this._pending = 0;
+    return this;
+  }
+
+  /**
+   * Remove todas as partículas.
+   */
+  clear(): void {
+    this.count = 0;
+  }
+
+  /**
+   * Retorna se ainda há partículas ativas ou emissão em andamento.
+   *
+   * @return {boolean}
+   */
+  active(): boolean {
+    return this.emitting || this.count > 0;
+  }
+
+  /**
+   * Obtém um valor ao longo da vida de uma partícula.
+   *
+   * @param {i32} index Índice da partícula.
+   * @param {i32} length Quantidade de valores.
+   *
+   * @return {i32} Índice do valor.
+   */
+  lifeIndex(index: i32, length: i32): i32 {
+    return min<i32>(length - 1, (this.ages[index] * length) / this.lifetimes[index]);
+  }
+
+  /**
+   * Atualiza o emissor e suas partículas.
+   */
+  update(): void {
+    let owner: Sprite | null = this.owner;
+
+    // Encerrar emissão quando o sprite for destruído...
+    if(owner !== null && owner._destroyed) {
+      this.owner = null;
+      this.stop();
+    }
+
+    this.follow();
+
+    // Emissão contínua:
+    if(this.emitting) {
+      this._pending += this.rate;
+
+      while(this._pending >= 1) {
+        this._pending -= 1;
+        this.emit();
+      }
+    }
+
+    // Atualizar partículas...
+    let index: i32 = 0;
+
+    while(index < this.count) {
+      this.ages[index] += 1;
+
+      // Partículas expiradas são substituídas pela última da lista...
+      if(this.ages[index] >= this.lifetimes[index]) {
+        let last: i32 = this.count - 1;
+
+        this.particleX[index] = this.particleX[last];
+        this.particleY[index] = this.particleY[last];
+        this.velocityX[index] = this.velocityX[last];
+        this.velocityY[index] = this.velocityY[last];
+        this.ages[index]      = this.ages[last];
+        this.lifetimes[index] = this.lifetimes[last];
+
+        this.count -= 1;
+        continue;
+      }
+
+      this.velocityX[index] += this.gravityX;
+      this.velocityY[index] += this.gravityY;
+      this.particleX[index] += this.velocityX[index];
+      this.particleY[index] += this.velocityY[index];
+
+      index += 1;
+    }
+  }
+
+  /**
+   * Desenha as partículas.
+   */
+  draw(): void {
+    for(let index: i32 = 0; index < this.count; index += 1) {
+      let x     : i32 = Mathf.floor(this.particleX[index]) as i32;
+      let y     : i32 = Mathf.floor(this.particleY[index]) as i32;
+      let colors: u16 = this.colors.length > 0? this.colors[this.lifeIndex(index, this.colors.length)]: 0x4;
+
+      // Quadros de uma folha de sprites...
+      if(this.shape === PARTICLE_FRAME) {
+        let spritesheet: Spritesheet | null = this.spritesheet;
+
+        if(spritesheet !== null && this.frames.length > 0) {
+          let frame: i32 = this.frames[this.lifeIndex(index, this.frames.length)] as i32;
+          spritesheet.draw(x, y, frame, false, false, 0, colors);
+        }
+      }
+      // Retângulos...
+      else if(this.shape === PARTICLE_RECT) {
+        canvas.rect(x, y, this.size, this.size, colors);
+      }
+      // Círculos...
+      else if(this.shape === PARTICLE_OVAL) {
+        canvas.oval(x, y, this.size, this.size, colors);
+      }
+      // Pixels:
+      else {
+        canvas.pixel(x, y, colors);
+      }
+    }
+  }
+}
+
+// ==========================================================================
+// tween.ts
+// ==========================================================================
+/** Eixo X (tweens de posição). */
+export const TWEEN_X: u8 = 0;
+
+/** Eixo Y (tweens de posição). */
+export const TWEEN_Y: u8 = 1;
+
+/** Canal vermelho (tweens de paleta). */
+export const TWEEN_RED: u8 = 0;
+
+/** Canal verde (tweens de paleta). */
+export const TWEEN_GREEN: u8 = 1;
+
+/** Canal azul (tweens de paleta). */
+export const TWEEN_BLUE: u8 = 2;
+
+/**
+ * @class Tween
+ *
+ * @description
+ * Interpola um valor ao longo de uma quantidade de quadros, usando uma
+ * função de suavização. Esta classe não altera nada por conta própria: as
+ * subclasses definem de onde o valor inicial é lido (`read()`) e onde o valor
+ * interpolado é aplicado (`apply()`).
+ *
+ * Tweens adicionados a uma cena (`Scene.addTween()`) são avançados a cada
+ * game loop, e removidos ao serem concluídos.
+ */
+export class Tween {
+  /** Nome (usado para identificar o tween em eventos). */
+  name: string;
+
+  /** Sprite ao qual o tween pertence. É cancelado quando ele for destruído. */
+  owner: Sprite | null;
+
+  /** Valor inicial. */
+  from: f32;
+
+  /** Valor final. */
+  to: f32;
+
+  /** Duração (em quadros). */
+  frames: i32;
+
+  /** Tipo de suavização (ex: `EASE_QUAD_OUT`). */
+  easing: u8;
+
+  /** Atraso antes de iniciar (em quadros). */
+  delay: i32;
+
+  /** Quantidade de repetições (-1 para repetir para sempre). */
+  repeat: i32;
+
+  /** Quando `true`, as repetições alternam entre ida e volta. */
+  yoyo: boolean;
+
+  /** Contador de quadros. */
+  counter: i32;
+
+  /** Indica se o tween está indo (ou voltando, com yoyo). */
+  forward: boolean;
+
+  /** Indica se o tween já foi iniciado. */
+  started: boolean;
+
+  /** Indica se o tween já foi concluído. */
+  finished: boolean;
+
+  /** Quadros restantes de atraso. */
+  _wait: i32;
+
+  /** Repetições restantes. */
+  _remaining: i32;
+
+  /** Indica se o valor inicial foi definido manualmente. */
+  _hasFrom: boolean;
+
+  /**
+   * @constructor
+   *
+   * @param {f32} to Valor final.
+   * @param {i32} frames Duração (em quadros).
+   * @param {u8} easing Tipo de suavização.
+   */
+  constructor(to: f32, frames: i32, easing: u8 = 0) {
+    this.name       = "";
+    this.owner      = null;
+    this.from       = 0;
+    this.to         = to;
+    this.frames     = frames;
+    this.easing     = easing;
+    this.delay      = 0;
+    this.repeat     = 0;
+    this.yoyo       = false;
+    this.counter    = 0;
+    this.forward    = true;
+    this.started    = false;
+    this.finished   = false;
+    this._wait      = 0;
+    this._remaining = 0;
+    this._hasFrom   = false;
+  }
+
+  /**
+   * Define o nome do tween.
+   *
+   * @param {string} name Nome.
+   *
+   * @return {Tween} Tail call.
+   */
+  setName(name: string): Tween {
+    this.name = name;
+    return this;
+  }
+
+  /**
+   * Define o valor inicial. Quando não definido, ele é lido ao iniciar.
+   *
+   * @param {f32} value Valor inicial.
+   *
+   * @return {Tween} Tail call.
+   */
+  setFrom(value: f32): Tween {
+    this.from     = value;
+    this._hasFrom = true;
+    return this;
+  }
+
+  /**
+   * Define o atraso antes de iniciar.
+   *
+   * @param {i32} frames Atraso (em quadros).
+   *
+   * @return {Tween} Tail call.
+   */
+  setDelay(frames: i32): Tween {
+    this.delay = frames;
+    this._wait = frames;
+    return this;
+  }
+
+  /**
+   * Define as repetições do tween.
+   *
+   * @param {i32} count Quantidade de repetições (-1 para repetir para sempre).
+   * @param {boolean} yoyo Alternar entre ida e volta.
+   *
+   * @return {Tween} Tail call.
+   */
+  setRepeat(count: i32, yoyo: boolean = false): Tween {
+    this.repeat     = count;
+    this.yoyo       = yoyo;
+    this._remaining = count;
+    return this;
+  }
+
+  /**
+   * Retorna o progresso do ciclo atual (de `0.0` a `1.0`).
+   *
+   * @return {f32}
+   */
+  progress(): f32 {
+    let progress: f32 = this.frames > 0? (this.counter as f32) / (this.frames as f32): 1;
+    return this.forward? progress: 1 - progress;
+  }
+
+  /**
+   * Calcula o valor interpolado atual.
+   *
+   * @return {f32}
+   */
+  value(): f32 {
+    return this.from + ((this.to - this.from) * ease(this.easing, this.progress()));
+  }
+
+  /**
+   * Reinicia o tween por completo.
+   */
+  reset(): void {
+    this.counter    = 0;
+    this.forward    = true;
+    this.started    = false;
+    this.finished   = false;
+    this._wait      = this.delay;
+    this._remaining = this.repeat;
+  }
+
+  /**
+   * Reinicia o tween por completo, no sentido inverso (do valor final ao
+   * inicial). O valor inicial já lido é mantido.
+   */
+  reverse(): void {
+    this.reset();
+    this.forward = false;
+  }
+
+  /**
+   * Reinicia o ciclo atual (usado pelas repetições).
+   */
+  restart(): void {
+    this.counter = 0;
+
+    if(this.yoyo) {
+      this.forward = !this.forward;
+    }
+  }
+
+  /**
+   * Conclui o ciclo atual, repetindo o tween quando necessário.
+   *
+   * @return {boolean} Se o tween foi concluído.
+   */
+  complete(): boolean {
+    // Repetir...
+    if(this._remaining !== 0) {
+      if(this._remaining > 0) {
+        this._remaining -= 1;
+      }
+
+      this.restart();
+      this.onRepeat();
+      return false;
+    }
+
+    // ...ou concluir:
+    this.finished = true;
+    this.onFinish();
+
+    let owner: Sprite | null = this.owner;
+
+    if(owner !== null) {
+      owner.onTweenFinish(this);
+    }
+
+    return true;
+  }
+
+  /**
+   * Avança um quadro do tween.
+   *
+   * @return {boolean} Se o tween foi concluído.
+   */
+  update(): boolean {
+    if(this.finished) {
+      return true;
+    }
+
+    // Aguardar atraso...
+    if(this._wait > 0) {
+      this._wait -= 1;
+      return false;
+    }
+
+    // Iniciar (lendo o valor inicial, quando necessário e indo):
+    if(!this.started) {
+      this.started = true;
+
+      if(!this._hasFrom && this.forward) {
+        this.from = this.read();
+      }
+
+      this.onStart();
+    }
+
+    this.counter += 1;
+    this.apply(this.value());
+
+    if(this.counter < this.frames) {
+      return false;
+    }
+
+    return this.complete();
+  }
+
+  /**
+   * Lê o valor atual da propriedade animada (usado como valor inicial).
+   *
+   * @return {f32}
+   */
+  read(): f32 {
+    return this.from;
+  }
+
+  /**
+   * @event apply
+   * Evento acionado a cada quadro, com o valor interpolado.
+   *
+   * @param {f32} value Valor interpolado.
+   */
+  apply(value: f32): void {
+    // ...
+  }
+
+  /**
+   * @event onStart
+   * Evento acionado ao iniciar o tween (após o atraso).
+   */
+  onStart(): void {
+    // ...
+  }
+
+  /**
+   * @event onRepeat
+   * Evento acionado a cada repetição.
+   */
+  onRepeat(): void {
+    // ...
+  }
+
+  /**
+   * @event onFinish
+   * Evento acionado ao concluir o tween.
+   */
+  onFinish(): void {
+    // ...
+  }
+}
+
+/**
+ * @class SpriteTween
+ *
+ * @extends Tween
+ *
+ * @description
+ * Tween da posição (X ou Y) de um sprite.
+ */
+export class SpriteTween extends Tween {
+  /** Sprite. */
+  sprite: Sprite;
+
+  /** Eixo (`TWEEN_X` ou `TWEEN_Y`). */
+  axis: u8;
+
+  /**
+   * @constructor
+   *
+   * @param {Sprite} sprite Sprite.
+   * @param {u8} axis Eixo (`TWEEN_X` ou `TWEEN_Y`).
+   * @param {f32} to Posição final.
+   * @param {i32} frames Duração (em quadros).
+   * @param {u8} easing Tipo de suavização.
+   */
+  constructor(sprite: Sprite, axis: u8, to: f32, frames: i32, easing: u8 = 0) {
+    super(to, frames, easing);
+    this.sprite = sprite;
+    this.axis   = axis;
+    this.owner  = sprite;
+  }
+
+  read(): f32 {
+    return (this.axis === TWEEN_X? this.sprite.x: this.sprite.y) as f32;
+  }
+
+  apply(value: f32): void {
+    let position: i32 = Mathf.round(value) as i32;
+
+    if(this.axis === TWEEN_X) {
+      this.sprite.x    = position;
+      this.sprite.subX = 0;
+    }
+    else {
+      this.sprite.y    = position;
+      this.sprite.subY = 0;
+    }
+  }
+}
+
+/**
+ * @class ViewTween
+ *
+ * @extends Tween
+ *
+ * @description
+ * Tween da posição (X ou Y) de uma viewport, como a do canvas.
+ */
+export class ViewTween extends Tween {
+  /** Viewport. */
+  view: Viewport;
+
+  /** Eixo (`TWEEN_X` ou `TWEEN_Y`). */
+  axis: u8;
+
+  /**
+   * @constructor
+   *
+   * @param {u8} axis Eixo (`TWEEN_X` ou `TWEEN_Y`).
+   * @param {f32} to Posição final.
+   * @param {i32} frames Duração (em quadros).
+   * @param {u8} easing Tipo de suavização.
+   * @param {Viewport | null} view Viewport (por padrão, a do canvas).
+   */
+  constructor(axis: u8, to: f32, frames: i32, easing: u8 = 0, view: Viewport | null = null) {
+    super(to, frames, easing);
+    this.view = view !== null? view: canvas.view;
+    this.axis = axis;
+  }
+
+  read(): f32 {
+    return (this.axis === TWEEN_X? this.view.x: this.view.y) as f32;
+  }
+
+  apply(value: f32): void {
+    if(this.axis === TWEEN_X) {
+      this.view.x = Mathf.round(value) as i32;
+    }
+    else {
+      this.view.y = Mathf.round(value) as i32;
+    }
+  }
+}
+
+/**
+ * @class PaletteTween
+ *
+ * @extends Tween
+ *
+ * @description
+ * Tween de um canal (vermelho, verde ou azul) de uma cor da paleta do canvas.
+ */
+export class PaletteTween extends Tween {
+  /** Índice da cor na paleta (de 0 a 3). */
+  index: i32;
+
+  /** Canal (`TWEEN_RED`, `TWEEN_GREEN` ou `TWEEN_BLUE`). */
+  channel: u8;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} index Índice da cor na paleta (de 0 a 3).
+   * @param {u8} channel Canal (`TWEEN_RED`, `TWEEN_GREEN` ou `TWEEN_BLUE`).
+   * @param {f32} to Valor final do canal (de 0 a 255).
+   * @param {i32} frames Duração (em quadros).
+   * @param {u8} easing Tipo de suavização.
+   */
+  constructor(index: i32, channel: u8, to: f32, frames: i32, easing: u8 = 0) {
+    super(to, frames, easing);
+    this.index   = index;
+    this.channel = channel;
+  }
+
+  /**
+   * Deslocamento (em bits) do canal dentro da cor.
+   *
+   * @return {i32}
+   */
+  shift(): i32 {
+    return 16 - ((this.channel as i32) * 8);
+  }
+
+  read(): f32 {
+    return ((canvas.palette[this.index] >> this.shift()) & 0xFF) as f32;
+  }
+
+  apply(value: f32): void {
+    let channel: i32 = (Mathf.round(Mathf.max(0, Mathf.min(255, value))) as i32) << this.shift();
+    let color  : i32 = canvas.palette[this.index] & ~(0xFF << this.shift());
+
+    canvas.palette[this.index] = color | channel;
+  }
+}
+
+/**
+ * @class TweenGroup
+ *
+ * @extends Tween
+ *
+ * @description
+ * Agrupa vários tweens, executados em sequência (um após o outro) ou em
+ * paralelo (todos ao mesmo tempo). O grupo é concluído quando todos os seus
+ * tweens forem concluídos. Grupos podem conter outros grupos.
+ *
+ * Com yoyo, as repetições de volta executam os tweens invertidos (e, em
+ * sequência, do último ao primeiro). Tweens de sprites destruídos são
+ * ignorados.
+ */
+export class TweenGroup extends Tween {
+  /** Tweens do grupo. */
+  tweens: Tween[];
+
+  /** Quando `true`, executa os tweens ao mesmo tempo. */
+  parallel: boolean;
+
+  /** Índice do tween atual (em sequência). */
+  index: i32;
+
+  /**
+   * @constructor
+   *
+   * @param {boolean} parallel Executar os tweens ao mesmo tempo.
+   */
+  constructor(parallel: boolean = false) {
+    super(0, 0);
+    this.tweens   = [];
+    this.parallel = parallel;
+    this.index    = 0;
+  }
+
+  /**
+   * Adiciona um tween ao grupo.
+   *
+   * @param {Tween} tween Tween.
+   *
+   * @return {TweenGroup} Tail call.
+   */
+  add(tween: Tween): TweenGroup {
+    this.tweens.push(tween);
+    return this;
+  }
+
+  /**
+   * Reinicia os tweens do grupo, no sentido atual do grupo.
+   */
+  rewind(): void {
+    this.index = 0;
+
+    for(let index: i32 = 0; index < this.tweens.length; index += 1) {
+      let tween: Tween = this.tweens[index];
+
+      if(this.forward) {
+        tween.reset();
+      }
+      else {
+        tween.reverse();
+      }
+    }
+  }
+
+  /**
+   * Indica se um tween do grupo deve ser ignorado (sprite destruído).
+   *
+   * @param {Tween} tween Tween.
+   *
+   * @return {boolean}
+   */
+  static cancelled(tween: Tween): boolean {
+    let owner: Sprite | null = tween.owner;
+    return owner !== null && owner._destroyed;
+  }
+
+  reset(): void {
+    super.reset();
+    this.rewind();
+  }
+
+  reverse(): void {
+    super.reverse();
+    this.rewind();
+  }
+
+  restart(): void {
+    super.restart();
+    this.rewind();
+  }
+
+  update(): boolean {
+    if(this.finished) {
+      return true;
+    }
+
+    // Aguardar atraso...
+    if(this._wait > 0) {
+      this._wait -= 1;
+      return false;
+    }
+
+    if(!this.started) {
+      this.started = true;
+      this.onStart();
+    }
+
+    // Tweens em paralelo...
+    if(this.parallel) {
+      let done: boolean = true;
+
+      for(let index: i32 = 0; index < this.tweens.length; index += 1) {
+        let tween: Tween = this.tweens[index];
+
+        if(!TweenGroup.cancelled(tween) && !tween.update()) {
+          done = false;
+        }
+      }
+
+      if(!done) {
+        return false;
+      }
+    }
+    // ...ou em sequência (o próximo inicia no quadro seguinte, e a volta
+    // começa pelo último tween):
+    else {
+      if(this.index < this.tweens.length) {
+        let tween: Tween = this.tweens[this.forward? this.index: this.tweens.length - 1 - this.index];
+
+        if(TweenGroup.cancelled(tween) || tween.update()) {
+          this.index += 1;
+        }
+      }
+
+      if(this.index < this.tweens.length) {
+        return false;
+      }
+    }
+
+    return this.complete();
+  }
+}
+
+// ==========================================================================
+// scheduler.ts
+// ==========================================================================
+/** Função acionada por um timer. */
+export type TimerCallback = (timer: Timer) => void;
+
+/** Função acionada por um passo de rotina. */
+export type RoutineCallback = (routine: Routine) => void;
+
+/** Condição de espera de um passo de rotina. */
+export type RoutineCondition = (routine: Routine) => boolean;
+
+/** Passo de rotina: aguardar uma quantidade de quadros. */
+export const ROUTINE_WAIT: u8 = 0;
+
+/** Passo de rotina: acionar uma função. */
+export const ROUTINE_CALL: u8 = 1;
+
+/** Passo de rotina: aguardar até que uma condição seja verdadeira. */
+export const ROUTINE_UNTIL: u8 = 2;
+
+/** Passo de rotina: executar um tween até sua conclusão. */
+export const ROUTINE_TWEEN: u8 = 3;
+
+/**
+ * @class Timer
+ *
+ * @description
+ * Timer criado por um agendador. Também serve como identificador para
+ * cancelá-lo. Como funções em AssemblyScript não capturam variáveis, o
+ * próprio timer é passado para a função, com seu sprite (`owner`) e nome.
+ */
+export class Timer {
+  /** Nome. */
+  name: string;
+
+  /** Sprite ao qual o timer pertence. É cancelado quando ele for destruído. */
+  owner: Sprite | null;
+
+  /** Função acionada. */
+  callback: TimerCallback;
+
+  /** Intervalo (em quadros). */
+  frames: i32;
+
+  /** Contador de quadros. */
+  counter: i32;
+
+  /** Quantidade de acionamentos restantes (-1 para repetir para sempre). */
+  count: i32;
+
+  /** Indica se o timer está ativo. */
+  active: boolean;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} frames Intervalo (em quadros).
+   * @param {TimerCallback} callback Função acionada.
+   * @param {i32} count Quantidade de acionamentos (-1 para repetir para sempre).
+   * @param {Sprite | null} owner Sprite ao qual o timer pertence.
+   */
+  constructor(frames: i32, callback: TimerCallback, count: i32, owner: Sprite | null) {
+    this.name     = "";
+    this.owner    = owner;
+    this.callback = callback;
+    this.frames   = frames;
+    this.counter  = 0;
+    this.count    = count;
+    this.active   = true;
+  }
+
+  /**
+   * Define o nome do timer.
+   *
+   * @param {string} name Nome.
+   *
+   * @return {Timer} Tail call.
+   */
+  setName(name: string): Timer {
+    this.name = name;
+    return this;
+  }
+
+  /**
+   * Cancela o timer.
+   */
+  cancel(): void {
+    this.active = false;
+  }
+
+  /**
+   * Avança um quadro do timer.
+   *
+   * @return {boolean} Se o timer continua ativo.
+   */
+  update(): boolean {
+    let owner: Sprite | null = this.owner;
+
+    // Timers de sprites destruídos são cancelados...
+    if(owner !== null && owner._destroyed) {
+      this.active = false;
+    }
+
+    if(!this.active) {
+      return false;
+    }
+
+    this.counter += 1;
+
+    if(this.counter < this.frames) {
+      return true;
+    }
+
+    // Acionar função:
+    this.counter = 0;
+
+    if(this.count > 0) {
+      this.count -= 1;
+    }
+    if(this.count === 0) {
+      this.active = false;
+    }
+
+    this.callback(this);
+    return this.active;
+  }
+}
+
+/**
+ * @class RoutineStep
+ *
+ * @description
+ * Passo de uma rotina.
+ */
+export class RoutineStep {
+  /** Tipo do passo (ex: `ROUTINE_WAIT`). */
+  kind: u8;
+
+  /** Quantidade de quadros (`ROUTINE_WAIT`). */
+  frames: i32;
+
+  /** Função acionada (`ROUTINE_CALL`). */
+  callback: RoutineCallback | null;
+
+  /** Condição de espera (`ROUTINE_UNTIL`). */
+  condition: RoutineCondition | null;
+
+  /** Tween executado (`ROUTINE_TWEEN`). */
+  tween: Tween | null;
+
+  /**
+   * @constructor
+   *
+   * @param {u8} kind Tipo do passo.
+   */
+  constructor(kind: u8) {
+    this.kind      = kind;
+    this.frames    = 0;
+    this.callback  = null;
+    this.condition = null;
+    this.tween     = null;
+  }
+}
+
+/**
+ * @class Routine
+ *
+ * @description
+ * Rotina (corrotina sem geradores) formada por uma lista de passos
+ * executados em ordem: esperas, funções, condições e tweens. Útil para
+ * cutscenes e sequências de eventos.
+ *
+ * ```
+ * scene.scheduler.run(
+ *   new Routine(npc)
+ *     .wait(30)
+ *     .call((routine: Routine) => { (routine.owner as Npc).talk(); })
+ *     .until((routine: Routine) => p1.b1.pressed())
+ *     .tween(new SpriteTween(npc, TWEEN_X, 80, 60))
+ * );
+ * ```
+ */
+export class Routine {
+  /** Nome. */
+  name: string;
+
+  /** Sprite ao qual a rotina pertence. É cancelada quando ele for destruído. */
+  owner: Sprite | null;
+
+  /** Passos. */
+  steps: RoutineStep[];
+
+  /** Índice do passo atual. */
+  index: i32;
+
+  /** Contador de quadros do passo atual. */
+  counter: i32;
+
+  /** Quando `true`, recomeça ao concluir o último passo. */
+  loop: boolean;
+
+  /** Indica se a rotina está ativa. */
+  active: boolean;
+
+  /** Indica se o passo atual já foi iniciado. */
+  _entered: boolean;
+
+  /**
+   * @constructor
+   *
+   * @param {Sprite | null} owner Sprite ao qual a rotina pertence.
+   */
+  constructor(owner: Sprite | null = null) {
+    this.name     = "";
+    this.owner    = owner;
+    this.steps    = [];
+    this.index    = 0;
+    this.counter  = 0;
+    this.loop     = false;
+    this.active   = true;
+    this._entered = false;
+  }
+
+  /**
+   * Define o nome da rotina.
+   *
+   * @param {string} name Nome.
+   *
+   * @return {Routine} Tail call.
+   */
+  setName(name: string): Routine {
+    this.name = name;
+    return this;
+  }
+
+  /**
+   * Adiciona um passo de espera.
+   *
+   * @param {i32} frames Quantidade de quadros.
+   *
+   * @return {Routine} Tail call.
+   */
+  wait(frames: i32): Routine {
+    let step: RoutineStep = new RoutineStep(ROUTINE_WAIT);
+    step.frames = frames;
+
+    this.steps.push(step);
+    return this;
+  }
+
+  /**
+   * Adiciona um passo que aciona uma função.
+   *
+   * @param {RoutineCallback} callback Função.
+   *
+   * @return {Routine} Tail call.
+   */
+  call(callback: RoutineCallback): Routine {
+    let step: RoutineStep = new RoutineStep(ROUTINE_CALL);
+    step.callback = callback;
+
+    this.steps.push(step);
+    return this;
+  }
+
+  /**
+   * Adiciona um passo que aguarda até que uma condição seja verdadeira.
+   *
+   * @param {RoutineCondition} condition Condição.
+   *
+   * @return {Routine} Tail call.
+   */
+  until(condition: RoutineCondition): Routine {
+    let step: RoutineStep = new RoutineStep(ROUTINE_UNTIL);
+    step.condition = condition;
+
+    this.steps.push(step);
+    return this;
+  }
+
+  /**
+   * Adiciona um passo que executa um tween até sua conclusão.
+   *
+   * @param {Tween} tween Tween.
+   *
+   * @return {Routine} Tail call.
+   */
+  tween(tween: Tween): Routine {
+    let step: RoutineStep = new RoutineStep(ROUTINE_TWEEN);
+    step.tween = tween;
+
+    this.steps.push(step);
+    return this;
+  }
+
+  /**
+   * Faz a rotina recomeçar ao concluir o último passo.
+   *
+   * @return {Routine} Tail call.
+   */
+  repeat(): Routine {
+    this.loop = true;
+    return this;
+  }
+
+  /**
+   * Cancela a rotina.
+   */
+  cancel(): void {
+    this.active = false;
+  }
+
+  /**
+   * Retorna se a rotina foi concluída.
+   *
+   * @return {boolean}
+   */
+  finished(): boolean {
+    return this.index >= this.steps.length;
+  }
+
+  /**
+   * Avança para o próximo passo.
+   */
+  next(): void {
+    this.index   += 1;
+    this.counter  = 0;
+    this._entered = false;
+
+    // Recomeçar...
+    if(this.loop && this.finished()) {
+      this.index = 0;
+    }
+  }
+
+  /**
+   * Avança um quadro da rotina. Passos que não aguardam (funções, esperas
+   * concluídas, etc.) são executados em sequência no mesmo quadro.
+   *
+   * @return {boolean} Se a rotina continua ativa.
+   */
+  update(): boolean {
+    let owner: Sprite | null = this.owner;
+
+    // Rotinas de sprites destruídos são canceladas...
+    if(owner !== null && owner._destroyed) {
+      this.active = false;
+    }
+
+    // Limite de passos por quadro (evita repetições infinitas).
+    let budget: i32 = this.steps.length;
+
+    while(this.active && !this.finished() && budget > 0) {
+      let step: RoutineStep = this.steps[this.index];
+      let entered: boolean  = this._entered;
+
+      this._entered = true;
+      budget -= 1;
+
+      // Aguardar quadros...
+      if(step.kind === ROUTINE_WAIT) {
+        this.counter += 1;
+
+        if(this.counter < step.frames) {
+          return true;
+        }
+      }
+      // Acionar função...
+      else if(step.kind === ROUTINE_CALL) {
+        let callback: RoutineCallback | null = step.callback;
+
+        if(callback !== null) {
+          callback(this);
+        }
+      }
+      // Aguardar condição...
+      else if(step.kind === ROUTINE_UNTIL) {
+        let condition: RoutineCondition | null = step.condition;
+
+        if(condition !== null && !condition(this)) {
+          return true;
+        }
+      }
+      // Executar tween...
+      else if(step.kind === ROUTINE_TWEEN) {
+        let tween: Tween | null = step.tween;
+
+        if(tween !== null) {
+          if(!entered) {
+            tween.reset();
+          }
+          if(!tween.update()) {
+            return true;
+          }
+        }
+      }
+
+      this.next();
+    }
+
+    if(this.finished()) {
+      this.active = false;
+    }
+
+    return this.active;
+  }
+}
+
+/**
+ * @class Scheduler
+ *
+ * @description
+ * Agendador de timers e rotinas. Cada cena possui o seu, avançado a cada
+ * game loop. Timers e rotinas de sprites destruídos são cancelados
+ * automaticamente.
+ */
+export class Scheduler {
+  /** Timers ativos. */
+  timers: Timer[];
+
+  /** Rotinas ativas. */
+  routines: Routine[];
+
+  /** Contador de limpezas (usado para detectar `clear()` durante o update). */
+  _epoch: u32;
+
+  /**
+   * @constructor
+   */
+  constructor() {
+    this.timers   = [];
+    this.routines = [];
+    this._epoch   = 0;
+  }
+
+  /**
+   * Aciona uma função após uma quantidade de quadros.
+   *
+   * @param {i32} frames Quantidade de quadros.
+   * @param {TimerCallback} callback Função.
+   * @param {Sprite | null} owner Sprite ao qual o timer pertence.
+   *
+   * @return {Timer} Timer (pode ser usado para cancelá-lo).
+   */
+  after(frames: i32, callback: TimerCallback, owner: Sprite | null = null): Timer {
+    let timer: Timer = new Timer(frames, callback, 1, owner);
+
+    this.timers.push(timer);
+    return timer;
+  }
+
+  /**
+   * Aciona uma função a cada intervalo de quadros.
+   *
+   * @param {i32} frames Intervalo (em quadros).
+   * @param {TimerCallback} callback Função.
+   * @param {i32} count Quantidade de acionamentos (-1 para repetir para sempre).
+   * @param {Sprite | null} owner Sprite ao qual o timer pertence.
+   *
+   * @return {Timer} Timer (pode ser usado para cancelá-lo).
+   */
+  every(frames: i32, callback: TimerCallback, count: i32 = -1, owner: Sprite | null = null): Timer {
+    let timer: Timer = new Timer(frames, callback, count, owner);
+
+    this.timers.push(timer);
+    return timer;
+  }
+
+  /**
+   * Inicia uma rotina.
+   *
+   * @param {Routine} routine Rotina.
+   *
+   * @return {Routine} Tail call.
+   */
+  run(routine: Routine): Routine {
+    routine.active = true;
+
+    if(!this.routines.includes(routine)) {
+      this.routines.push(routine);
+    }
+
+    return routine;
+  }
+
+  /**
+   * Cancela um timer.
+   *
+   * @param {Timer} timer Timer.
+   *
+   * @return {boolean}
+   */
+  cancel(timer: Timer): boolean {
+    let active: boolean = timer.active && this.timers.includes(timer);
+
+    timer.cancel();
+    return active;
+  }
+
+  /**
+   * Cancela todos os timers e rotinas de um sprite.
+   *
+   * @param {Sprite} owner Sprite.
+   */
+  cancelOwner(owner: Sprite): void {
+    for(let index: i32 = 0; index < this.timers.length; index += 1) {
+      if(this.timers[index].owner === owner) {
+        this.timers[index].cancel();
+      }
+    }
+
+    for(let index: i32 = 0; index < this.routines.length; index += 1) {
+      if(this.routines[index].owner === owner) {
+        this.routines[index].cancel();
+      }
+    }
+  }
+
+  /**
+   * Cancela todos os timers e rotinas.
+   */
+  clear(): void {
+    this.timers.length   = 0;
+    this.routines.length = 0;
+    this._epoch += 1;
+  }
+
+  /**
+   * Avança os timers e rotinas, removendo os concluídos ou cancelados.
+   * Timers e rotinas criados durante este update só começam a contar a
+   * partir do próximo.
+   */
+  update(): void {
+    // Timers:
+    let epoch : u32 = this._epoch;
+    let length: i32 = this.timers.length;
+    let count : i32 = 0;
+
+    for(let index: i32 = 0; index < this.timers.length; index += 1) {
+      let timer: Timer   = this.timers[index];
+      let keep : boolean = index >= length ? timer.active : timer.update();
+
+      // A lista foi limpa durante o update (não deve ser compactada):
+      if(this._epoch !== epoch) {
+        break;
+      }
+
+      if(keep) {
+        this.timers[count] = timer;
+        count += 1;
+      }
+    }
+
+    if(this._epoch === epoch) {
+      this.timers.length = count;
+    }
+
+    // Rotinas:
+    epoch  = this._epoch;
+    length = this.routines.length;
+    count  = 0;
+
+    for(let index: i32 = 0; index < this.routines.length; index += 1) {
+      let routine: Routine = this.routines[index];
+      let keep   : boolean = index >= length ? routine.active : routine.update();
+
+      // A lista foi limpa durante o update (não deve ser compactada):
+      if(this._epoch !== epoch) {
+        break;
+      }
+
+      if(keep) {
+        this.routines[count] = routine;
+        count += 1;
+      }
+    }
+
+    if(this._epoch === epoch) {
+      this.routines.length = count;
+    }
+  }
+}
+
+// ==========================================================================
+// component_store.ts
+// ==========================================================================
+/** Componente de posição. */
+export const COMPONENT_POSITION: u8 = 0x01;
+
+/** Componente de velocidade. */
+export const COMPONENT_VELOCITY: u8 = 0x02;
+
+/** Componente de caixa de colisão. */
+export const COMPONENT_HITBOX: u8 = 0x04;
+
+/** Componente de desenho (quadro de uma folha de sprites). */
+export const COMPONENT_RENDER: u8 = 0x08;
+
+/**
+ * @class ComponentStore
+ *
+ * @description
+ * Armazenamento compacto (sparse set) de um componente. Os dados ficam em
+ * listas densas (sem buracos), indexadas por posição (`slot`), e cada
+ * entidade aponta para sua posição. Remoções trocam a posição removida pela
+ * última, sem alocações.
+ */
+export class ComponentStore {
+  /** Capacidade (quantidade máxima de entidades). */
+  capacity: i32;
+
+  /** Quantidade de componentes armazenados. */
+  count: i32;
+
+  /** Posição de cada entidade na lista densa (`-1` quando ausente). */
+  sparse: Int32Array;
+
+  /** Índice da entidade de cada posição da lista densa. */
+  dense: Int32Array;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} capacity Capacidade.
+   */
+  constructor(capacity: i32) {
+    this.capacity = capacity;
+    this.count    = 0;
+    this.sparse   = new Int32Array(capacity);
+    this.dense    = new Int32Array(capacity);
+
+    this.sparse.fill(-1);
+  }
+
+  /**
+   * Retorna se uma entidade possui este componente.
+   *
+   * @param {i32} index Índice da entidade.
+   *
+   * @return {boolean}
+   */
+  has(index: i32): boolean {
+    return this.slot(index) !== -1;
+  }
+
+  /**
+   * Retorna a posição de uma entidade na lista densa.
+   *
+   * @param {i32} index Índice da entidade.
+   *
+   * @return {i32} Posição (ou `-1`, quando ausente).
+   */
+  slot(index: i32): i32 {
+    if(index < 0 || index >= this.capacity) {
+      return -1;
+    }
+
+    return this.sparse[index];
+  }
+
+  /**
+   * Adiciona este componente a uma entidade.
+   *
+   * @param {i32} index Índice da entidade.
+   *
+   * @return {i32} Posição na lista densa.
+   */
+  add(index: i32): i32 {
+    let slot: i32 = this.slot(index);
+
+    if(slot !== -1) {
+      return slot;
+    }
+
+    slot = this.count;
+    this.dense[slot]   = index;
+    this.sparse[index] = slot;
+    this.count += 1;
+
+    return slot;
+  }
+
+  /**
+   * Remove este componente de uma entidade.
+   *
+   * @param {i32} index Índice da entidade.
+   *
+   * @return {boolean}
+   */
+  remove(index: i32): boolean {
+    let slot: i32 = this.slot(index);
+
+    if(slot === -1) {
+      return false;
+    }
+
+    let last: i32 = this.count - 1;
+
+    // Mover último componente para a posição removida:
+    if(slot !== last) {
+      let moved: i32 = this.dense[last];
+
+      this.dense[slot]   = moved;
+      this.sparse[moved] = slot;
+      this.move(last, slot);
+    }
+
+    this.sparse[index] = -1;
+    this.count = last;
+
+    return true;
+  }
+
+  /**
+   * Move os dados de uma posição para outra. Sobrescrito pelos
+   * armazenamentos de cada componente.
+   *
+   * @param {i32} from Posição de origem.
+   * @param {i32} to Posição de destino.
+   */
+  move(from: i32, to: i32): void {
+    // ...
+  }
+}
+
+/**
+ * @class PositionStore
+ *
+ * @extends ComponentStore
+ *
+ * @description
+ * Posições das entidades, em ponto fixo (subpixel).
+ */
+export class PositionStore extends ComponentStore {
+  /** Posições X (ponto fixo). */
+  x: Int32Array;
+
+  /** Posições Y (ponto fixo). */
+  y: Int32Array;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} capacity Capacidade.
+   */
+  constructor(capacity: i32) {
+    super(capacity);
+    this.x = new Int32Array(capacity);
+    this.y = new Int32Array(capacity);
+  }
+
+  move(from: i32, to: i32): void {
+    this.x[to] = this.x[from];
+    this.y[to] = this.y[from];
+  }
+}
+
+/**
+ * @class VelocityStore
+ *
+ * @extends ComponentStore
+ *
+ * @description
+ * Velocidades das entidades, em ponto fixo (pixels por quadro).
+ */
+export class VelocityStore extends ComponentStore {
+  /** Velocidades X (ponto fixo). */
+  dx: Int32Array;
+
+  /** Velocidades Y (ponto fixo). */
+  dy: Int32Array;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} capacity Capacidade.
+   */
+  constructor(capacity: i32) {
+    super(capacity);
+    this.dx = new Int32Array(capacity);
+    this.dy = new Int32Array(capacity);
+  }
+
+  move(from: i32, to: i32): void {
+    this.dx[to] = this.dx[from];
+    this.dy[to] = this.dy[from];
+  }
+}
+
+/**
+ * @class HitboxStore
+ *
+ * @extends ComponentStore
+ *
+ * @description
+ * Caixas de colisão retangulares das entidades (relativas à posição).
+ */
+export class HitboxStore extends ComponentStore {
+  /** Posições esquerdas. */
+  left: Int32Array;
+
+  /** Posições superiores. */
+  top: Int32Array;
+
+  /** Posições direitas. */
+  right: Int32Array;
+
+  /** Posições inferiores. */
+  bottom: Int32Array;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} capacity Capacidade.
+   */
+  constructor(capacity: i32) {
+    super(capacity);
+    this.left   = new Int32Array(capacity);
+    this.top    = new Int32Array(capacity);
+    this.right  = new Int32Array(capacity);
+    this.bottom = new Int32Array(capacity);
+  }
+
+  move(from: i32, to: i32): void {
+    this.left[to]   = this.left[from];
+    this.top[to]    = this.top[from];
+    this.right[to]  = this.right[from];
+    this.bottom[to] = this.bottom[from];
+  }
+}
+
+/**
+ * @class RenderStore
+ *
+ * @extends ComponentStore
+ *
+ * @description
+ * Quadros de animação desenhados para as entidades. As folhas de sprites
+ * são referenciadas por índice (veja `World.addSpritesheet()`).
+ */
+export class RenderStore extends ComponentStore {
+  /** Índices das folhas de sprites. */
+  sheet: Uint8Array;
+
+  /** Índices dos quadros de animação. */
+  frame: Int16Array;
+
+  /** Ordens de cores da paleta. */
+  colors: Uint16Array;
+
+  /** Inversões (bit 0 para X, bit 1 para Y). */
+  flip: Uint8Array;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} capacity Capacidade.
+   */
+  constructor(capacity: i32) {
+    super(capacity);
+    this.sheet  = new Uint8Array(capacity);
+    this.frame  = new Int16Array(capacity);
+    this.colors = new Uint16Array(capacity);
+    this.flip   = new Uint8Array(capacity);
+  }
+
+  move(from: i32, to: i32): void {
+    this.sheet[to]  = this.sheet[from];
+    this.frame[to]  = this.frame[from];
+    this.colors[to] = this.colors[from];
+    this.flip[to]   = this.flip[from];
+  }
+}
+
+// ==========================================================================
+// system.ts
+// ==========================================================================
+/**
+ * @class System
+ *
+ * @description
+ * Sistema de um mundo ECS. Os sistemas são executados na ordem em que foram
+ * adicionados ao mundo: primeiro todos os updates, depois todos os desenhos.
+ */
+export class System {
+  /** Indica se o sistema está ativo. */
+  active: boolean;
+
+  /**
+   * @constructor
+   */
+  constructor() {
+    this.active = true;
+  }
+
+  /**
+   * @event update
+   *
+   * @param {World} world Mundo.
+   */
+  update(world: World): void {
+    // ...
+  }
+
+  /**
+   * @event draw
+   *
+   * @param {World} world Mundo.
+   */
+  draw(world: World): void {
+    // ...
+  }
+}
+
+/**
+ * @class MovementSystem
+ *
+ * @extends System
+ *
+ * @description
+ * Soma as velocidades às posições das entidades.
+ */
+export class MovementSystem extends System {
+  update(world: World): void {
+    let position: PositionStore = world.position;
+    let velocity: VelocityStore = world.velocity;
+
+    for(let index: i32 = 0; index < velocity.count; index += 1) {
+      let slot: i32 = position.slot(velocity.dense[index]);
+
+      if(slot !== -1) {
+        position.x[slot] += velocity.dx[index];
+        position.y[slot] += velocity.dy[index];
+      }
+    }
+  }
+}
+
+/**
+ * @class RenderSystem
+ *
+ * @extends System
+ *
+ * @description
+ * Desenha as entidades com posição e quadro de animação, usando suas folhas
+ * de sprites (e, portanto, a câmera do canvas).
+ */
+export class RenderSystem extends System {
+  draw(world: World): void {
+    let position: PositionStore = world.position;
+    let render  : RenderStore   = world.render;
+
+    for(let index: i32 = 0; index < render.count; index += 1) {
+      let slot: i32 = position.slot(render.dense[index]);
+      let flip: u8  = render.flip[index];
+
+      if(slot === -1) {
+        continue;
+      }
+
+      world.spritesheets[render.sheet[index]].draw(
+        position.x[slot] >> FIXED_SHIFT,
+        position.y[slot] >> FIXED_SHIFT,
+        render.frame[index],
+        (flip & 1) !== 0,
+        (flip & 2) !== 0,
+        0,
+        render.colors[index]
+      );
+    }
+  }
+}
+
+// ==========================================================================
+// world.ts
+// ==========================================================================
+/**
+ * Identificador de entidade: índice nos 16 bits inferiores e geração nos 16
+ * bits superiores. Identificadores de entidades destruídas deixam de ser
+ * válidos, mesmo que seu índice seja reaproveitado.
+ */
+export type Entity = u32;
+
+/** Entidade vazia (nunca é válida). */
+export const ENTITY_NONE: Entity = 0xFFFFFFFF;
+
+/** Entidade inexistente. */
+const ENTITY_DEAD: u8 = 0;
+
+/** Entidade ativa. */
+const ENTITY_ALIVE: u8 = 1;
+
+/** Entidade marcada para destruição. */
+const ENTITY_PENDING: u8 = 2;
+
+/**
+ * @class World
+ *
+ * @description
+ * Mundo ECS (entidades, componentes e sistemas), alternativo às subclasses
+ * de `Sprite`. Todo o armazenamento é alocado na criação do mundo. Pode ser
+ * hospedado por uma cena (`Scene.addWorld()`), junto de sprites comuns.
+ *
+ * ```
+ * let world = new World(128);
+ * let sheet = world.addSpritesheet(spritesheet);
+ * world.addSystem(new MovementSystem());
+ * world.addSystem(new RenderSystem());
+ *
+ * let bullet: Entity = world.create();
+ * world.setPosition(bullet, 80, 80);
+ * world.setVelocity(bullet, fxf(0.5), 0);
+ * world.setRender(bullet, sheet, 3);
+ * ```
+ */
+export class World {
+  /** Capacidade (quantidade máxima de entidades, até 65535). */
+  capacity: i32;
+
+  /** Quantidade de entidades ativas. */
+  count: i32;
+
+  /** Estado de cada índice de entidade. */
+  states: Uint8Array;
+
+  /** Geração de cada índice de entidade. */
+  generations: Uint16Array;
+
+  /** Índices livres (pilha). */
+  free: Int32Array;
+
+  /** Quantidade de índices livres. */
+  freeCount: i32;
+
+  /** Índices marcados para destruição. */
+  removals: Int32Array;
+
+  /** Quantidade de índices marcados para destruição. */
+  removalCount: i32;
+
+  /** Posições. */
+  position: PositionStore;
+
+  /** Velocidades. */
+  velocity: VelocityStore;
+
+  /** Caixas de colisão. */
+  hitbox: HitboxStore;
+
+  /** Quadros de animação. */
+  render: RenderStore;
+
+  /** Folhas de sprites usadas pelo componente de desenho. */
+  spritesheets: Spritesheet[];
+
+  /** Sistemas (executados em ordem de adição). */
+  systems: System[];
+
+  /** Caixa de colisão temporária (usada em checagens com sprites). */
+  _box: Hitbox;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} capacity Capacidade (até 65535 entidades).
+   */
+  constructor(capacity: i32 = 256) {
+    this.capacity     = capacity;
+    this.count        = 0;
+    this.states       = new Uint8Array(capacity);
+    this.generations  = new Uint16Array(capacity);
+    this.free         = new Int32Array(capacity);
+    this.freeCount    = capacity;
+    this.removals     = new Int32Array(capacity);
+    this.removalCount = 0;
+    this.position     = new PositionStore(capacity);
+    this.velocity     = new VelocityStore(capacity);
+    this.hitbox       = new HitboxStore(capacity);
+    this.render       = new RenderStore(capacity);
+    this.spritesheets = [];
+    this.systems      = [];
+    this._box         = new Hitbox(0, 0, 0, 0);
+
+    // Índices livres (os menores são usados primeiro):
+    for(let index: i32 = 0; index < capacity; index += 1) {
+      this.free[index] = capacity - 1 - index;
+    }
+  }
+
+  /**
+   * Retorna o índice de uma entidade.
+   *
+   * @param {Entity} entity Entidade.
+   *
+   * @return {i32}
+   */
+  static index(entity: Entity): i32 {
+    return (entity & 0xFFFF) as i32;
+  }
+
+  /**
+   * Obtém a entidade (com a geração atual) de um índice.
+   *
+   * @param {i32} index Índice da entidade.
+   *
+   * @return {Entity}
+   */
+  entity(index: i32): Entity {
+    return ((this.generations[index] as u32) << 16) | (index as u32);
+  }
+
+  /**
+   * Retorna se uma entidade existe e não foi destruída.
+   *
+   * @param {Entity} entity Entidade.
+   *
+   * @return {boolean}
+   */
+  alive(entity: Entity): boolean {
+    let index: i32 = World.index(entity);
+
+    if(index >= this.capacity) {
+      return false;
+    }
+
+    return this.states[index] === ENTITY_ALIVE && this.entity(index) === entity;
+  }
+
+  /**
+   * Cria uma entidade (sem componentes).
+   *
+   * @return {Entity} Entidade (ou `ENTITY_NONE`, quando o mundo estiver cheio).
+   */
+  create(): Entity {
+    if(this.freeCount === 0) {
+      return ENTITY_NONE;
+    }
+
+    this.freeCount -= 1;
+
+    let index: i32 = this.free[this.freeCount];
+
+    this.states[index] = ENTITY_ALIVE;
+    this.count += 1;
+
+    return this.entity(index);
+  }
+
+  /**
+   * Marca uma entidade para destruição. Ela é removida ao final do update
+   * do mundo, para não interferir nos sistemas em execução.
+   *
+   * @param {Entity} entity Entidade.
+   *
+   * @return {boolean}
+   */
+  destroy(entity: Entity): boolean {
+    if(!this.alive(entity)) {
+      return false;
+    }
+
+    let index: i32 = World.index(entity);
+
+    this.states[index] = ENTITY_PENDING;
+    this.removals[this.removalCount] = index;
+    this.removalCount += 1;
+
+    return true;
+  }
+
+  /**
+   * Remove as entidades marcadas para destruição, liberando seus índices.
+   */
+  flush(): void {
+    for(let item: i32 = 0; item < this.removalCount; item += 1) {
+      let index: i32 = this.removals[item];
+
+      this.position.remove(index);
+      this.velocity.remove(index);
+      this.hitbox.remove(index);
+      this.render.remove(index);
+
+      // Invalidar identificadores anteriores:
+      this.generations[index] += 1;
+      this.states[index] = ENTITY_DEAD;
+
+      this.free[this.freeCount] = index;
+      this.freeCount += 1;
+      this.count -= 1;
+    }
+
+    this.removalCount = 0;
+  }
+
+  /**
+   * Remove todas as entidades.
+   */
+  clear(): void {
+    for(let index: i32 = 0; index < this.capacity; index += 1) {
+      this.destroy(this.entity(index));
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Retorna se uma entidade possui todos os componentes indicados.
+   *
+   * @param {Entity} entity Entidade.
+   * @param {u8} components Componentes (ex: `COMPONENT_POSITION | COMPONENT_VELOCITY`).
+   *
+   * @return {boolean}
+   */
+  has(entity: Entity, components: u8): boolean {
+    if(!this.alive(entity)) {
+      return false;
+    }
+
+    let index: i32 = World.index(entity);
+
+    if((components & COMPONENT_POSITION) && !this.position.has(index)) { return false; }
+    if((components & COMPONENT_VELOCITY) && !this.velocity.has(index)) { return false; }
+    if((components & COMPONENT_HITBOX)   && !this.hitbox.has(index))   { return false; }
+    if((components & COMPONENT_RENDER)   && !this.render.has(index))   { return false; }
+
+    return true;
+  }
+
+  /**
+   * Remove componentes de uma entidade.
+   *
+   * @param {Entity} entity Entidade.
+   * @param {u8} components Componentes.
+   */
+  remove(entity: Entity, components: u8): void {
+    if(!this.alive(entity)) {
+      return;
+    }
+
+    let index: i32 = World.index(entity);
+
+    if(components & COMPONENT_POSITION) { this.position.remove(index); }
+    if(components & COMPONENT_VELOCITY) { this.velocity.remove(index); }
+    if(components & COMPONENT_HITBOX)   { this.hitbox.remove(index);   }
+    if(components & COMPONENT_RENDER)   { this.render.remove(index);   }
+  }
+
+  /**
+   * Define a posição de uma entidade.
+   *
+   * @param {Entity} entity Entidade.
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   *
+   * @return {boolean}
+   */
+  setPosition(entity: Entity, x: i32, y: i32): boolean {
+    if(!this.alive(entity)) {
+      return false;
+    }
+
+    let slot: i32 = this.position.add(World.index(entity));
+
+    this.position.x[slot] = x << FIXED_SHIFT;
+    this.position.y[slot] = y << FIXED_SHIFT;
+    return true;
+  }
+
+  /**
+   * Obtém a posição X de uma entidade.
+   *
+   * @param {Entity} entity Entidade.
+   *
+   * @return {i32}
+   */
+  getX(entity: Entity): i32 {
+    let slot: i32 = this.position.slot(World.index(entity));
+    return slot !== -1 && this.alive(entity)? this.position.x[slot] >> FIXED_SHIFT: 0;
+  }
+
+  /**
+   * Obtém a posição Y de uma entidade.
+   *
+   * @param {Entity} entity Entidade.
+   *
+   * @return {i32}
+   */
+  getY(entity: Entity): i32 {
+    let slot: i32 = this.position.slot(World.index(entity));
+    return slot !== -1 && this.alive(entity)? this.position.y[slot] >> FIXED_SHIFT: 0;
+  }
+
+  /**
+   * Define a velocidade de uma entidade.
+   *
+   * @param {Entity} entity Entidade.
+   * @param {i32} dx Velocidade X (ponto fixo, ex: `fxf(0.5)`).
+   * @param {i32} dy Velocidade Y (ponto fixo).
+   *
+   * @return {boolean}
+   */
+  setVelocity(entity: Entity, dx: i32, dy: i32): boolean {
+    if(!this.alive(entity)) {
+      return false;
+    }
+
+    let slot: i32 = this.velocity.add(World.index(entity));
+
+    this.velocity.dx[slot] = dx;
+    this.velocity.dy[slot] = dy;
+    return true;
+  }
+
+  /**
+   * Define a caixa de colisão de uma entidade.
+   *
+   * @param {Entity} entity Entidade.
+   * @param {i32} left Posição esquerda.
+   * @param {i32} top Posição superior.
+   * @param {i32} right Posição direita.
+   * @param {i32} bottom Posição inferior.
+   *
+   * @return {boolean}
+   */
+  setHitbox(entity: Entity, left: i32, top: i32, right: i32, bottom: i32): boolean {
+    if(!this.alive(entity)) {
+      return false;
+    }
+
+    let slot: i32 = this.hitbox.add(World.index(entity));
+
+    this.hitbox.left[slot]   = left;
+    this.hitbox.top[slot]    = top;
+    this.hitbox.right[slot]  = right;
+    this.hitbox.bottom[slot] = bottom;
+    return true;
+  }
+
+  /**
+   * Define o quadro de animação desenhado para uma entidade.
+   *
+   * @param {Entity} entity Entidade.
+   * @param {u8} sheet Índice da folha de sprites.
+   * @param {i16} frame Índice do quadro de animação.
+   * @param {u16} colors Ordem de cores da paleta.
+   * @param {boolean} flipX Inverte o quadro horizontalmente.
+   * @param {boolean} flipY Inverte o quadro verticalmente.
+   *
+   * @return {boolean}
+   */
+  setRender(entity: Entity, sheet: u8, frame: i16, colors: u16 = 0x4321, flipX: boolean = false, flipY: boolean = false): boolean {
+    if(!this.alive(entity)) {
+      return false;
+    }
+
+    let slot: i32 = this.render.add(World.index(entity));
+
+    this.render.sheet[slot]  = sheet;
+    this.render.frame[slot]  = frame;
+    this.render.colors[slot] = colors;
+    this.render.flip[slot]   = (flipX? 1: 0) | (flipY? 2: 0);
+    return true;
+  }
+
+  /**
+   * Adiciona uma folha de sprites, usada pelo componente de desenho.
+   *
+   * @param {Spritesheet} spritesheet Folha de sprites.
+   *
+   * @return {u8} Índice da folha de sprites.
+   */
+  addSpritesheet(spritesheet: Spritesheet): u8 {
+    this.spritesheets.push(spritesheet);
+    return (this.spritesheets.length - 1) as u8;
+  }
+
+  /**
+   * Adiciona um sistema. Os sistemas são executados em ordem de adição.
+   *
+   * @param {System} system Sistema.
+   *
+   * @return {System}
+   */
+  addSystem(system: System): System {
+    this.systems.push(system);
+    return system;
+  }
+
+  /**
+   * Checa a intersecção entre as caixas de colisão de duas entidades.
+   *
+   * @param {Entity} a Primeira entidade.
+   * @param {Entity} b Segunda entidade.
+   *
+   * @return {boolean}
+   */
+  overlaps(a: Entity, b: Entity): boolean {
+    if(!this.has(a, COMPONENT_POSITION | COMPONENT_HITBOX) || !this.has(b, COMPONENT_POSITION | COMPONENT_HITBOX)) {
+      return false;
+    }
+
+    let hitbox: HitboxStore = this.hitbox;
+    let ha: i32 = hitbox.slot(World.index(a));
+    let hb: i32 = hitbox.slot(World.index(b));
+    let ax: i32 = this.getX(a);
+    let ay: i32 = this.getY(a);
+    let bx: i32 = this.getX(b);
+    let by: i32 = this.getY(b);
+
+    return (
+      ax + hitbox.left[ha]   < bx + hitbox.right[hb]  &&
+      ax + hitbox.right[ha]  > bx + hitbox.left[hb]   &&
+      ay + hitbox.top[ha]    < by + hitbox.bottom[hb] &&
+      ay + hitbox.bottom[ha] > by + hitbox.top[hb]
+    );
+  }
+
+  /**
+   * Checa a intersecção entre a caixa de colisão de uma entidade e a de um
+   * sprite (de qualquer formato).
+   *
+   * @param {Entity} entity Entidade.
+   * @param {Sprite} sprite Sprite.
+   *
+   * @return {boolean}
+   */
+  overlapsSprite(entity: Entity, sprite: Sprite): boolean {
+    if(!this.has(entity, COMPONENT_POSITION | COMPONENT_HITBOX) || sprite._destroyed) {
+      return false;
+    }
+
+    let box : Hitbox = this._box;
+    let slot: i32    = this.hitbox.slot(World.index(entity));
+
+    box.left   = this.hitbox.left[slot];
+    box.top    = this.hitbox.top[slot];
+    box.right  = this.hitbox.right[slot];
+    box.bottom = this.hitbox.bottom[slot];
+
+    return Hitbox.overlaps(box, this.getX(entity), this.getY(entity), sprite.hitbox, sprite.x, sprite.y);
+  }
+
+  /**
+   * Executa o update de todos os sistemas ativos e, em seguida, remove as
+   * entidades destruídas.
+   */
+  update(): void {
+    for(let index: i32 = 0; index < this.systems.length; index += 1) {
+      let system: System = this.systems[index];
+
+      if(system.active) {
+        system.update(this);
+      }
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Executa o desenho de todos os sistemas ativos.
+   */
+  draw(): void {
+    for(let index: i32 = 0; index < this.systems.length; index += 1) {
+      let system: System = this.systems[index];
+
+      if(system.active) {
+        system.draw(this);
+      }
+    }
+  }
+}
+
+// ==========================================================================
+// event_bus.ts
+// ==========================================================================
+/** Função acionada ao receber um evento. */
+export type EventHandler = (event: SceneEvent, owner: Sprite | null) => void;
+
+/**
+ * @class EventPayload
+ *
+ * @description
+ * Base dos dados de eventos. Estenda esta classe para enviar dados tipados,
+ * e converta-os ao recebê-los (`event.payload as MyPayload`).
+ */
+export class EventPayload {
+  // ...
+}
+
+/**
+ * @class SceneEvent
+ *
+ * @description
+ * Evento enfileirado no barramento de eventos. Os objetos de evento são
+ * reaproveitados, portanto não devem ser guardados após a entrega.
+ */
+export class SceneEvent {
+  /** Identificador do evento. */
+  id: u32;
+
+  /** Dados do evento. */
+  payload: EventPayload | null;
+
+  /** Valor numérico (para eventos simples, sem dados). */
+  value: i32;
+
+  /** Sprite que emitiu o evento. */
+  sender: Sprite | null;
+
+  /**
+   * @constructor
+   */
+  constructor() {
+    this.id      = 0;
+    this.payload = null;
+    this.value   = 0;
+    this.sender  = null;
+  }
+}
+
+/**
+ * @class EventSubscription
+ *
+ * @description
+ * Inscrição em um evento. Também serve como identificador para cancelá-la.
+ */
+export class EventSubscription {
+  /** Identificador do evento. */
+  id: u32;
+
+  /** Função acionada. */
+  handler: EventHandler;
+
+  /** Sprite inscrito. A inscrição é cancelada quando ele for destruído. */
+  owner: Sprite | null;
+
+  /** Geração do sprite inscrito (para detectar reaproveitamento por pools). */
+  generation: u32;
+
+  /** Indica se a inscrição está ativa. */
+  active: boolean;
+
+  /**
+   * @constructor
+   *
+   * @param {u32} id Identificador do evento.
+   * @param {EventHandler} handler Função acionada.
+   * @param {Sprite | null} owner Sprite inscrito.
+   */
+  constructor(id: u32, handler: EventHandler, owner: Sprite | null) {
+    this.id         = id;
+    this.handler    = handler;
+    this.owner      = owner;
+    this.generation = owner !== null? owner.generation: 0;
+    this.active     = true;
+  }
+
+  /**
+   * Retorna se a inscrição continua válida (ativa, e com o sprite inscrito
+   * ainda existente).
+   *
+   * @return {boolean}
+   */
+  valid(): boolean {
+    let owner: Sprite | null = this.owner;
+
+    if(owner !== null && (owner._destroyed || owner.generation !== this.generation)) {
+      this.active = false;
+    }
+
+    return this.active;
+  }
+}
+
+/**
+ * @class EventBus
+ *
+ * @description
+ * Barramento de eventos de uma cena. Eventos emitidos são enfileirados e
+ * entregues de uma só vez, em um ponto fixo do game loop (após os eventos de
+ * colisão). Eventos emitidos durante a entrega são entregues no game loop
+ * seguinte.
+ */
+export class EventBus {
+  /** Inscrições. */
+  subscriptions: EventSubscription[];
+
+  /** Fila de eventos (objetos reaproveitados). */
+  queue: SceneEvent[];
+
+  /** Quantidade de eventos na fila. */
+  count: i32;
+
+  /** Fila de eventos em entrega. */
+  _queue: SceneEvent[];
+
+  /**
+   * @constructor
+   */
+  constructor() {
+    this.subscriptions = [];
+    this.queue  = [];
+    this.count  = 0;
+    this._queue = [];
+  }
+
+  /**
+   * Enfileira um evento.
+   *
+   * @param {u32} id Identificador do evento.
+   * @param {EventPayload | null} payload Dados do evento.
+   * @param {i32} value Valor numérico.
+   * @param {Sprite | null} sender Sprite que emitiu o evento.
+   *
+   * @return {SceneEvent}
+   */
+  emit(id: u32, payload: EventPayload | null = null, value: i32 = 0, sender: Sprite | null = null): SceneEvent {
+    // Reaproveitar objetos de evento...
+    if(this.count === this.queue.length) {
+      this.queue.push(new SceneEvent());
+    }
+
+    let event: SceneEvent = this.queue[this.count];
+
+    event.id      = id;
+    event.payload = payload;
+    event.value   = value;
+    event.sender  = sender;
+
+    this.count += 1;
+    return event;
+  }
+
+  /**
+   * Inscreve uma função em um evento.
+   *
+   * @param {u32} id Identificador do evento.
+   * @param {EventHandler} handler Função acionada.
+   * @param {Sprite | null} owner Sprite inscrito.
+   *
+   * @return {EventSubscription}
+   */
+  on(id: u32, handler: EventHandler, owner: Sprite | null = null): EventSubscription {
+    let subscription: EventSubscription = new EventSubscription(id, handler, owner);
+
+    this.subscriptions.push(subscription);
+    return subscription;
+  }
+
+  /**
+   * Cancela uma inscrição.
+   *
+   * @param {EventSubscription} subscription Inscrição.
+   *
+   * @return {boolean}
+   */
+  off(subscription: EventSubscription): boolean {
+    let active: boolean = subscription.active;
+
+    subscription.active = false;
+    return active;
+  }
+
+  /**
+   * Cancela todas as inscrições de um sprite.
+   *
+   * @param {Sprite} owner Sprite inscrito.
+   */
+  offOwner(owner: Sprite): void {
+    for(let index: i32 = 0; index < this.subscriptions.length; index += 1) {
+      let subscription: EventSubscription = this.subscriptions[index];
+
+      if(subscription.owner === owner) {
+        subscription.active = false;
+      }
+    }
+  }
+
+  /**
+   * Cancela todas as inscrições e descarta os eventos enfileirados.
+   */
+  clear(): void {
+    for(let index: i32 = 0; index < this.subscriptions.length; index += 1) {
+      this.subscriptions[index].active = false;
+    }
+
+    for(let index: i32 = 0; index < this.count; index += 1) {
+      this.queue[index].payload = null;
+      this.queue[index].sender  = null;
+    }
+
+    this.count = 0;
+  }
+
+  /**
+   * Entrega os eventos enfileirados e remove as inscrições canceladas (ou de
+   * sprites destruídos).
+   */
+  deliver(): void {
+    // Trocar filas (novos eventos vão para a outra fila)...
+    let queue: SceneEvent[] = this.queue;
+    let count: i32          = this.count;
+
+    this.queue  = this._queue;
+    this._queue = queue;
+    this.count  = 0;
+
+    // Inscrições feitas durante a entrega só recebem eventos futuros.
+    let length: i32 = this.subscriptions.length;
+
+    for(let item: i32 = 0; item < count; item += 1) {
+      let event: SceneEvent = queue[item];
+
+      for(let index: i32 = 0; index < length; index += 1) {
+        let subscription: EventSubscription = this.subscriptions[index];
+
+        if(subscription.id === event.id && subscription.valid()) {
+          subscription.handler(event, subscription.owner);
+        }
+      }
+
+      // Liberar referências:
+      event.payload = null;
+      event.sender  = null;
+    }
+
+    // Remover inscrições inválidas (sem alocações)...
+    let active: i32 = 0;
+
+    for(let index: i32 = 0; index < this.subscriptions.length; index += 1) {
+      let subscription: EventSubscription = this.subscriptions[index];
+
+      if(subscription.valid()) {
+        this.subscriptions[active] = subscription;
+        active += 1;
+      }
+    }
+
+    this.subscriptions.length = active;
+  }
+}
+
+// ==========================================================================
+// spatial_hash.ts
+// ==========================================================================
+/** Quantidade de baldes da tabela espacial (potência de 2). */
+const SPATIAL_HASH_BUCKETS: i32 = 128;
+
+/** Capacidade inicial de entradas da tabela espacial. */
+const SPATIAL_HASH_CAPACITY: i32 = 256;
+
+/**
+ * @class SpatialHash
+ *
+ * @description
+ * Tabela espacial de grade uniforme, usada para acelerar consultas de
+ * colisão entre sprites. As entradas são guardadas em listas encadeadas
+ * dentro de arrays pré-alocadas, e são reaproveitadas a cada reconstrução.
+ */
+export class SpatialHash {
+  /** Tamanho de cada célula da grade. */
+  cellSize: i32;
+
+  /** Primeira entrada de cada balde (ou `-1`, quando vazio). */
+  heads: Int32Array;
+
+  /** Próxima entrada de cada entrada (ou `-1`, no fim da lista). */
+  next: Int32Array;
+
+  /** Sprite de cada entrada. */
+  entries: Sprite[];
+
+  /** Quantidade de entradas em uso. */
+  count: i32;
+
+  /** Marca da consulta atual. Evita resultados repetidos. */
+  stamp: u32;
+
+  /** Resultados da última consulta (reaproveitados entre consultas). */
+  results: Sprite[];
+
+  /**
+   * @constructor
+   *
+   * @param {i32} cellSize Tamanho de cada célula da grade.
+   */
+  constructor(cellSize: i32 = 32) {
+    this.cellSize = cellSize > 0? cellSize: 1;
+    this.heads    = new Int32Array(SPATIAL_HASH_BUCKETS);
+    this.next     = new Int32Array(SPATIAL_HASH_CAPACITY);
+    this.entries  = [];
+    this.count    = 0;
+    this.stamp    = 0;
+    this.results  = [];
+
+    this.heads.fill(-1);
+  }
+
+  /**
+   * Calcula o balde de uma célula da grade.
+   *
+   * @param {i32} column Coluna da célula.
+   * @param {i32} row Linha da célula.
+   *
+   * @return {i32}
+   */
+  bucket(column: i32, row: i32): i32 {
+    return ((column * 73856093) ^ (row * 19349663)) & (SPATIAL_HASH_BUCKETS - 1);
+  }
+
+  /**
+   * Calcula a célula equivalente a uma posição (arredondando para baixo,
+   * inclusive em posições negativas).
+   *
+   * @param {i32} value Posição.
+   *
+   * @return {i32}
+   */
+  cell(value: i32): i32 {
+    return Math.floor((value as f64) / (this.cellSize as f64)) as i32;
+  }
+
+  /**
+   * Remove todas as entradas, mantendo a memória alocada.
+   */
+  clear(): void {
+    this.heads.fill(-1);
+    this.count = 0;
+  }
+
+  /**
+   * Adiciona uma entrada em um balde.
+   *
+   * @param {i32} bucket Balde.
+   * @param {Sprite} sprite Sprite.
+   */
+  add(bucket: i32, sprite: Sprite): void {
+    // Expandir capacidade, apenas quando necessário...
+    if(this.count >= this.next.length) {
+      let next: Int32Array = new Int32Array(this.next.length * 2);
+          next.set(this.next);
+
+      this.next = next;
+    }
+
+    // Reaproveitar entradas existentes...
+    if(this.count < this.entries.length) {
+      this.entries[this.count] = sprite;
+    }
+    else {
+      this.entries.push(sprite);
+    }
+
+    this.next[this.count] = this.heads[bucket];
+    this.heads[bucket]    = this.count;
+    this.count += 1;
+  }
+
+  /**
+   * Insere um sprite em todas as células ocupadas por sua caixa de colisão.
+   *
+   * @param {Sprite} sprite Sprite.
+   */
+  insert(sprite: Sprite): void {
+    let left  : i32 = this.cell(sprite.x + sprite.hitbox.left);
+    let top   : i32 = this.cell(sprite.y + sprite.hitbox.top);
+    let right : i32 = this.cell(sprite.x + sprite.hitbox.right  - 1);
+    let bottom: i32 = this.cell(sprite.y + sprite.hitbox.bottom - 1);
+
+    for(let row: i32 = top; row <= bottom; row += 1) {
+      for(let column: i32 = left; column <= right; column += 1) {
+        this.add(this.bucket(column, row), sprite);
+      }
+    }
+  }
+
+  /**
+   * Obtém todos os sprites cujas caixas de colisão tocam uma área
+   * retangular. A lista retornada é reaproveitada pela próxima consulta.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   * @param {string | null} tag Tag dos sprites (ou `null`, para todos).
+   *
+   * @return {Sprite[]}
+   */
+  query(x: i32, y: i32, width: i32, height: i32, tag: string | null = null): Sprite[] {
+    this.results.length = 0;
+    this.stamp += 1;
+
+    let left  : i32 = this.cell(x);
+    let top   : i32 = this.cell(y);
+    let right : i32 = this.cell(x + width  - 1);
+    let bottom: i32 = this.cell(y + height - 1);
+
+    // Percorrer células da área...
+    for(let row: i32 = top; row <= bottom; row += 1) {
+      for(let column: i32 = left; column <= right; column += 1) {
+        let entry: i32 = this.heads[this.bucket(column, row)];
+
+        // Percorrer entradas do balde...
+        while(entry >= 0) {
+          let sprite: Sprite = this.entries[entry];
+          entry = this.next[entry];
+
+          // Ignorar sprites já checados nesta consulta:
+          if(sprite._hashStamp === this.stamp) {
+            continue;
+          }
+
+          sprite._hashStamp = this.stamp;
+
+          // Ignorar sprites de outras tags:
+          if(tag !== null && sprite.tag !== tag) {
+            continue;
+          }
+
+          // Incluir apenas sprites que realmente tocam a área:
+          if(
+            sprite.x + sprite.hitbox.left   < x + width  &&
+            sprite.x + sprite.hitbox.right  > x          &&
+            sprite.y + sprite.hitbox.top    < y + height &&
+            sprite.y + sprite.hitbox.bottom > y
+          ) {
+            this.results.push(sprite);
+          }
+        }
+      }
+    }
+
+    return this.results;
+  }
+}
+
+// ==========================================================================
+// sprite_hit.ts
+// ==========================================================================
+/**
+ * @class SpriteHit
+ *
+ * @description
+ * Resultado de um raio disparado contra os sprites de uma cena.
+ */
+export class SpriteHit {
+  /** Sprite atingido. */
+  sprite: Sprite | null;
+
+  /** Posição X do impacto (em pixels). */
+  x: f32;
+
+  /** Posição Y do impacto (em pixels). */
+  y: f32;
+
+  /** Distância percorrida pelo raio até o impacto. */
+  distance: f32;
+
+  /**
+   * @constructor
+   */
+  constructor() {
+    this.sprite   = null;
+    this.x        = 0;
+    this.y        = 0;
+    this.distance = 0;
+  }
+
+  /**
+   * Calcula a distância até a entrada de um raio em um retângulo.
+   *
+   * @param {f32} x Posição X de origem.
+   * @param {f32} y Posição Y de origem.
+   * @param {f32} dirX Direção X (normalizada).
+   * @param {f32} dirY Direção Y (normalizada).
+   * @param {f32} left Posição esquerda.
+   * @param {f32} top Posição superior.
+   * @param {f32} right Posição direita.
+   * @param {f32} bottom Posição inferior.
+   *
+   * @return {f32} Distância (ou `-1`, quando o raio não atinge o retângulo).
+   */
+  static rect(x: f32, y: f32, dirX: f32, dirY: f32, left: f32, top: f32, right: f32, bottom: f32): f32 {
+    let near: f32 = 0;
+    let far : f32 = f32.MAX_VALUE;
+
+    // Eixo X (raio paralelo: precisa estar entre os limites)...
+    if(dirX === 0) {
+      if(x < left || x >= right) {
+        return -1;
+      }
+    }
+    else {
+      let t1: f32 = (left  - x) / dirX;
+      let t2: f32 = (right - x) / dirX;
+
+      near = Mathf.max(near, Mathf.min(t1, t2));
+      far  = Mathf.min(far,  Mathf.max(t1, t2));
+    }
+
+    // ...e eixo Y:
+    if(dirY === 0) {
+      if(y < top || y >= bottom) {
+        return -1;
+      }
+    }
+    else {
+      let t1: f32 = (top    - y) / dirY;
+      let t2: f32 = (bottom - y) / dirY;
+
+      near = Mathf.max(near, Mathf.min(t1, t2));
+      far  = Mathf.min(far,  Mathf.max(t1, t2));
+    }
+
+    return near <= far? near: -1;
+  }
+
+  /**
+   * Calcula a distância até a entrada de um raio em uma caixa de colisão (de
+   * qualquer formato).
+   *
+   * @param {Hitbox} hitbox Caixa de colisão.
+   * @param {i32} hx Posição X da caixa de colisão.
+   * @param {i32} hy Posição Y da caixa de colisão.
+   * @param {f32} x Posição X de origem.
+   * @param {f32} y Posição Y de origem.
+   * @param {f32} dirX Direção X (normalizada).
+   * @param {f32} dirY Direção Y (normalizada).
+   * @param {f32} maxDistance Distância máxima.
+   *
+   * @return {f32} Distância (ou `-1`, quando o raio não atinge a caixa).
+   */
+  static hitbox(hitbox: Hitbox, hx: i32, hy: i32, x: f32, y: f32, dirX: f32, dirY: f32, maxDistance: f32): f32 {
+    // Checagem rápida pelos limites...
+    let near: f32 = SpriteHit.rect(
+      x, y, dirX, dirY,
+      (hx + hitbox.left)  as f32,
+      (hy + hitbox.top)   as f32,
+      (hx + hitbox.right) as f32,
+      (hy + hitbox.bottom) as f32
+    );
+
+    if(near < 0 || near > maxDistance || hitbox.kind === HITBOX_RECT) {
+      return near > maxDistance? -1: near;
+    }
+
+    // Caixas combinadas: a mais próxima...
+    if(hitbox.kind === HITBOX_MULTI) {
+      let boxes: Hitbox[] = (hitbox as MultiHitbox).boxes;
+      let best : f32      = -1;
+
+      for(let index: i32 = 0; index < boxes.length; index += 1) {
+        let distance: f32 = SpriteHit.hitbox(boxes[index], hx, hy, x, y, dirX, dirY, maxDistance);
+
+        if(distance >= 0 && (best < 0 || distance < best)) {
+          best = distance;
+        }
+      }
+
+      return best;
+    }
+
+    // Círculos (equação do segundo grau)...
+    if(hitbox.kind === HITBOX_CIRCLE) {
+      let circle : CircleHitbox = hitbox as CircleHitbox;
+      let offsetX: f32 = x - ((hx + circle.centerX) as f32);
+      let offsetY: f32 = y - ((hy + circle.centerY) as f32);
+      let radius : f32 = circle.radius as f32;
+      let b      : f32 = (offsetX * dirX) + (offsetY * dirY);
+      let c      : f32 = (offsetX * offsetX) + (offsetY * offsetY) - (radius * radius);
+
+      // Origem dentro do círculo:
+      if(c <= 0) {
+        return 0;
+      }
+
+      let discriminant: f32 = (b * b) - c;
+
+      if(b > 0 || discriminant < 0) {
+        return -1;
+      }
+
+      let distance: f32 = -b - Mathf.sqrt(discriminant);
+      return distance <= maxDistance? distance: -1;
+    }
+
+    // Máscaras: percorrer o raio (meio pixel por vez) até um pixel sólido...
+    if(hitbox.kind === HITBOX_MASK) {
+      let mask: MaskHitbox = hitbox as MaskHitbox;
+      let far : f32 = Mathf.min(maxDistance, near + (((mask.right - mask.left) + (mask.bottom - mask.top)) as f32));
+
+      for(let distance: f32 = near; distance <= far; distance += 0.5) {
+        let pixelX: i32 = (Mathf.floor(x + (dirX * distance)) as i32) - (hx + mask.left);
+        let pixelY: i32 = (Mathf.floor(y + (dirY * distance)) as i32) - (hy + mask.top);
+
+        if(mask.solid(pixelX, pixelY)) {
+          return distance;
+        }
+      }
+
+      return -1;
+    }
+
+    return near;
+  }
+}
+
+// ==========================================================================
+// scene.ts
+// ==========================================================================
+/** Lista vazia compartilhada, retornada por tags inexistentes. */
+const SCENE_EMPTY_TAG: Sprite[] = [];
+
+/**
+ * @class Scene
+ *
+ * @description
+ * Representa uma cena de jogo.
+ */
+export class Scene {
+  /** Tag. */
+  tag: string;
+
+  /** Lista de sprites do jogo. */
+  sprites: Sprite[];
+
+  /**
+   * UIDs. Mantidas incrementalmente: sprites novos são indexados no início
+   * do game loop, e sprites destruídos são removidos junto com a lista.
+   */
+  uids: Map<u32, Sprite>;
+
+  /** Tags. Mantidas incrementalmente, como as UIDs. */
+  tags: Map<string, Sprite[]>;
+
+  /** Gerenciador de cenas ao qual esta cena pertence. */
+  core: Core | null;
+
+  /** Quando `true`, continua desenhando esta cena enquanto estiver pausada. */
+  drawWhenPaused: boolean;
+
+  /** Quando `false`, os controles permanecem inertes durante o game loop. */
+  input: boolean;
+
+  /**
+   * Quando `true`, sprites de mesma profundidade são desenhados de acordo com
+   * sua base (Y + altura). Útil para jogos com visão de cima.
+   */
+  ySort: boolean;
+
+  /** Lista de desenho (ordenada por profundidade). */
+  drawList: Sprite[];
+
+  /** Resultado de `raycast()` (reutilizado a cada chamada). */
+  hit: SpriteHit;
+
+  /** Resultado de `findInRadius()` e `findInRect()` (reutilizado). */
+  _found: Sprite[];
+
+  /** Círculo temporário (usado por `findInRadius()`). */
+  _circle: CircleHitbox;
+
+  /** Retângulo temporário (usado por `findInRect()`). */
+  _box: Hitbox;
+
+  /** Câmera desta cena. É atualizada após os updates dos sprites. */
+  camera: Camera | null;
+
+  /**
+   * Emissores de partículas. São atualizados após os updates dos sprites e
+   * desenhados logo após eles.
+   */
+  emitters: ParticleEmitter[];
+
+  /**
+   * Tweens em andamento. São avançados após os updates dos sprites, e
+   * removidos ao serem concluídos (ou quando seus sprites forem destruídos).
+   */
+  tweens: Tween[];
+
+  /** Agendador de timers e rotinas. É avançado após os tweens. */
+  scheduler: Scheduler;
+
+  /** Barramento de eventos. É entregue após os eventos de colisão. */
+  bus: EventBus;
+
+  /**
+   * Mundos ECS hospedados pela cena. São atualizados após o agendador, e
+   * desenhados logo após os sprites.
+   */
+  worlds: World[];
+
+  /**
+   * Tabela espacial das caixas de colisão. É reconstruída no início de cada
+   * game loop, portanto sprites criados durante o loop só são incluídos no
+   * loop seguinte.
+   */
+  hash: SpatialHash;
+
+  /** Indica se os controles foram bloqueados pelo gerenciador de cenas. */
+  _inputBlocked: boolean;
+
+  /** Indica se o evento de criação já foi acionado. */
+  _created: boolean;
+
+  /**
+   * @constructor
+   */
+  constructor() {
+    this.tag = "Scene";
+    this.sprites = [];
+    this.uids = new Map<u32, Sprite>();
+    this.tags = new Map<string, Sprite[]>();
+    this.core = null;
+    this.drawWhenPaused = false;
+    this.input = true;
+    this.ySort = false;
+    this.drawList = [];
+    this.hit = new SpriteHit();
+    this._found = [];
+    this._circle = new CircleHitbox(0, 0, 0);
+    this._box = new Hitbox(0, 0, 0, 0);
+    this.camera = null;
+    this.emitters = [];
+    this.tweens = [];
+    this.scheduler = new Scheduler();
+    this.worlds = [];
+    this.bus = new EventBus();
+    this.hash = new SpatialHash();
+    this._inputBlocked = false;
+    this._created = false;
+  }
+
+  /**
+   * Retorna se uma UID existe.
+   *
+   * @param {u32} uid UID.
+   *
+   * @return {boolean}
+   */
+  hasUID(uid: u32): boolean {
+    return this.uids.has(uid);
+  }
+
+  /**
+   * Obtém um sprite por sua UID.
+   *
+   * @param {u32} uid UID.
+   *
+   * @return {Sprite}
+   */
+  getUID(uid: u32): Sprite {
+    if(this.hasUID(uid)) {
+      return this.uids.get(uid);
+    }
+
+    return null;
+  }
+
+  /**
+   * Obtém o sprite de uma referência segura.
+   *
+   * @param {SpriteHandle} handle Referência.
+   *
+   * @return {Sprite | null} Sprite (ou `null`, caso tenha sido destruído ou
+   *         reaproveitado por um pool).
+   */
+  resolve(handle: SpriteHandle): Sprite | null {
+    let uid: u32 = handle as u32;
+
+    if(!this.uids.has(uid)) {
+      return null;
+    }
+
+    let sprite: Sprite = this.uids.get(uid);
+
+    // Descartar sprites destruídos ou de outra geração:
+    if(sprite._destroyed || sprite.generation !== ((handle >> 32) as u32)) {
+      return null;
+    }
+
+    return sprite;
+  }
+
+  /**
+   * Retorna se uma tag existe e possui ao menos um sprite rotulado.
+   *
+   * @param {string} tag Tag.
+   *
+   * @return {boolean}
+   */
+  hasTag(tag: string): boolean {
+    return this.tags.has(tag) && this.tags.get(tag).length > 0;
+  }
+
+  /**
+   * Obtém todos os sprites rotulados por uma tag específica.
+   *
+   * @param {string} tag Tag.
+   *
+   * @return {Sprite[]} Sprites rotulados. Quando a tag não existir, retorna
+   *         uma lista vazia compartilhada (que não deve ser modificada).
+   */
+  getTag(tag: string): Sprite[] {
+    if(this.hasTag(tag)) {
+      return this.tags.get(tag);
+    }
+
+    return SCENE_EMPTY_TAG;
+  }
+
+  /**
+   * Adiciona um sprite aos índices de UIDs e tags.
+   *
+   * @param {Sprite} sprite Sprite.
+   */
+  indexSprite(sprite: Sprite): void {
+    let uid: u32    = sprite.uid;
+    let tag: string = sprite.tag;
+
+    // Salvar UID deste sprite:
+    if(!this.uids.has(uid)) {
+      this.uids.set(uid, sprite);
+    }
+
+    // Criar identificador, caso não exista...
+    if(!this.tags.has(tag)) {
+      this.tags.set(tag, []);
+    }
+
+    // Classificar este sprite:
+    this.tags.get(tag).push(sprite);
+
+    sprite._indexed = true;
+    sprite._indexedTag = tag;
+    sprite._retag = false;
+  }
+
+  /**
+   * Remove um sprite dos índices de UIDs e tags.
+   *
+   * @param {Sprite} sprite Sprite.
+   */
+  unindexSprite(sprite: Sprite): void {
+    if(!sprite._indexed) {
+      return;
+    }
+
+    let uid: u32 = sprite.uid;
+
+    // Remover UID (apenas quando pertencer a este sprite):
+    if(this.uids.has(uid) && this.uids.get(uid) === sprite) {
+      this.uids.delete(uid);
+    }
+
+    // Remover sprite da lista de sua tag (trocando-o pelo último sprite da
+    // lista, sem preservar a ordem):
+    let tag: string = sprite._indexedTag;
+
+    if(this.tags.has(tag)) {
+      let list : Sprite[] = this.tags.get(tag);
+      let index: i32      = list.indexOf(sprite);
+
+      if(index !== -1) {
+        list[index] = list[list.length - 1];
+        list.length -= 1;
+      }
+    }
+
+    sprite._indexed = false;
+    sprite._indexedTag = "";
+  }
+
+  /**
+   * Sincroniza os índices de UIDs e tags: indexa sprites novos (adicionando
+   * à cena os filhos que ainda não estão nela) e reclassifica sprites que
+   * trocaram de tag (com `Sprite.setTag()`). Não aloca memória quando nada
+   * mudou.
+   */
+  updateIndexes(): void {
+    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
+      let sprite: Sprite = this.sprites[index];
+
+      // Sprite que trocou de tag...
+      if(sprite._retag) {
+        this.unindexSprite(sprite);
+      }
+
+      // Sprite novo (ou reclassificado):
+      if(!sprite._indexed) {
+        this.indexSprite(sprite);
+      }
+    }
+
+    // Adicionar filhos que ainda não estão na cena (todos os sprites da
+    // lista já foram indexados, então basta checar a indexação). Os filhos
+    // adicionados também são percorridos, incluindo seus próprios filhos:
+    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
+      let sprite: Sprite = this.sprites[index];
+
+      for(let child: i32 = 0; child < sprite.children.length; child += 1) {
+        let item: Sprite = sprite.children[child];
+
+        if(!item._indexed && !item._destroyed) {
+          this.sprites.push(item);
+          this.indexSprite(item);
+        }
+      }
+    }
+  }
+
+  /**
+   * Retorna se um sprite participa de uma consulta por tag (tags vazias
+   * incluem todos os sprites ativos).
+   *
+   * @param {Sprite} sprite Sprite.
+   * @param {string} tag Tag.
+   *
+   * @return {boolean}
+   */
+  matchesTag(sprite: Sprite, tag: string): boolean {
+    return !sprite._destroyed && (tag.length === 0 || sprite.tag == tag);
+  }
+
+  /**
+   * Obtém o sprite de uma tag mais próximo de um ponto (pelo centro).
+   *
+   * @param {string} tag Tag (vazia para todos os sprites).
+   * @param {Vec2} point Ponto.
+   * @param {Sprite | null} exclude Sprite ignorado (ex: o próprio sprite).
+   *
+   * @return {Sprite | null}
+   */
+  findNearest(tag: string, point: Vec2, exclude: Sprite | null = null): Sprite | null {
+    let sprites: Sprite[]      = tag.length > 0? this.getTag(tag): this.sprites;
+    let nearest: Sprite | null = null;
+    let best   : i64           = i64.MAX_VALUE;
+
+    for(let index: i32 = 0; index < sprites.length; index += 1) {
+      let sprite: Sprite = sprites[index];
+
+      if(sprite === exclude || !this.matchesTag(sprite, tag)) {
+        continue;
+      }
+
+      let dx: i64 = (sprite.x + (sprite.width  >> 1) - point.x) as i64;
+      let dy: i64 = (sprite.y + (sprite.height >> 1) - point.y) as i64;
+      let distance: i64 = (dx * dx) + (dy * dy);
+
+      if(distance < best) {
+        best    = distance;
+        nearest = sprite;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Obtém os sprites de uma tag cujas caixas de colisão tocam um círculo.
+   * A lista retornada é reaproveitada pela próxima consulta.
+   *
+   * @param {string} tag Tag (vazia para todos os sprites).
+   * @param {Vec2} point Centro do círculo.
+   * @param {i32} radius Raio.
+   *
+   * @return {Sprite[]}
+   */
+  findInRadius(tag: string, point: Vec2, radius: i32): Sprite[] {
+    let circle: CircleHitbox = this._circle;
+
+    circle.radius = radius;
+    circle.left   = -radius;
+    circle.top    = -radius;
+    circle.right  = radius;
+    circle.bottom = radius;
+
+    return this.findOverlapping(tag, circle, point.x, point.y);
+  }
+
+  /**
+   * Obtém os sprites de uma tag cujas caixas de colisão tocam um retângulo.
+   * A lista retornada é reaproveitada pela próxima consulta.
+   *
+   * @param {string} tag Tag (vazia para todos os sprites).
+   * @param {Viewport} rect Retângulo.
+   *
+   * @return {Sprite[]}
+   */
+  findInRect(tag: string, rect: Viewport): Sprite[] {
+    let box: Hitbox = this._box;
+
+    box.right  = rect.width;
+    box.bottom = rect.height;
+
+    return this.findOverlapping(tag, box, rect.x, rect.y);
+  }
+
+  /**
+   * Obtém os sprites de uma tag cujas caixas de colisão tocam uma caixa de
+   * colisão qualquer. A lista retornada é reaproveitada pela próxima consulta.
+   *
+   * @param {string} tag Tag (vazia para todos os sprites).
+   * @param {Hitbox} hitbox Caixa de colisão.
+   * @param {i32} x Posição X da caixa de colisão.
+   * @param {i32} y Posição Y da caixa de colisão.
+   *
+   * @return {Sprite[]}
+   */
+  findOverlapping(tag: string, hitbox: Hitbox, x: i32, y: i32): Sprite[] {
+    let sprites: Sprite[] = tag.length > 0? this.getTag(tag): this.sprites;
+    let results: Sprite[] = this._found;
+
+    results.length = 0;
+
+    for(let index: i32 = 0; index < sprites.length; index += 1) {
+      let sprite: Sprite = sprites[index];
+
+      if(this.matchesTag(sprite, tag) && Hitbox.overlaps(hitbox, x, y, sprite.hitbox, sprite.x, sprite.y)) {
+        results.push(sprite);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Dispara um raio contra os sprites desta cena, até atingir o primeiro
+   * (de acordo com o formato de sua caixa de colisão).
+   *
+   * @param {Vec2} origin Origem do raio.
+   * @param {Vec2} dir Direção do raio (não precisa ser normalizada).
+   * @param {f32} maxDistance Distância máxima (em pixels).
+   * @param {u32} mask Camadas de colisão atingidas pelo raio (bits).
+   * @param {Sprite | null} exclude Sprite ignorado (ex: o próprio atirador).
+   *
+   * @return {SpriteHit | null} Impacto (reutilizado a cada chamada), ou
+   *         `null` quando nenhum sprite for atingido.
+   */
+  raycast(origin: Vec2, dir: Vec2, maxDistance: f32, mask: u32 = 0xFFFFFFFF, exclude: Sprite | null = null): SpriteHit | null {
+    let length: f32 = Mathf.sqrt(((dir.x * dir.x) + (dir.y * dir.y)) as f32);
+
+    if(length === 0) {
+      return null;
+    }
+
+    let x   : f32 = origin.x as f32;
+    let y   : f32 = origin.y as f32;
+    let dirX: f32 = (dir.x as f32) / length;
+    let dirY: f32 = (dir.y as f32) / length;
+    let best: f32 = -1;
+    let hit : Sprite | null = null;
+
+    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
+      let sprite: Sprite = this.sprites[index];
+
+      if(sprite === exclude || sprite._destroyed || (sprite.layer & mask) === 0) {
+        continue;
+      }
+
+      let distance: f32 = SpriteHit.hitbox(sprite.hitbox, sprite.x, sprite.y, x, y, dirX, dirY, best < 0? maxDistance: best);
+
+      if(distance >= 0 && (best < 0 || distance < best)) {
+        best = distance;
+        hit  = sprite;
+      }
+    }
+
+    if(hit === null) {
+      return null;
+    }
+
+    let result: SpriteHit = this.hit;
+
+    result.sprite   = hit;
+    result.x        = x + (dirX * best);
+    result.y        = y + (dirY * best);
+    result.distance = best;
+
+    return result;
+  }
+
+  /**
+   * Reconstrói a tabela espacial com os sprites ativos.
+   */
+  rebuildHash(): void {
+    this.hash.clear();
+
+    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
+      let sprite: Sprite = this.sprites[index];
+
+      if(!sprite._destroyed) {
+        this.hash.insert(sprite);
+      }
+    }
+  }
+
+  /**
+   * Obtém os sprites cujas caixas de colisão tocam uma área retangular.
+   * A lista retornada é reaproveitada pela próxima consulta.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   *
+   * @return {Sprite[]}
+   */
+  queryRect(x: i32, y: i32, width: i32, height: i32): Sprite[] {
+    return this.hash.query(x, y, width, height);
+  }
+
+  /**
+   * Obtém os sprites cujas caixas de colisão contêm um ponto.
+   * A lista retornada é reaproveitada pela próxima consulta.
+   *
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   *
+   * @return {Sprite[]}
+   */
+  queryPoint(x: i32, y: i32): Sprite[] {
+    return this.hash.query(x, y, 1, 1);
+  }
+
+  /**
+   * Obtém os sprites de uma tag cujas caixas de colisão tocam uma área
+   * retangular. A lista retornada é reaproveitada pela próxima consulta.
+   *
+   * @param {string} tag Tag.
+   * @param {i32} x Posição X.
+   * @param {i32} y Posição Y.
+   * @param {i32} width Largura.
+   * @param {i32} height Altura.
+   *
+   * @return {Sprite[]}
+   */
+  queryTag(tag: string, x: i32, y: i32, width: i32, height: i32): Sprite[] {
+    return this.hash.query(x, y, width, height, tag);
+  }
+
+  /**
+   * Adiciona um emissor de partículas à cena.
+   *
+   * @param {ParticleEmitter} emitter Emissor de partículas.
+   *
+   * @return {ParticleEmitter} Tail call.
+   */
+  addEmitter(emitter: ParticleEmitter): ParticleEmitter {
+    if(!this.emitters.includes(emitter)) {
+      this.emitters.push(emitter);
+    }
+
+    return emitter;
+  }
+
+  /**
+   * Remove um emissor de partículas da cena.
+   *
+   * @param {ParticleEmitter} emitter Emissor de partículas.
+   *
+   * @return {boolean}
+   */
+  removeEmitter(emitter: ParticleEmitter): boolean {
+    let index: i32 = this.emitters.indexOf(emitter);
+
+    if(index < 0) {
+      return false;
+    }
+
+    this.emitters.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Atualiza os contatos entre sprites (broadphase pela tabela espacial,
+   * reconstruída com as posições após os updates) e aciona os eventos de
+   * colisão. Apenas sprites com máscara de colisão recebem eventos.
+   */
+  updateContacts(): void {
+    let rebuilt: boolean = false;
+
+    // Calcular contatos atuais...
+    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
+      let sprite: Sprite = this.sprites[index];
+
+      sprite._contacts.length = 0;
+
+      if(sprite.mask === 0 || sprite._destroyed) {
+        continue;
+      }
+
+      // Reconstruir tabela espacial (apenas uma vez, e se necessário):
+      if(!rebuilt) {
+        this.rebuildHash();
+        rebuilt = true;
+      }
+
+      let hitbox: Hitbox   = sprite.hitbox;
+      let others: Sprite[] = this.hash.query(
+        sprite.x + hitbox.left,
+        sprite.y + hitbox.top,
+        hitbox.right  - hitbox.left,
+        hitbox.bottom - hitbox.top
+      );
+
+      for(let position: i32 = 0; position < others.length; position += 1) {
+        let other: Sprite = others[position];
+
+        if(other !== sprite && sprite.collidesWith(other) && sprite.intersect(other)) {
+          sprite._contacts.push(other);
+        }
+      }
+    }
+
+    // Comparar com os contatos anteriores e acionar eventos...
+    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
+      let sprite  : Sprite   = this.sprites[index];
+      let previous: Sprite[] = sprite.contacts;
+      let current : Sprite[] = sprite._contacts;
+
+      for(let position: i32 = 0; position < current.length && !sprite._destroyed; position += 1) {
+        let other: Sprite = current[position];
+
+        if(previous.includes(other)) {
+          sprite.onCollisionStay(other);
+        }
+        else {
+          sprite.onCollisionEnter(other);
+        }
+      }
+
+      for(let position: i32 = 0; position < previous.length && !sprite._destroyed; position += 1) {
+        let other: Sprite = previous[position];
+
+        if(!current.includes(other)) {
+          sprite.onCollisionExit(other);
+        }
+      }
+
+      // Trocar listas (evita alocações):
+      sprite.contacts  = current;
+      sprite._contacts = previous;
+    }
+  }
+
+  /**
+   * Adiciona um tween à cena.
+   *
+   * @param {Tween} tween Tween.
+   *
+   * @return {Tween} Tail call.
+   */
+  addTween(tween: Tween): Tween {
+    if(!this.tweens.includes(tween)) {
+      this.tweens.push(tween);
+    }
+
+    return tween;
+  }
+
+  /**
+   * Remove (cancela) um tween da cena.
+   *
+   * @param {Tween} tween Tween.
+   *
+   * @return {boolean}
+   */
+  removeTween(tween: Tween): boolean {
+    let index: i32 = this.tweens.indexOf(tween);
+
+    if(index < 0) {
+      return false;
+    }
+
+    this.tweens.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Avança os tweens, removendo os concluídos ou cancelados.
+   */
+  updateTweens(): void {
+    let count: i32 = 0;
+
+    for(let index: i32 = 0; index < this.tweens.length; index += 1) {
+      let tween: Tween         = this.tweens[index];
+      let owner: Sprite | null = tween.owner;
+
+      // Tweens de sprites destruídos são cancelados...
+      if(owner !== null && owner._destroyed) {
+        continue;
+      }
+
+      // Manter apenas os tweens em andamento:
+      if(!tween.update()) {
+        this.tweens[count] = tween;
+        count += 1;
+      }
+    }
+
+    this.tweens.length = count;
+  }
+
+  /**
+   * Cancela os timers, rotinas, tweens, emissores e inscrições de eventos
+   * associados a um sprite.
+   *
+   * @param {Sprite} owner Sprite.
+   */
+  cancelOwner(owner: Sprite): void {
+    this.scheduler.cancelOwner(owner);
+    this.bus.offOwner(owner);
+
+    // Remover tweens do sprite...
+    let count: i32 = 0;
+
+    for(let index: i32 = 0; index < this.tweens.length; index += 1) {
+      let tween: Tween = this.tweens[index];
+
+      if(tween.owner !== owner) {
+        this.tweens[count] = tween;
+        count += 1;
+      }
+    }
+
+    this.tweens.length = count;
+
+    // ...e encerrar emissores presos a ele:
+    for(let index: i32 = 0; index < this.emitters.length; index += 1) {
+      let emitter: ParticleEmitter = this.emitters[index];
+
+      if(emitter.owner === owner) {
+        emitter.detach();
+        emitter.stop();
+      }
+    }
+  }
+
+  /**
+   * Emite um evento, entregue após os eventos de colisão deste game loop (ou
+   * do próximo, quando emitido durante a entrega).
+   *
+   * @param {u32} id Identificador do evento.
+   * @param {EventPayload | null} payload Dados do evento.
+   * @param {i32} value Valor numérico.
+   * @param {Sprite | null} sender Sprite que emitiu o evento.
+   *
+   * @return {SceneEvent}
+   */
+  emit(id: u32, payload: EventPayload | null = null, value: i32 = 0, sender: Sprite | null = null): SceneEvent {
+    return this.bus.emit(id, payload, value, sender);
+  }
+
+  /**
+   * Inscreve uma função em um evento. Quando um sprite é informado, a
+   * inscrição é cancelada automaticamente ao destruí-lo.
+   *
+   * @param {u32} id Identificador do evento.
+   * @param {EventHandler} handler Função acionada.
+   * @param {Sprite | null} owner Sprite inscrito.
+   *
+   * @return {EventSubscription}
+   */
+  on(id: u32, handler: EventHandler, owner: Sprite | null = null): EventSubscription {
+    return this.bus.on(id, handler, owner);
+  }
+
+  /**
+   * Cancela uma inscrição.
+   *
+   * @param {EventSubscription} subscription Inscrição.
+   *
+   * @return {boolean}
+   */
+  off(subscription: EventSubscription): boolean {
+    return this.bus.off(subscription);
+  }
+
+  /**
+   * Adiciona um mundo ECS à cena.
+   *
+   * @param {World} world Mundo.
+   *
+   * @return {World}
+   */
+  addWorld(world: World): World {
+    this.worlds.push(world);
+    return world;
+  }
+
+  /**
+   * Remove um mundo ECS da cena.
+   *
+   * @param {World} world Mundo.
+   *
+   * @return {boolean}
+   */
+  removeWorld(world: World): boolean {
+    let index: i32 = this.worlds.indexOf(world);
+
+    if(index === -1) {
+      return false;
+    }
+
+    this.worlds.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Desenha os mundos ECS.
+   */
+  drawWorlds(): void {
+    for(let index: i32 = 0; index < this.worlds.length; index += 1) {
+      this.worlds[index].draw();
+    }
+  }
+
+  /**
+   * Desenha os emissores de partículas.
+   */
+  drawEmitters(): void {
+    for(let index: i32 = 0; index < this.emitters.length; index += 1) {
+      this.emitters[index].draw();
+    }
+  }
+
+  /**
+   * Game loop.
+   */
+  loop(): void {
+    // Atualizar controles...
+    if(this.input && !this._inputBlocked) {
+      p1.update();
+      p2.update();
+      p3.update();
+      p4.update();
+      mouse.update();
+    }
+    // ...ou mantê-los inertes, quando bloqueados:
+    else {
+      p1.reset();
+      p2.reset();
+      p3.reset();
+      p4.reset();
+      mouse.reset();
+    }
+
+    // Indexar sprites novos (UIDs e tags):
+    this.updateIndexes();
+
+    // Reconstruir tabela espacial:
+    this.rebuildHash();
+
+    // Acionar evento de criação (apenas uma vez):
+    this.create();
+
+    // Acionar evento de update:
+    this.update();
+
+    // Percorrer sprites (update), seguidos de seus filhos...
+    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
+      let sprite: Sprite = this.sprites[index];
+
+      if(sprite.parent === null) {
+        this.updateSprite(sprite);
+      }
+    }
+
+    // Posicionar filhos (após os updates, para colisões em coordenadas globais):
+    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
+      let sprite: Sprite = this.sprites[index];
+
+      if(sprite.parent === null && sprite.children.length > 0) {
+        sprite.updateTransform();
+      }
+    }
+
+    // Quantidade de sprites ativos (a lista é compactada sem alocações).
+    let count: i32 = 0;
+
+    // Percorrer sprites (destruição)...
+    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
+      let sprite: Sprite = this.sprites[index];
+
+      // Caso o sprite continue ativo após os updates, ele continuará na
+      // lista no próximo loop...
+      if(!sprite._destroyed) {
+        this.sprites[count] = sprite;
+        count += 1;
+      }
+      // ...do contrário, removê-lo dos índices e acionar evento de destruição:
+      else {
+        this.unindexSprite(sprite);
+
+        if(sprite._created) {
+          sprite.contacts.length = 0;
+          sprite.onDestroy();
+        }
+
+        // Desvincular sprite de seu pai:
+        let parent: Sprite | null = sprite.parent;
+
+        if(parent !== null) {
+          parent.removeChild(sprite);
+        }
+
+        // Devolver sprite ao seu pool:
+        let pool: PoolBase | null = sprite.pool;
+
+        if(pool !== null) {
+          pool.release(sprite);
+        }
+      }
+    }
+
+    // Remover sprites destruídos...
+    this.sprites.length = count;
+
+    // Atualizar contatos (eventos de colisão):
+    this.updateContacts();
+
+    // Entregar eventos:
+    this.bus.deliver();
+
+    // Avançar tweens:
+    this.updateTweens();
+
+    // Avançar timers e rotinas:
+    this.scheduler.update();
+
+    // Atualizar mundos ECS:
+    for(let index: i32 = 0; index < this.worlds.length; index += 1) {
+      this.worlds[index].update();
+    }
+
+    // Atualizar partículas:
+    for(let index: i32 = 0; index < this.emitters.length; index += 1) {
+      this.emitters[index].update();
+    }
+
+    // Atualizar câmera:
+    let camera: Camera | null = this.camera;
+
+    if(camera !== null) {
+      camera.update();
+    }
+
+    // Percorrer sprites (desenho), em ordem de profundidade:
+    this.drawSprites();
+    this.drawWorlds();
+    this.drawEmitters();
+
+    // Acionar evento de desenho:
+    this.draw();
+
+    // Atualizar paleta de cores + flags...
+    canvas.updatePalette();
+    canvas.updateSystemFlags();
+  }
+
+  /**
+   * Aciona o evento de criação desta cena, caso ainda não tenha sido
+   * acionado. Cenas empilhadas são criadas antes de seu `onEnter`.
+   */
+  create(): void {
+    if(!this._created) {
+      this.onCreate();
+      this._created = true;
+    }
+  }
+
+  /**
+   * Atualiza um sprite e, em seguida, seus filhos.
+   *
+   * @param {Sprite} sprite Sprite.
+   */
+  updateSprite(sprite: Sprite): void {
+    // Seus eventos só serão acionados quando estiver ativo...
+    if(sprite._destroyed) {
+      return;
+    }
+
+    // Acionar evento de criação (apenas uma vez):
+    if(!sprite._created) {
+      sprite.onCreate();
+      sprite._created = true;
+    }
+
+    // Acionar evento de update:
+    sprite.update();
+
+    // Avançar máquina de estados:
+    let fsm: StateMachine | null = sprite.fsm;
+
+    if(fsm !== null && !sprite._destroyed) {
+      fsm.update();
+    }
+
+    // Atualizar animação:
+    let anim: AnimationPlayer | null = sprite.anim;
+
+    if(anim !== null && !sprite._destroyed) {
+      anim.update();
+    }
+
+    // Posicionar e atualizar filhos:
+    if(sprite.children.length > 0) {
+      sprite.updateTransform();
+
+      for(let index: i32 = 0; index < sprite.children.length; index += 1) {
+        this.updateSprite(sprite.children[index]);
+      }
+    }
+  }
+
+  /**
+   * Desenha esta cena sem atualizá-la. Usado enquanto a cena está pausada
+   * sob outras cenas da pilha.
+   */
+  render(): void {
+    this.drawSprites();
+    this.drawWorlds();
+    this.drawEmitters();
+
+    // Acionar evento de desenho:
+    this.draw();
+  }
+
+  /**
+   * Compara a ordem de desenho entre dois sprites.
+   *
+   * @param {Sprite} a Primeiro sprite.
+   * @param {Sprite} b Segundo sprite.
+   *
+   * @return {i32} Valor negativo quando `a` deve ser desenhado antes de `b`,
+   *         positivo quando depois, e zero quando indiferente.
+   */
+  compareDepth(a: Sprite, b: Sprite): i32 {
+    // Profundidade tem prioridade...
+    if(a.depth !== b.depth) {
+      return a.depth - b.depth;
+    }
+
+    // ...seguida da base do sprite, quando a ordenação por Y estiver ativa:
+    if(this.ySort) {
+      return (a.y + a.height) - (b.y + b.height);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Desenha os sprites ativos desta cena, em ordem de profundidade.
+   */
+  drawSprites(): void {
+    // Reaproveitar lista de desenho...
+    this.drawList.length = 0;
+
+    // Ordenar sprites (insertion sort, estável)...
+    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
+      let sprite  : Sprite = this.sprites[index];
+      let position: i32    = this.drawList.length;
+
+      // Apenas sprites ativos e já criados são desenhados (filhos são
+      // desenhados logo após seus pais):
+      if(!sprite._created || sprite._destroyed || sprite.parent !== null) {
+        continue;
+      }
+
+      this.drawList.push(sprite);
+
+      // Deslocar sprites que devem ser desenhados depois deste...
+      while(position > 0 && this.compareDepth(this.drawList[position - 1], sprite) > 0) {
+        this.drawList[position] = this.drawList[position - 1];
+        position -= 1;
+      }
+
+      this.drawList[position] = sprite;
+    }
+
+    // Acionar eventos de desenho:
+    for(let index: i32 = 0; index < this.drawList.length; index += 1) {
+      this.drawSprite(this.drawList[index]);
+    }
+  }
+
+  /**
+   * Desenha um sprite e, em seguida, seus filhos.
+   *
+   * @param {Sprite} sprite Sprite.
+   */
+  drawSprite(sprite: Sprite): void {
+    sprite.draw();
+
+    for(let index: i32 = 0; index < sprite.children.length; index += 1) {
+      let child: Sprite = sprite.children[index];
+
+      if(child._created && !child._destroyed) {
+        this.drawSprite(child);
+      }
+    }
+  }
+
+  /**
+   * @event onCreate
+   */
+  onCreate(): void {
+    // ...
+  }
+
+  /**
+   * @event update
+   */
+  update(): void {
+    // ...
+  }
+
+  /**
+   * @event draw
+   */
+  draw(): void {
+    // ...
+  }
+
+  /**
+   * @event onEnter
+   * Evento acionado ao entrar na pilha de cenas.
+   */
+  onEnter(): void {
+    // ...
+  }
+
+  /**
+   * @event onExit
+   * Evento acionado ao sair da pilha de cenas.
+   */
+  onExit(): void {
+    // ...
+  }
+
+  /**
+   * @event onPause
+   * Evento acionado quando outra cena é empilhada sobre esta.
+   */
+  onPause(): void {
+    // ...
+  }
+
+  /**
+   * @event onResume
+   * Evento acionado quando esta cena volta ao topo da pilha.
+   */
+  onResume(): void {
+    // ...
+  }
+}
+
+// ==========================================================================
+// transition.ts
+// ==========================================================================
+/** Direção de cortina: da esquerda para a direita. */
+export const WIPE_RIGHT: u8 = 0;
+
+/** Direção de cortina: da direita para a esquerda. */
+export const WIPE_LEFT: u8 = 1;
+
+/** Direção de cortina: de cima para baixo. */
+export const WIPE_DOWN: u8 = 2;
+
+/** Direção de cortina: de baixo para cima. */
+export const WIPE_UP: u8 = 3;
+
+/**
+ * @class Transition
+ *
+ * @description
+ * Representa uma transição temporizada entre duas cenas. A primeira metade
+ * da transição cobre a cena atual e a segunda metade revela a nova cena.
+ */
+export class Transition {
+  /** Duração total da transição (em quadros). */
+  frames: i32;
+
+  /** Contador de quadros. */
+  counter: i32;
+
+  /** Indica se a troca de cenas já foi realizada. */
+  _switched: boolean;
+
+  /**
+   * @constructor
+   *
+   * @param {i32} frames Duração total da transição (em quadros).
+   */
+  constructor(frames: i32) {
+    this.frames    = frames > 2? frames: 2;
+    this.counter   = 0;
+    this._switched = false;
+  }
+
+  /**
+   * Retorna o quadro em que a troca de cenas deve ocorrer.
+   *
+   * @return {i32}
+   */
+  half(): i32 {
+    return this.frames / 2;
+  }
+
+  /**
+   * Retorna o quanto a tela está coberta pela transição: de `0.0` (nada)
+   * a `1.0` (tela inteira), voltando a `0.0` no final.
+   *
+   * @return {f32}
+   */
+  coverage(): f32 {
+    let half: i32 = this.half();
+
+    // Primeira metade: cobrir a cena atual...
+    if(this.counter <= half) {
+      return (this.counter as f32) / (half as f32);
+    }
+
+    // ...segunda metade: revelar a nova cena.
+    return ((this.frames - this.counter) as f32) / ((this.frames - half) as f32);
+  }
+
+  /**
+   * Indica se a transição foi concluída.
+   *
+   * @return {boolean}
+   */
+  finished(): boolean {
+    return this.counter >= this.frames;
+  }
+
+  /**
+   * Preenche um trecho horizontal do framebuffer com uma cor da paleta.
+   *
+   * @param {i32} x1 Posição X inicial.
+   * @param {i32} x2 Posição X final (não inclusa).
+   * @param {i32} y Posição Y.
+   * @param {u8} color Índice de cor da paleta (de 0x00 a 0x03).
+   */
+  static fillSpan(x1: i32, x2: i32, y: i32, color: u8): void {
+    // Ignorar linhas fora da tela...
+    if(y < 0 || y >= SCREEN_HEIGHT) {
+      return;
+    }
+
+    // Limitar trecho à área da tela:
+    if(x1 < 0) { x1 = 0; }
+    if(x2 > SCREEN_WIDTH) { x2 = SCREEN_WIDTH; }
+
+    // Percorrer pixels do trecho...
+    for(let x: i32 = x1; x < x2; x += 1) {
+      let offset: usize = w4.FRAMEBUFFER + ((y * (SCREEN_WIDTH / 4)) + (x >> 2));
+      let shift : u8    = ((x & 3) * 2) as u8;
+      let pixels: u8    = load<u8>(offset);
+
+      // Substituir os 2 bits do pixel:
+      pixels = (pixels & ~(0b11 << shift)) | ((color & 0b11) << shift);
+      store<u8>(offset, pixels);
+    }
+  }
+
+  /**
+   * @event onStart
+   * Evento acionado ao iniciar a transição.
+   */
+  onStart(): void {
+    // ...
+  }
+
+  /**
+   * @event onCover
+   * Evento acionado na metade da transição, imediatamente antes da troca de
+   * cenas.
+   */
+  onCover(): void {
+    // ...
+  }
+
+  /**
+   * @event onReveal
+   * Evento acionado na metade da transição, após a troca de cenas e o
+   * primeiro game loop da nova cena (quando ela já definiu sua paleta).
+   */
+  onReveal(): void {
+    // ...
+  }
+
+  /**
+   * @event apply
+   * Evento acionado a cada quadro, após o desenho das cenas.
+   *
+   * @param {f32} coverage Cobertura da tela (de `0.0` a `1.0`).
+   */
+  apply(coverage: f32): void {
+    // ...
+  }
+
+  /**
+   * @event onFinish
+   * Evento acionado ao concluir a transição.
+   */
+  onFinish(): void {
+    // ...
+  }
+}
+
+/**
+ * @class FadeTransition
+ * @extends Transition
+ *
+ * @description
+ * Transição que esmaece todas as cores da paleta em direção a uma cor.
+ */
+export class FadeTransition extends Transition {
+  /** Cor de destino (RGB). */
+  color: i32;
+
+  /**
+   * Cópia da paleta original: a paleta da cena atual na primeira metade e
+   * a paleta da nova cena na segunda metade.
+   */
+  original: i32[];
+
+  /**
+   * @constructor
+   *
+   * @param {i32} frames Duração total da transição (em quadros).
+   * @param {i32} color Cor de destino (RGB).
+   */
+  constructor(frames: i32, color: i32 = 0x000000) {
+    super(frames);
+    this.color    = color;
+    this.original = [];
+  }
+
+  /**
+   * Interpola um canal de cor.
+   *
+   * @param {i32} from Cor de origem (RGB).
+   * @param {i32} to Cor de destino (RGB).
+   * @param {i32} shift Deslocamento do canal (0, 8 ou 16).
+   * @param {f32} amount Quantidade de interpolação (de `0.0` a `1.0`).
+   *
+   * @return {i32}
+   */
+  static lerpChannel(from: i32, to: i32, shift: i32, amount: f32): i32 {
+    let a: i32 = (from >> shift) & 0xFF;
+    let b: i32 = (to   >> shift) & 0xFF;
+
+    return ((a + ((((b - a) as f32) * amount) as i32)) & 0xFF) << shift;
+  }
+
+  /**
+   * @event onStart
+   */
+  onStart(): void {
+    this.original = canvas.palette.slice(0);
+  }
+
+  /**
+   * @event onCover
+   */
+  onCover(): void {
+    this.onFinish();
+  }
+
+  /**
+   * @event onReveal
+   */
+  onReveal(): void {
+    this.original = canvas.palette.slice(0);
+  }
+
+  /**
+   * @event apply
+   *
+   * @param {f32} coverage Cobertura da tela (de `0.0` a `1.0`).
+   */
+  apply(coverage: f32): void {
+    for(let index: i32 = 0; index < this.original.length; index += 1) {
+      let from: i32 = this.original[index];
+
+      canvas.palette[index] = (
+        FadeTransition.lerpChannel(from, this.color, 16, coverage) |
+        FadeTransition.lerpChannel(from, this.color,  8, coverage) |
+        FadeTransition.lerpChannel(from, this.color,  0, coverage)
+      );
+    }
+  }
+
+  /**
+   * @event onFinish
+   */
+  onFinish(): void {
+    for(let index: i32 = 0; index < this.original.length; index += 1) {
+      canvas.palette[index] = this.original[index];
+    }
+  }
+}
+
+/**
+ * @class WipeTransition
+ * @extends Transition
+ *
+ * @description
+ * Transição que cobre a tela com uma cortina de cor sólida.
+ */
+export class WipeTransition extends Transition {
+  /** Direção da cortina. */
+  direction: u8;
 
-  /** Posição direita. */
-  right: i32;
+  /** Índice de cor da paleta (de 0x00 a 0x03). */
+  color: u8;
 
-  /** Posição inferior. */
-  bottom: i32;
+  /**
+   * @constructor
+   *
+   * @param {i32} frames Duração total da transição (em quadros).
+   * @param {u8} direction Direção da cortina.
+   * @param {u8} color Índice de cor da paleta (de 0x00 a 0x03).
+   */
+  constructor(frames: i32, direction: u8 = WIPE_RIGHT, color: u8 = 3) {
+    super(frames);
+    this.direction = direction;
+    this.color     = color;
+  }
+
+  /**
+   * @event apply
+   *
+   * @param {f32} coverage Cobertura da tela (de `0.0` a `1.0`).
+   */
+  apply(coverage: f32): void {
+    // Tamanho da área coberta.
+    let width : i32 = ((SCREEN_WIDTH  as f32) * coverage) as i32;
+    let height: i32 = ((SCREEN_HEIGHT as f32) * coverage) as i32;
+
+    // Cortina horizontal...
+    if(this.direction === WIPE_RIGHT || this.direction === WIPE_LEFT) {
+      let x1: i32 = this.direction === WIPE_RIGHT? 0: SCREEN_WIDTH - width;
+
+      for(let y: i32 = 0; y < SCREEN_HEIGHT; y += 1) {
+        Transition.fillSpan(x1, x1 + width, y, this.color);
+      }
+    }
+    // Cortina vertical...
+    else {
+      let y1: i32 = this.direction === WIPE_DOWN? 0: SCREEN_HEIGHT - height;
+
+      for(let y: i32 = y1; y < y1 + height; y += 1) {
+        Transition.fillSpan(0, SCREEN_WIDTH, y, this.color);
+      }
+    }
+  }
+}
+
+/**
+ * @class IrisTransition
+ * @extends Transition
+ *
+ * @description
+ * Transição que fecha a tela em um círculo ao redor de um ponto.
+ */
+export class IrisTransition extends Transition {
+  /** Centro do círculo (relativo à tela). */
+  center: Vec2;
+
+  /** Índice de cor da paleta (de 0x00 a 0x03). */
+  color: u8;
 
   /**
    * @constructor
    *
-   * @param {i32} left Posição esquerda.
-   * @param {i32} top Posição superior.
-   * @param {i32} right Posição direita.
-   * @param {i32} bottom Posição inferior.
+   * @param {i32} frames Duração total da transição (em quadros).
+   * @param {u8} color Índice de cor da paleta (de 0x00 a 0x03).
+   * @param {i32} x Centro X do círculo (relativo à tela).
+   * @param {i32} y Centro Y do círculo (relativo à tela).
    */
-  constructor(left: i32, top: i32, right: i32, bottom: i32) {
-    this.left   = left;
-    this.top    = top;
-    this.right  = right;
-    this.bottom = bottom;
+  constructor(frames: i32, color: u8 = 3, x: i32 = SCREEN_WIDTH / 2, y: i32 = SCREEN_HEIGHT / 2) {
+    super(frames);
+    this.center = new Vec2(x, y);
+    this.color  = color;
+  }
+
+  /**
+   * @event apply
+   *
+   * @param {f32} coverage Cobertura da tela (de `0.0` a `1.0`).
+   */
+  apply(coverage: f32): void {
+    // Distância até o canto mais distante da tela.
+    let dx: f64 = Math.max(this.center.x, SCREEN_WIDTH  - this.center.x);
+    let dy: f64 = Math.max(this.center.y, SCREEN_HEIGHT - this.center.y);
+
+    // Raio do círculo visível.
+    let radius: f64 = Math.sqrt((dx * dx) + (dy * dy)) * (1.0 - coverage);
+
+    // Percorrer linhas da tela...
+    for(let y: i32 = 0; y < SCREEN_HEIGHT; y += 1) {
+      let distance: f64 = (y - this.center.y) as f64;
+
+      // Linhas fora do círculo são cobertas por inteiro...
+      if(Math.abs(distance) >= radius) {
+        Transition.fillSpan(0, SCREEN_WIDTH, y, this.color);
+        continue;
+      }
+
+      // ...do contrário, apenas as laterais do círculo são cobertas:
+      let span: i32 = Math.sqrt((radius * radius) - (distance * distance)) as i32;
+
+      Transition.fillSpan(0, this.center.x - span, y, this.color);
+      Transition.fillSpan(this.center.x + span, SCREEN_WIDTH, y, this.color);
+    }
   }
 }
 
 // ==========================================================================
-// sprite.ts
+// savedata.ts
 // ==========================================================================
+/** Tamanho máximo do disco do WASM-4 (em bytes). */
+const SAVE_DISK_SIZE: i32 = 1024;
+
+/** Assinatura do cabeçalho do disco ("TS"). */
+const SAVE_MAGIC: u16 = 0x5354;
+
+/** Tamanho do cabeçalho do disco: assinatura (u16). */
+const SAVE_HEADER_SIZE: i32 = 2;
+
 /**
- * @class Sprite
+ * Tamanho do cabeçalho de cada slot: uso (u8), versão (u16), tamanho dos
+ * dados (u16) e checksum (u16).
+ */
+const SAVE_SLOT_HEADER_SIZE: i32 = 7;
+
+/** Tipo de campo: inteiro de 8 bits, sem sinal. */
+export const SAVE_TYPE_U8: u8 = 0;
+
+/** Tipo de campo: inteiro de 16 bits, sem sinal. */
+export const SAVE_TYPE_U16: u8 = 1;
+
+/** Tipo de campo: inteiro de 32 bits, com sinal. */
+export const SAVE_TYPE_I32: u8 = 2;
+
+/** Tipo de campo: booleano. */
+export const SAVE_TYPE_BOOL: u8 = 3;
+
+/** Tipo de campo: texto de tamanho fixo. */
+export const SAVE_TYPE_STRING: u8 = 4;
+
+/**
+ * @class SaveField
  *
  * @description
- * Classe de sprite genérica.
+ * Representa um campo tipado dentro dos dados de salvamento.
  */
-export class Sprite {
-  /** UID. */
-  uid: u32;
+export class SaveField {
+  /** Nome do campo. */
+  name: string;
 
-  /** Tag. */
-  tag: string;
+  /** Tipo do campo. */
+  type: u8;
 
-  /** Posição X. */
-  x: i32;
+  /** Posição do campo dentro dos dados do slot (em bytes). */
+  offset: i32;
 
-  /** Posição Y. */
-  y: i32;
+  /** Tamanho do campo (em bytes). */
+  size: i32;
 
-  /** Largura do sprite. */
-  width: i32;
+  /**
+   * @constructor
+   *
+   * @param {string} name Nome do campo.
+   * @param {u8} type Tipo do campo.
+   * @param {i32} offset Posição do campo dentro dos dados do slot.
+   * @param {i32} size Tamanho do campo.
+   */
+  constructor(name: string, type: u8, offset: i32, size: i32) {
+    this.name   = name;
+    this.type   = type;
+    this.offset = offset;
+    this.size   = size;
+  }
+}
 
-  /** Altura do sprite. */
-  height: i32;
+/**
+ * @class SaveData
+ *
+ * @description
+ * Gerenciador de dados de salvamento. Organiza campos tipados em vários slots
+ * nomeados, todos guardados dentro do disco de 1024 bytes do WASM-4.
+ *
+ * Estrutura do disco:
+ * - Assinatura "TS" (u16);
+ * - Slots, em sequência, cada um com: uso (u8), versão (u16), tamanho dos
+ *   dados (u16), checksum (u16) e os dados dos campos.
+ *
+ * Cada slot reserva uma região de tamanho fixo (`slotSize`), portanto os
+ * slots não mudam de lugar quando os campos mudam entre versões.
+ */
+export class SaveData {
+  /** Versão atual dos dados de salvamento. */
+  version: u16;
 
-  /** Caixa de colisão. */
-  hitbox: Hitbox;
+  /** Campos dos dados de salvamento. */
+  fields: SaveField[];
 
-  /** Indica se o evento de criação já foi acionado. */
-  _created: boolean;
+  /** Nomes dos slots. */
+  slots: string[];
 
-  /** Indica se o evento de destruição já foi acionado. */
-  _destroyed: boolean;
+  /** Tamanho dos dados de cada slot (em bytes). */
+  size: i32;
+
+  /** Tamanho reservado no disco para os dados de cada slot (em bytes). */
+  slotSize: i32;
+
+  /** Dados do slot atual. */
+  buffer: Uint8Array;
+
+  /**
+   * Dados do último slot carregado, exatamente como estavam no disco (útil
+   * durante a migração, quando o tamanho dos dados mudou).
+   */
+  raw: Uint8Array;
+
+  /** Cópia do disco. */
+  disk: Uint8Array;
 
   /**
-   * Gera e retorna uma UID para um sprite.
+   * @constructor
    *
-   * @return {u32}
+   * @param {u16} version Versão atual dos dados de salvamento.
+   * @param {i32} slotSize Tamanho reservado para os dados de cada slot.
    */
-  static generateUID(): u32 {
-    return Util.range(0x00000000, 0xFFFFFFFF) as u32;
+  constructor(version: u16 = 1, slotSize: i32 = 128) {
+    this.version  = version;
+    this.fields   = [];
+    this.slots    = [];
+    this.size     = 0;
+    this.slotSize = slotSize;
+    this.buffer   = new Uint8Array(0);
+    this.raw      = new Uint8Array(0);
+    this.disk    = new Uint8Array(SAVE_DISK_SIZE);
+  }
+
+  /**
+   * Calcula o tamanho total ocupado no disco por estes dados.
+   *
+   * @param {i32} slots Quantidade de slots.
+   * @param {i32} size Tamanho reservado para os dados de cada slot.
+   *
+   * @return {i32}
+   */
+  static diskSize(slots: i32, size: i32): i32 {
+    return SAVE_HEADER_SIZE + (slots * (SAVE_SLOT_HEADER_SIZE + size));
+  }
+
+  /**
+   * Calcula o checksum (Fletcher-16) de uma sequência de bytes.
+   *
+   * @param {Uint8Array} data Bytes.
+   * @param {u16} version Versão dos dados.
+   *
+   * @return {u16}
+   */
+  static checksum(data: Uint8Array, version: u16): u16 {
+    let sum1: u32 = 0xFF;
+    let sum2: u32 = 0xFF;
+
+    // Incluir a versão no checksum:
+    sum1 = (sum1 + (version & 0xFF)) % 255;
+    sum2 = (sum2 + sum1) % 255;
+    sum1 = (sum1 + (version >> 8)) % 255;
+    sum2 = (sum2 + sum1) % 255;
+
+    // Percorrer bytes...
+    for(let index: i32 = 0; index < data.length; index += 1) {
+      sum1 = (sum1 + data[index]) % 255;
+      sum2 = (sum2 + sum1) % 255;
+    }
+
+    return ((sum2 << 8) | sum1) as u16;
+  }
+
+  /**
+   * Adiciona um slot nomeado.
+   *
+   * @param {string} name Nome do slot.
+   *
+   * @return {boolean} Retorna `false` quando o slot já existe ou não cabe no disco.
+   */
+  addSlot(name: string): boolean {
+    // Não aceitar nomes repetidos...
+    if(this.slots.includes(name)) {
+      return false;
+    }
+
+    // Não aceitar slots além da capacidade do disco...
+    if(SaveData.diskSize(this.slots.length + 1, this.slotSize) > SAVE_DISK_SIZE) {
+      return false;
+    }
+
+    this.slots.push(name);
+    return true;
+  }
+
+  /**
+   * Adiciona um campo.
+   *
+   * @param {string} name Nome do campo.
+   * @param {u8} type Tipo do campo.
+   * @param {i32} size Tamanho do campo (em bytes).
+   *
+   * @return {boolean} Retorna `false` quando o campo já existe ou não cabe no slot.
+   */
+  addField(name: string, type: u8, size: i32): boolean {
+    // Não aceitar nomes repetidos...
+    if(this.getField(name) !== null) {
+      return false;
+    }
+
+    // Não aceitar campos além do tamanho reservado para cada slot...
+    if(this.size + size > this.slotSize) {
+      return false;
+    }
+
+    this.fields.push(new SaveField(name, type, this.size, size));
+    this.size += size;
+
+    // Redimensionar dados do slot atual, mantendo os valores existentes:
+    let buffer: Uint8Array = new Uint8Array(this.size);
+        buffer.set(this.buffer);
+
+    this.buffer = buffer;
+    return true;
+  }
+
+  /**
+   * Adiciona um campo do tipo `u8`.
+   *
+   * @param {string} name Nome do campo.
+   *
+   * @return {boolean}
+   */
+  addU8(name: string): boolean {
+    return this.addField(name, SAVE_TYPE_U8, 1);
+  }
+
+  /**
+   * Adiciona um campo do tipo `u16`.
+   *
+   * @param {string} name Nome do campo.
+   *
+   * @return {boolean}
+   */
+  addU16(name: string): boolean {
+    return this.addField(name, SAVE_TYPE_U16, 2);
+  }
+
+  /**
+   * Adiciona um campo do tipo `i32`.
+   *
+   * @param {string} name Nome do campo.
+   *
+   * @return {boolean}
+   */
+  addI32(name: string): boolean {
+    return this.addField(name, SAVE_TYPE_I32, 4);
+  }
+
+  /**
+   * Adiciona um campo do tipo `boolean`.
+   *
+   * @param {string} name Nome do campo.
+   *
+   * @return {boolean}
+   */
+  addBool(name: string): boolean {
+    return this.addField(name, SAVE_TYPE_BOOL, 1);
+  }
+
+  /**
+   * Adiciona um campo de texto de tamanho fixo (apenas ASCII).
+   *
+   * @param {string} name Nome do campo.
+   * @param {i32} length Quantidade máxima de caracteres.
+   *
+   * @return {boolean}
+   */
+  addString(name: string, length: i32): boolean {
+    return this.addField(name, SAVE_TYPE_STRING, length);
+  }
+
+  /**
+   * Obtém um campo pelo seu nome.
+   *
+   * @param {string} name Nome do campo.
+   *
+   * @return {SaveField | null}
+   */
+  getField(name: string): SaveField | null {
+    for(let index: i32 = 0; index < this.fields.length; index += 1) {
+      let field: SaveField = this.fields[index];
+
+      if(field.name === name) {
+        return field;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Obtém um campo pelo seu nome, desde que seja do tipo especificado.
+   *
+   * @param {string} name Nome do campo.
+   * @param {u8} type Tipo do campo.
+   *
+   * @return {SaveField | null}
+   */
+  getTypedField(name: string, type: u8): SaveField | null {
+    let field: SaveField | null = this.getField(name);
+
+    if(field !== null && field.type === type) {
+      return field;
+    }
+
+    return null;
+  }
+
+  /**
+   * Obtém o valor de um campo do tipo `u8`.
+   *
+   * @param {string} name Nome do campo.
+   *
+   * @return {u8}
+   */
+  getU8(name: string): u8 {
+    let field: SaveField | null = this.getTypedField(name, SAVE_TYPE_U8);
+
+    if(field === null) {
+      return 0;
+    }
+
+    return this.buffer[field.offset];
+  }
+
+  /**
+   * Define o valor de um campo do tipo `u8`.
+   *
+   * @param {string} name Nome do campo.
+   * @param {u8} value Valor.
+   *
+   * @return {boolean}
+   */
+  setU8(name: string, value: u8): boolean {
+    let field: SaveField | null = this.getTypedField(name, SAVE_TYPE_U8);
+
+    if(field === null) {
+      return false;
+    }
+
+    this.buffer[field.offset] = value;
+    return true;
+  }
+
+  /**
+   * Obtém o valor de um campo do tipo `u16`.
+   *
+   * @param {string} name Nome do campo.
+   *
+   * @return {u16}
+   */
+  getU16(name: string): u16 {
+    let field: SaveField | null = this.getTypedField(name, SAVE_TYPE_U16);
+
+    if(field === null) {
+      return 0;
+    }
+
+    return (
+      (this.buffer[field.offset]     as u16) |
+      (this.buffer[field.offset + 1] as u16) << 8
+    );
+  }
+
+  /**
+   * Define o valor de um campo do tipo `u16`.
+   *
+   * @param {string} name Nome do campo.
+   * @param {u16} value Valor.
+   *
+   * @return {boolean}
+   */
+  setU16(name: string, value: u16): boolean {
+    let field: SaveField | null = this.getTypedField(name, SAVE_TYPE_U16);
+
+    if(field === null) {
+      return false;
+    }
+
+    this.buffer[field.offset]     = (value & 0xFF) as u8;
+    this.buffer[field.offset + 1] = (value >> 8) as u8;
+    return true;
   }
 
   /**
-   * @constructor
+   * Obtém o valor de um campo do tipo `i32`.
    *
-   * @param {i32} width Largura do sprite.
-   * @param {i32} height Altura do sprite.
+   * @param {string} name Nome do campo.
+   *
+   * @return {i32}
    */
-  constructor(width: i32, height: i32) {
-    this.uid = Sprite.generateUID();
-    this.tag = "Sprite";
-    this.x = 0;
-    this.y = 0;
-    this.width  = width;
-    this.height = height;
-    this.hitbox = new Hitbox(0, 0, width, height);
-    this._created = false;
-    this._destroyed = false;
+  getI32(name: string): i32 {
+    let field: SaveField | null = this.getTypedField(name, SAVE_TYPE_I32);
+
+    if(field === null) {
+      return 0;
+    }
+
+    return (
+      (this.buffer[field.offset]     as i32)       |
+      (this.buffer[field.offset + 1] as i32) << 8  |
+      (this.buffer[field.offset + 2] as i32) << 16 |
+      (this.buffer[field.offset + 3] as i32) << 24
+    );
   }
 
   /**
-   * Calcula e retorna o posicionamento central deste sprite.
+   * Define o valor de um campo do tipo `i32`.
    *
-   * @return {Vec2}
+   * @param {string} name Nome do campo.
+   * @param {i32} value Valor.
+   *
+   * @return {boolean}
    */
-  center(): Vec2 {
-    return new Vec2(
-      this.x + (Math.floor(this.width  / 2) as i32),
-      this.y + (Math.floor(this.height / 2) as i32)
-    );
+  setI32(name: string, value: i32): boolean {
+    let field: SaveField | null = this.getTypedField(name, SAVE_TYPE_I32);
+
+    if(field === null) {
+      return false;
+    }
+
+    this.buffer[field.offset]     = (value & 0xFF) as u8;
+    this.buffer[field.offset + 1] = ((value >> 8)  & 0xFF) as u8;
+    this.buffer[field.offset + 2] = ((value >> 16) & 0xFF) as u8;
+    this.buffer[field.offset + 3] = ((value >> 24) & 0xFF) as u8;
+    return true;
   }
 
   /**
-   * Calcula e retorna o posicionamento equivalente deste sprite em uma grade.
+   * Obtém o valor de um campo do tipo `boolean`.
    *
-   * @param {i32} width Largura dos tiles.
-   * @param {i32} height Altura dos tiles.
+   * @param {string} name Nome do campo.
    *
-   * @return {Vec2}
+   * @return {boolean}
    */
-  grid(width: i32, height: i32): Vec2 {
-    // Posição central deste sprite.
-    let center: Vec2 = this.center();
+  getBool(name: string): boolean {
+    let field: SaveField | null = this.getTypedField(name, SAVE_TYPE_BOOL);
 
-    return new Vec2(
-      Math.floor(center.x /  width) as i32,
-      Math.floor(center.y / height) as i32
-    );
+    if(field === null) {
+      return false;
+    }
+
+    return this.buffer[field.offset] !== 0;
   }
 
   /**
-   * Movimenta este sprite em um ângulo específico.
+   * Define o valor de um campo do tipo `boolean`.
    *
-   * @param {i32} speed Velocidade de movimentação.
-   * @param {i32} angle Ângulo (de 0º a 359º).
+   * @param {string} name Nome do campo.
+   * @param {boolean} value Valor.
    *
-   * @return {Sprite} Tail call.
+   * @return {boolean}
    */
-  moveToAngle(angle: f64, speed: f64): Sprite {
-    // Ângulo radiano.
-    let degree: f64 = Math.PI / 180.0;
+  setBool(name: string, value: boolean): boolean {
+    let field: SaveField | null = this.getTypedField(name, SAVE_TYPE_BOOL);
 
-    // Movimentar sprite...
-    this.x += (speed * Math.cos(angle * degree)) as i32;
-    this.y += (speed * Math.sin(angle * degree)) as i32;
+    if(field === null) {
+      return false;
+    }
 
-    return this;
+    this.buffer[field.offset] = value? 1: 0;
+    return true;
   }
 
   /**
-   * Movimenta este sprite até uma posição específica.
+   * Obtém o valor de um campo de texto.
    *
-   * @param {i32} x Posição X.
-   * @param {i32} y Posição Y.
-   * @param {i32} speed Velocidade de movimentação.
+   * @param {string} name Nome do campo.
    *
-   * @return {Sprite} Tail call.
+   * @return {string}
    */
-  moveTo(x: i32, y: i32, speed: f64): Sprite {
-    // Ângulo radiano + rotação:
-    let degree  : f64 = Math.PI / 180.0;
-    let rotateTo: f64 = Math.atan2(y - this.y, x - this.x) * degree;
+  getString(name: string): string {
+    let field: SaveField | null = this.getTypedField(name, SAVE_TYPE_STRING);
+
+    if(field === null) {
+      return "";
+    }
 
-    // Movimentar sprite...
-    this.x += speed * (Math.cos(rotateTo / degree)) as i32;
-    this.y += speed * (Math.sin(rotateTo / degree)) as i32;
+    // Texto resultante.
+    let result: string = "";
 
-    return this;
+    // Percorrer caracteres até o fim do campo ou até encontrar um "\0"...
+    for(let index: i32 = 0; index < field.size; index += 1) {
+      let charCode: u8 = this.buffer[field.offset + index];
+
+      if(charCode === 0) {
+        break;
+      }
+
+      result += String.fromCharCode(charCode);
+    }
+
+    return result;
   }
 
   /**
-   * Checa a intersecção entre dois sprites.
+   * Define o valor de um campo de texto. Caracteres além do tamanho do campo
+   * são descartados.
    *
-   * @param {Sprite} sprite Sprite a ser checado.
+   * @param {string} name Nome do campo.
+   * @param {string} value Valor.
    *
    * @return {boolean}
    */
-  intersect(sprite: Sprite): bool {
-    return (
-      this.x + this.hitbox.left   < sprite.x + sprite.hitbox.right  &&
-      this.x + this.hitbox.right  > sprite.x + sprite.hitbox.left   &&
-      this.y + this.hitbox.top    < sprite.y + sprite.hitbox.bottom &&
-      this.y + this.hitbox.bottom > sprite.y + sprite.hitbox.top
-    );
+  setString(name: string, value: string): boolean {
+    let field: SaveField | null = this.getTypedField(name, SAVE_TYPE_STRING);
+
+    if(field === null) {
+      return false;
+    }
+
+    // Preencher o campo, completando o espaço restante com "\0"...
+    for(let index: i32 = 0; index < field.size; index += 1) {
+      let charCode: i32 = index < value.length? value.charCodeAt(index): 0;
+
+      this.buffer[field.offset + index] = (charCode & 0xFF) as u8;
+    }
+
+    return true;
   }
 
   /**
-   * Checa a intersecção entre múltiplos sprites.
+   * Limpa os dados do slot atual.
+   */
+  clear(): void {
+    this.buffer.fill(0);
+  }
+
+  /**
+   * Calcula a posição de um slot no disco.
    *
-   * @param {Sprite[]} sprites Sprites a serem checados.
+   * @param {string} slot Nome do slot.
    *
-   * @return {Sprite[]} Sprites colididos (vazio quando não há colisões).
+   * @return {i32} Retorna `-1` quando o slot não existe.
    */
-  intersectArray(sprites: Sprite[]): Sprite[] {
-    // Resultados.
-    let results: Sprite[] = [];
+  slotOffset(slot: string): i32 {
+    let index: i32 = this.slots.indexOf(slot);
 
-    // Percorrer lista de spriets...
-    for(let index: i32 = 0; index < sprites.length; index += 1) {
-      let sprite: Sprite = sprites[i];
+    if(index < 0) {
+      return -1;
+    }
 
-      // Checagem de colisão.
-      let collision: boolean = this.intersect(sprite);
+    return SaveData.diskSize(index, this.slotSize);
+  }
 
-      // Mover sprite para os resultados, caso exista colisão:
-      if(collision) {
-        results.push(sprite);
-      }
+  /**
+   * Lê o disco inteiro. Quando a assinatura for inválida, o disco é tratado
+   * como vazio.
+   */
+  readDisk(): void {
+    this.disk.fill(0);
+    w4.diskr(this.disk.dataStart, SAVE_DISK_SIZE);
+
+    // Descartar discos sem assinatura:
+    if(((this.disk[0] as u16) | (this.disk[1] as u16) << 8) !== SAVE_MAGIC) {
+      this.disk.fill(0);
     }
+  }
 
-    return results;
+  /**
+   * Grava o disco, até o último slot.
+   */
+  writeDisk(): void {
+    this.disk[0] = (SAVE_MAGIC & 0xFF) as u8;
+    this.disk[1] = (SAVE_MAGIC >> 8) as u8;
+
+    w4.diskw(this.disk.dataStart, SaveData.diskSize(this.slots.length, this.slotSize));
   }
 
   /**
-   * Checa a intersecção entre dois sprites, em uma posição arbitrária.
+   * Retorna se um slot contém dados salvos.
    *
-   * @param {Sprite} sprite Sprite a ser checado.
-   * @param {i32} x X Posição X.
-   * @param {i32} y Y Posição Y.
+   * @param {string} slot Nome do slot.
    *
    * @return {boolean}
    */
-  intersectAt(sprite: Sprite, x: i32, y: i32): boolean {
-    // Salvar posição atual deste sprite temporariamente...
-    let xprev: i32 = this.x;
-    let yprev: i32 = this.y;
+  exists(slot: string): boolean {
+    let offset: i32 = this.slotOffset(slot);
 
-    // Mover este sprite para uma posição arbitrária...
-    this.x = x;
-    this.y = y;
+    if(offset < 0) {
+      return false;
+    }
 
-    // Checar colisão com o outro sprite:
-    let result: boolean = this.intersect(sprite);
+    this.readDisk();
+    return this.disk[offset] !== 0;
+  }
 
-    // Mover sprite de volta à sua posição original...
-    this.x = xprev;
-    this.y = yprev;
+  /**
+   * Salva os dados atuais em um slot.
+   *
+   * @param {string} slot Nome do slot.
+   *
+   * @return {boolean}
+   */
+  save(slot: string): boolean {
+    let offset: i32 = this.slotOffset(slot);
 
-    return result;
+    if(offset < 0) {
+      return false;
+    }
+
+    // Preservar os demais slots:
+    this.readDisk();
+
+    // Cabeçalho do slot.
+    let checksum: u16 = SaveData.checksum(this.buffer, this.version);
+
+    this.disk[offset]     = 1;
+    this.disk[offset + 1] = (this.version & 0xFF) as u8;
+    this.disk[offset + 2] = (this.version >> 8) as u8;
+    this.disk[offset + 3] = (this.size & 0xFF) as u8;
+    this.disk[offset + 4] = (this.size >> 8) as u8;
+    this.disk[offset + 5] = (checksum & 0xFF) as u8;
+    this.disk[offset + 6] = (checksum >> 8) as u8;
+
+    // Dados do slot (o restante da região reservada é zerado):
+    let start: i32 = offset + SAVE_SLOT_HEADER_SIZE;
+
+    this.disk.fill(0, start, start + this.slotSize);
+    this.disk.set(this.buffer, start);
+
+    this.writeDisk();
+    return true;
   }
 
   /**
-   * Checa a intersecção entre múltiplos sprites, em uma posição arbitrária.
+   * Carrega os dados de um slot. Dados corrompidos, vazios ou de versões não
+   * migradas são rejeitados, mantendo os dados atuais intactos.
    *
-   * @param {Sprite[]} sprites Sprites a serem checados.
-   * @param {i32} x X Posição X.
-   * @param {i32} y Y Posição Y.
+   * @param {string} slot Nome do slot.
    *
-   * @return {Sprite[]} Sprites colididos (vazio quando não há colisões).
+   * @return {boolean}
    */
-  intersectAtArray(sprites: Sprite[], x: i32, y: i32): Sprite[] {
-    // Resultados.
-    let results: Sprite[] = [];
+  load(slot: string): boolean {
+    let offset: i32 = this.slotOffset(slot);
 
-    // Percorrer lista de spriets...
-    for(let index: i32 = 0; index < sprites.length; index += 1) {
-      let sprite: Sprite = sprites[i];
+    if(offset < 0) {
+      return false;
+    }
 
-      // Checagem de colisão.
-      let collision: boolean = this.intersectAt(sprite, x, y);
+    this.readDisk();
 
-      // Mover sprite para os resultados, caso exista colisão:
-      if(collision) {
-        results.push(sprite);
-      }
+    // Não carregar slots vazios...
+    if(this.disk[offset] === 0) {
+      return false;
     }
 
-    return results;
+    // Cabeçalho do slot.
+    let version : u16 = (this.disk[offset + 1] as u16) | (this.disk[offset + 2] as u16) << 8;
+    let size    : i32 = (this.disk[offset + 3] as i32) | (this.disk[offset + 4] as i32) << 8;
+    let checksum: u16 = (this.disk[offset + 5] as u16) | (this.disk[offset + 6] as u16) << 8;
+
+    // Rejeitar tamanhos além da região reservada...
+    if(size > this.slotSize) {
+      return false;
+    }
+
+    // Dados do slot, com o tamanho em que foram salvos.
+    let start: i32        = offset + SAVE_SLOT_HEADER_SIZE;
+    let raw  : Uint8Array = this.disk.slice(start, start + size);
+
+    // Rejeitar dados corrompidos...
+    if(SaveData.checksum(raw, version) !== checksum) {
+      return false;
+    }
+
+    // Ajustar dados ao tamanho atual (campos novos começam zerados):
+    let buffer: Uint8Array = new Uint8Array(this.size);
+        buffer.set(size > this.size? raw.subarray(0, this.size): raw);
+
+    // Manter uma cópia dos dados atuais, caso a migração seja rejeitada.
+    let previous: Uint8Array = this.buffer;
+
+    this.buffer = buffer;
+    this.raw    = raw;
+
+    // Migrar dados de versões diferentes:
+    if(version !== this.version && !this.onMigrate(slot, version)) {
+      this.buffer = previous;
+      return false;
+    }
+
+    return true;
   }
 
   /**
-   * Checa a intersecção entre um sprite e um tilemap.
+   * Apaga os dados de um slot.
    *
-   * @param {Tilemap} tilemap Tilemap.
-   * @param {i16[]} tiles Índices do tilemap a serem checados.
+   * @param {string} slot Nome do slot.
    *
    * @return {boolean}
    */
-  intersectTiles(tilemap: Tilemap, tiles: i16[]): boolean {
-    // Posição equivalente deste sprite na grade.
-    let grid: Vec2 = this.grid(tilemap.width, tilemap.height);
-
-    // Percorrer tiles de colisão...
-    for(let index: i32 = 0; index < tiles.length; index += 1) {
-      let tile: i16 = tiles[index];
+  erase(slot: string): boolean {
+    let offset: i32 = this.slotOffset(slot);
 
-      // Se um dos índices de colisão estiverem na mesma posição equivalente
-      // deste sprite na grade, então existe colisão:
-      if(tilemap.getTile(grid.x, grid.y) === tile) {
-        return true;
-      }
+    if(offset < 0) {
+      return false;
     }
 
-    return false;
+    this.readDisk();
+    this.disk.fill(0, offset, offset + SAVE_SLOT_HEADER_SIZE + this.slotSize);
+    this.writeDisk();
+
+    return true;
   }
 
   /**
-   * Checa a intersecção entre um sprite e um tilemap, em uma posição
-   * arbitrária.
+   * Evento de migração. É acionado ao carregar um slot salvo em uma versão
+   * diferente da atual, com os dados antigos já disponíveis nos campos (nas
+   * mesmas posições em que foram salvos) e em `raw`.
    *
-   * @param {Tilemap} tilemap Tilemap.
-   * @param {i16[]} tiles Índices do tilemap a serem checados.
-   * @param {i32} x X Posição X.
-   * @param {i32} y Y Posição Y.
+   * @param {string} slot Nome do slot.
+   * @param {u16} version Versão dos dados carregados.
    *
-   * @return {boolean}
+   * @return {boolean} Retorne `true` para aceitar os dados migrados.
    */
-  intersectTilesAt(tilemap: Tilemap, tiles: i16[], x: i32, y: i32): boolean {
-    // Salvar posição atual deste sprite temporariamente...
-    let xprev: i32 = this.x;
-    let yprev: i32 = this.y;
+  onMigrate(slot: string, version: u16): boolean {
+    return false;
+  }
+}
+
+// ==========================================================================
+// core.ts
+// ==========================================================================
+/** Operação da pilha de cenas: empilhar. */
+const CORE_OPERATION_PUSH: u8 = 0;
+
+/** Operação da pilha de cenas: substituir. */
+const CORE_OPERATION_REPLACE: u8 = 1;
+
+/** Operação da pilha de cenas: desempilhar. */
+const CORE_OPERATION_POP: u8 = 2;
+
+/** Operação da pilha de cenas: desempilhar até uma tag. */
+const CORE_OPERATION_POP_TO: u8 = 3;
+
+/**
+ * @class CoreRequest
+ *
+ * @description
+ * Operação da pilha de cenas aguardando o fim da transição em andamento.
+ */
+export class CoreRequest {
+  /** Transição da operação (ou `null`, para executá-la imediatamente). */
+  transition: Transition | null;
+
+  /** Operação a ser executada. */
+  operation: u8;
+
+  /** Cena da operação. */
+  scene: Scene | null;
+
+  /** Tag da cena de destino (apenas ao desempilhar até uma tag). */
+  tag: string;
+
+  /**
+   * @constructor
+   *
+   * @param {Transition | null} transition Transição da operação.
+   * @param {u8} operation Operação a ser executada.
+   * @param {Scene | null} scene Cena da operação.
+   * @param {string} tag Tag da cena de destino.
+   */
+  constructor(transition: Transition | null, operation: u8, scene: Scene | null, tag: string) {
+    this.transition = transition;
+    this.operation  = operation;
+    this.scene      = scene;
+    this.tag        = tag;
+  }
+}
+
+/**
+ * @class Core
+ *
+ * @description
+ * Gerenciador de cenas.
+ */
+export class Core {
+  /** Lista de cenas do jogo. */
+  scenes: Scene[];
+
+  /** Índice da cena selecionada como ativa. */
+  index: i32;
+
+  /** Quando `true`, seleciona a última cena da pilha como ativa. */
+  auto: boolean;
 
-    // Mover este sprite para uma posição arbitrária...
-    this.x = x;
-    this.y = y;
+  /** Dados de salvamento do jogo. */
+  savedata: SaveData | null;
 
-    // Checar colisão com os tiles:
-    let result: boolean = this.intersectTiles(tilemap, tiles);
+  /** Transição em andamento. */
+  transition: Transition | null;
 
-    // Mover sprite de volta à sua posição original...
-    this.x = xprev;
-    this.y = yprev;
+  /** Cena a ser usada pela operação pendente da transição. */
+  _pendingScene: Scene | null;
 
-    return result;
-  }
+  /** Tag a ser usada pela operação pendente da transição. */
+  _pendingTag: string;
+
+  /** Operação pendente da transição. */
+  _pendingOperation: u8;
+
+  /** Cena com os controles bloqueados pela transição em andamento. */
+  _blocked: Scene | null;
+
+  /** Operações aguardando o fim da transição em andamento. */
+  _queue: CoreRequest[];
 
   /**
-   * Destrói este sprite.
-   *
-   * @return {boolean}
+   * @constructor
    */
-  destroy(): boolean {
-    this._destroyed = true;
-    return this._destroyed;
+  constructor() {
+    this.scenes = [];
+    this.index = 0;
+    this.auto = true;
+    this.savedata = null;
+    this.transition = null;
+    this._pendingScene = null;
+    this._pendingTag = "";
+    this._pendingOperation = CORE_OPERATION_PUSH;
+    this._blocked = null;
+    this._queue = [];
   }
 
+
   /**
-   * @event onCreate
+   * Salva os dados de salvamento em um slot.
+   *
+   * @param {string} slot Nome do slot.
+   *
+   * @return {boolean} Retorna `false` quando não há dados de salvamento.
    */
-  onCreate(): void {
-    // ...
+  save(slot: string): boolean {
+    let savedata: SaveData | null = this.savedata;
+
+    if(savedata === null) {
+      return false;
+    }
+
+    return savedata.save(slot);
   }
 
   /**
-   * @event update
+   * Carrega os dados de salvamento de um slot.
+   *
+   * @param {string} slot Nome do slot.
+   *
+   * @return {boolean} Retorna `false` quando não há dados de salvamento.
    */
-  update(): void {
-    // ...
+  load(slot: string): boolean {
+    let savedata: SaveData | null = this.savedata;
+
+    if(savedata === null) {
+      return false;
+    }
+
+    return savedata.load(slot);
   }
 
   /**
-   * @event onDestroy
+   * Obtém a cena ativa.
+   *
+   * @return {Scene}
    */
-  onDestroy(): void {
-    // ...
+  getScene(): Scene {
+    if(this.auto) {
+      this.index = this.scenes.length - 1;
+    }
+
+    return this.scenes[this.index];
   }
 
   /**
-   * @event draw
+   * Obtém a cena no topo da pilha.
+   *
+   * @return {Scene | null}
    */
-  draw(): void {
-    // ...
-  }
-}
-
-// ==========================================================================
-// scene.ts
-// ==========================================================================
-/**
- * @class Scene
- *
- * @description
- * Representa uma cena de jogo.
- */
-export class Scene {
-  /** Lista de sprites do jogo. */
-  sprites: Sprite[];
-
-  /** UIDs. */
-  uids: Map<u32, Sprite>;
+  top(): Scene | null {
+    if(this.scenes.length > 0) {
+      return this.scenes[this.scenes.length - 1];
+    }
 
-  /** Tags. */
-  tags: Map<string, Sprite[]>;
+    return null;
+  }
 
-  /** Indica se o evento de criação já foi acionado. */
-  _created: boolean;
 
   /**
-   * @constructor
+   * Procura a cena mais próxima do topo da pilha com uma tag.
+   *
+   * @param {string} tag Tag da cena.
+   *
+   * @return {i32} Índice da cena na pilha (ou `-1`, se não existir).
    */
-  constructor() {
-    this.sprites = [];
-    this.uids = new Map<u32, Sprite>();
-    this.tags = new Map<string, Sprite[]>();
-    this._created = false;
+  find(tag: string): i32 {
+    for(let index: i32 = this.scenes.length - 1; index >= 0; index -= 1) {
+      if(this.scenes[index].tag === tag) {
+        return index;
+      }
+    }
+
+    return -1;
   }
 
   /**
-   * Retorna se uma UID existe.
-   *
-   * @param {u32} uid UID.
+   * Indica se existe uma transição em andamento ou operações enfileiradas.
    *
    * @return {boolean}
    */
-  hasUID(uid: u32): boolean {
-    return this.uids.has(uid);
+  busy(): boolean {
+    return this.transition !== null || this._queue.length > 0;
   }
 
   /**
-   * Obtém um sprite por sua UID.
+   * Inicia uma transição, agendando uma operação para a metade dela. Quando
+   * já existe uma transição em andamento, a operação é enfileirada e sua
+   * transição inicia assim que as anteriores forem concluídas.
    *
-   * @param {u32} uid UID.
+   * @param {Transition} transition Transição.
+   * @param {u8} operation Operação pendente.
+   * @param {Scene | null} scene Cena da operação pendente.
+   * @param {string} tag Tag da operação pendente.
    *
-   * @return {Sprite}
+   * @return {boolean} Retorna `false` quando a operação foi enfileirada.
    */
-  getUID(uid: u32): Sprite {
-    if(this.hasUID(uid)) {
-      return this.uids.get(uid);
+  startTransition(transition: Transition, operation: u8, scene: Scene | null, tag: string = ""): boolean {
+    if(this.transition !== null) {
+      this._queue.push(new CoreRequest(transition, operation, scene, tag));
+      return false;
     }
 
-    return null;
+    this.transition        = transition;
+    this._pendingScene     = scene;
+    this._pendingTag       = tag;
+    this._pendingOperation = operation;
+
+    // Reiniciar transição (ela pode ter sido usada antes):
+    transition.counter   = 0;
+    transition._switched = false;
+
+    transition.onStart();
+    return true;
   }
 
   /**
-   * Retorna se uma tag existe e possui ao menos um sprite rotulado.
+   * Executa uma operação na pilha de cenas. Enquanto houver uma transição em
+   * andamento (ou operações enfileiradas), a operação é enfileirada, para
+   * que as operações sejam sempre executadas na ordem em que foram pedidas.
    *
-   * @param {string} tag Tag.
+   * @param {u8} operation Operação.
+   * @param {Scene | null} scene Cena da operação.
+   * @param {string} tag Tag da operação.
+   * @param {Transition | null} transition Transição. Quando informada, a
+   *        operação só é executada na metade da transição.
    *
-   * @return {boolean}
+   * @return {Scene | null} Resultado da operação (ou `null`, se ela tiver
+   *         sido agendada).
    */
-  hasTag(tag: string): boolean {
-    return this.tags.has(tag) && this.tags.get(tag).length > 0;
+  run(operation: u8, scene: Scene | null, tag: string, transition: Transition | null): Scene | null {
+    // Enfileirar enquanto houver transições pendentes...
+    if(this.busy()) {
+      this._queue.push(new CoreRequest(transition, operation, scene, tag));
+      return null;
+    }
+
+    // ...agendar para a metade da transição...
+    if(transition !== null) {
+      this.startTransition(transition, operation, scene, tag);
+      return null;
+    }
+
+    // ...ou executar imediatamente:
+    return this.execute(operation, scene, tag);
   }
 
   /**
-   * Obtém todos os sprites rotulados por uma tag específica.
+   * Executa uma operação na pilha de cenas imediatamente.
    *
-   * @param {string} tag Tag.
+   * @param {u8} operation Operação.
+   * @param {Scene | null} scene Cena da operação.
+   * @param {string} tag Tag da operação.
    *
-   * @return {Sprite[]}
+   * @return {Scene | null} Cena empilhada (ao empilhar), desempilhada (ao
+   *         desempilhar), substituída (ao substituir) ou de destino (ao
+   *         desempilhar até uma tag).
    */
-  getTag(tag: string): Sprite[] {
-    if(this.hasTag(tag)) {
-      return this.tags.get(tag);
-    }
+  execute(operation: u8, scene: Scene | null, tag: string): Scene | null {
+    // Desempilhar a cena atual, retomando a cena abaixo dela...
+    if(operation === CORE_OPERATION_POP) {
+      if(this.scenes.length === 0) {
+        return null;
+      }
 
-    return [];
-  }
+      let popped: Scene = this.scenes.pop();
+      popped.onExit();
 
-  /**
-   * Game loop.
-   */
-  loop(): void {
-    // Atualizar controles...
-    p1.update();
-    p2.update();
-    p3.update();
-    p4.update();
-    mouse.update();
+      let current: Scene | null = this.top();
 
-    // Filtro de sprites ativos.
-    let filter: Sprite[] = [];
+      if(current !== null) {
+        current.onResume();
+      }
 
-    // Limpar UIDs e tags...
-    this.uids.clear();
-    this.tags.clear();
+      return popped;
+    }
 
-    // Clasificar sprites...
-    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
-      let sprite: Sprite = this.sprites[index];
-      let uid   : u32    = sprite.uid;
-      let tag   : string = sprite.tag;
+    // Desempilhar cenas acima da cena de destino...
+    if(operation === CORE_OPERATION_POP_TO) {
+      let target: i32 = this.find(tag);
 
-      // Salvar UID deste sprite:
-      if(!this.uids.has(uid)) {
-        this.uids.set(uid, sprite);
+      if(target < 0) {
+        return null;
       }
 
-      // Criar identificador, caso não exista...
-      if(!this.tags.has(tag)) {
-        this.tags.set(tag, []);
+      if(target < this.scenes.length - 1) {
+        while(this.scenes.length - 1 > target) {
+          let popped: Scene = this.scenes.pop();
+          popped.onExit();
+        }
+
+        this.scenes[target].onResume();
       }
 
-      // Classificar este sprite:
-      this.tags.get(tag).push(sprite);
+      return this.scenes[target];
     }
 
-    // Acionar evento de criação (apenas uma vez):
-    if(!this._created) {
-      this.onCreate();
-      this._created = true;
+    if(scene === null) {
+      return null;
     }
 
-    // Acionar evento de update:
-    this.update();
+    let current: Scene | null = this.top();
+    let result : Scene | null = scene;
 
-    // Percorrer sprites...
-    for(let index: i32 = 0; index < this.sprites.length; index += 1) {
-      let sprite: Sprite = this.sprites[index];
+    // Substituir a cena atual, sem pausar ou retomar as cenas abaixo...
+    if(operation === CORE_OPERATION_REPLACE) {
+      result = current;
 
-      // Seus eventos só serão acionados quando estiver ativo...
-      if(!sprite._destroyed) {
+      if(current !== null) {
+        this.scenes.pop();
+        current.onExit();
+      }
+    }
+    // ...ou pausar a cena atual, empilhando a nova cena sobre ela:
+    else if(current !== null) {
+      current.onPause();
+    }
 
-        // Acionar evento de criação (apenas uma vez):
-        if(!sprite._created) {
-          sprite.onCreate();
-          sprite._created = true;
-        }
+    // Colocar a nova cena no topo (criando-a antes de entrar):
+    scene.core = this;
+    this.scenes.push(scene);
+    scene.create();
+    scene.onEnter();
 
-        // Acionar eventos de update e de desenho:
-        sprite.update();
-        sprite.draw();
+    return result;
+  }
 
-        // Caso o sprite continue ativo após seus eventos, ele passará pelo
-        // filtro e continuará na lista no próximo loop...
-        if(!sprite._destroyed) {
-          filter.push(sprite);
-        }
-        // ...do contrário, acionar evento de destruição:
-        else {
-          sprite.onDestroy();
-        }
-      }
-    }
+  /**
+   * Empilha uma cena, pausando a cena atual.
+   *
+   * @param {Scene} scene Cena a ser empilhada.
+   * @param {Transition | null} transition Transição. Quando informada, a cena
+   *        só é empilhada na metade da transição. Durante outra transição, a
+   *        operação é enfileirada.
+   *
+   * @return {Scene}
+   */
+  push(scene: Scene, transition: Transition | null = null): Scene {
+    this.run(CORE_OPERATION_PUSH, scene, "", transition);
+    return scene;
+  }
 
-    // Filtrar sprites...
-    this.sprites = filter;
+  /**
+   * Desempilha a cena atual, retomando a cena abaixo dela.
+   *
+   * @param {Transition | null} transition Transição. Quando informada, a cena
+   *        só é desempilhada na metade da transição. Durante outra transição,
+   *        a operação é enfileirada.
+   *
+   * @return {Scene | null} Cena desempilhada (ou `null`, se não houver cenas
+   *         ou a operação tiver sido agendada).
+   */
+  pop(transition: Transition | null = null): Scene | null {
+    return this.run(CORE_OPERATION_POP, null, "", transition);
+  }
 
-    // Atualizar paleta de cores + flags...
-    canvas.updatePalette();
-    canvas.updateSystemFlags();
+  /**
+   * Substitui a cena atual por outra, sem pausar ou retomar as cenas abaixo.
+   *
+   * @param {Scene} scene Nova cena.
+   * @param {Transition | null} transition Transição. Quando informada, a cena
+   *        só é substituída na metade da transição. Durante outra transição,
+   *        a operação é enfileirada.
+   *
+   * @return {Scene | null} Cena substituída (ou `null`, se não houver cenas
+   *         ou a operação tiver sido agendada).
+   */
+  replace(scene: Scene, transition: Transition | null = null): Scene | null {
+    return this.run(CORE_OPERATION_REPLACE, scene, "", transition);
   }
 
   /**
-   * @event onCreate
+   * Desempilha cenas até que a cena do topo tenha a tag especificada.
+   *
+   * @param {string} tag Tag da cena de destino.
+   * @param {Transition | null} transition Transição. Quando informada, as
+   *        cenas só são desempilhadas na metade da transição. Durante outra
+   *        transição, a operação é enfileirada.
+   *
+   * @return {boolean} Retorna `false` quando nenhuma cena possui a tag.
    */
-  onCreate(): void {
-    // ...
+  popTo(tag: string, transition: Transition | null = null): boolean {
+    // Não desempilhar nada quando a cena de destino não existir...
+    if(this.find(tag) < 0) {
+      return false;
+    }
+
+    this.run(CORE_OPERATION_POP_TO, null, tag, transition);
+    return true;
   }
 
   /**
-   * @event update
+   * Desenha as cenas pausadas visíveis sob o topo da pilha. A partir do
+   * topo, as cenas abaixo são desenhadas enquanto permitirem
+   * (`drawWhenPaused`): a primeira cena que não permitir oculta as demais.
    */
-  update(): void {
-    // ...
+  renderPaused(): void {
+    let top  : i32 = this.scenes.length - 1;
+    let first: i32 = top;
+
+    // Procurar a cena visível mais ao fundo...
+    while(first > 0 && this.scenes[first - 1].drawWhenPaused) {
+      first -= 1;
+    }
+
+    // ...e desenhar as cenas de baixo para cima:
+    for(let index: i32 = first; index < top; index += 1) {
+      this.scenes[index].render();
+    }
   }
-}
 
-// ==========================================================================
-// core.ts
-// ==========================================================================
-/**
- * @class Core
- *
- * @description
- * Gerenciador de cenas.
- */
-export class Core {
-  /** Lista de cenas do jogo. */
-  scenes: Scene[];
+  /**
+   * Executa a operação pendente da transição em andamento.
+   */
+  resolveTransition(): void {
+    this.execute(this._pendingOperation, this._pendingScene, this._pendingTag);
+    this._pendingScene = null;
+    this._pendingTag   = "";
 
-  /** Índice da cena selecionada como ativa. */
-  index: i32;
+    // Bloquear os controles da nova cena até o fim da transição:
+    let incoming: Scene | null = this.top();
 
-  /** Quando `true`, seleciona a última cena da pilha como ativa. */
-  auto: boolean;
+    if(incoming !== null) {
+      incoming._inputBlocked = true;
+    }
+
+    this._blocked = incoming;
+  }
 
   /**
-   * @constructor
+   * Executa as operações enfileiradas, até iniciar a próxima transição.
    */
-  constructor() {
-    this.scenes = [];
-    this.index = 0;
-    this.auto = true;
+  flush(): void {
+    while(this.transition === null && this._queue.length > 0) {
+      let request   : CoreRequest       = this._queue.shift();
+      let transition: Transition | null = request.transition;
+
+      if(transition !== null) {
+        this.startTransition(transition, request.operation, request.scene, request.tag);
+      }
+      else {
+        this.execute(request.operation, request.scene, request.tag);
+      }
+    }
   }
 
   /**
-   * Obtém a cena ativa.
+   * Game loop (durante uma transição).
    *
-   * @return {Scene}
+   * @param {Transition} transition Transição em andamento.
    */
-  getScene(): Scene {
-    if(this.auto) {
-      this.index = this.scenes.length - 1;
+  loopTransition(transition: Transition): void {
+    let switched: boolean = false;
+
+    // Trocar de cena na metade da transição:
+    if(!transition._switched && transition.counter >= transition.half()) {
+      transition._switched = true;
+      transition.onCover();
+      this.resolveTransition();
+      switched = true;
     }
 
-    return this.scenes[this.index];
+    // Desenhar cenas...
+    if(this.scenes.length > 0) {
+      let scene: Scene = this.scenes[this.scenes.length - 1];
+
+      this.renderPaused();
+
+      // A cena atual fica congelada enquanto é coberta, e a nova cena
+      // executa normalmente (com os controles bloqueados)...
+      if(transition._switched) {
+        scene.loop();
+      }
+      else {
+        scene.render();
+      }
+    }
+
+    // Revelar a nova cena após seu primeiro game loop:
+    if(switched) {
+      transition.onReveal();
+    }
+
+    // Aplicar efeitos da transição:
+    transition.counter += 1;
+    transition.apply(transition.coverage());
+    canvas.updatePalette();
+
+    // Encerrar transição e liberar os controles da nova cena...
+    if(transition.finished()) {
+      transition.onFinish();
+      canvas.updatePalette();
+
+      let blocked: Scene | null = this._blocked;
+
+      if(blocked !== null) {
+        blocked._inputBlocked = false;
+      }
+
+      this._blocked   = null;
+      this.transition = null;
+
+      // Executar as operações enfileiradas:
+      this.flush();
+    }
   }
 
   /**
    * Game loop.
    */
   loop(): void {
+    let transition: Transition | null = this.transition;
+
+    // Executar transição em andamento...
+    if(transition !== null) {
+      this.update();
+      this.loopTransition(transition);
+    }
+
     // Verificar se existem cenas disponíveis...
-    if(this.scenes.length > 0) {
+    else if(this.scenes.length > 0) {
       // Acionar evento de update:
       this.update();
 
+      // Cena do topo da pilha.
+      let scene: Scene = this.scenes[this.scenes.length - 1];
+
+      // Desenhar cenas pausadas abaixo dela, quando permitido:
+      this.renderPaused();
+
       // Executar loop sob a cena:
-      let scene: Scene = this.getScene();
-          scene.loop();
-      }
+      scene.loop();
+    }
 
     // ...quando não há cenas disponíveis, um evento é acionado:
     else {
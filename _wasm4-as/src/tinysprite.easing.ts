@@ -0,0 +1,184 @@
+/**
+ * @name TinySprite Easing functions for WASM-4
+ * @author Mr.Rafael
+ * @license MIT
+ * @version 0.0.1
+ *
+ * @description
+ * Funções de suavização (easing) usadas por tweens. Todas recebem o progresso
+ * (de `0.0` a `1.0`) e retornam o progresso suavizado. Algumas delas (back e
+ * elastic) ultrapassam esses limites propositalmente.
+ *
+ * ```
+ * import {EASE_LINEAR, EASE_QUAD_IN, EASE_QUAD_OUT, EASE_QUAD_IN_OUT, EASE_CUBIC_IN, EASE_CUBIC_OUT, EASE_CUBIC_IN_OUT, EASE_BACK_IN, EASE_BACK_OUT, EASE_BACK_IN_OUT, EASE_ELASTIC_IN, EASE_ELASTIC_OUT, EASE_ELASTIC_IN_OUT, EASE_BOUNCE_IN, EASE_BOUNCE_OUT, EASE_BOUNCE_IN_OUT, bounceOut, ease} from "./tinysprite.easing";
+ * ```
+ */
+
+/** Suavização linear (nenhuma). */
+export const EASE_LINEAR: u8 = 0;
+
+/** Suavização quadrática (entrada). */
+export const EASE_QUAD_IN: u8 = 1;
+
+/** Suavização quadrática (saída). */
+export const EASE_QUAD_OUT: u8 = 2;
+
+/** Suavização quadrática (entrada e saída). */
+export const EASE_QUAD_IN_OUT: u8 = 3;
+
+/** Suavização cúbica (entrada). */
+export const EASE_CUBIC_IN: u8 = 4;
+
+/** Suavização cúbica (saída). */
+export const EASE_CUBIC_OUT: u8 = 5;
+
+/** Suavização cúbica (entrada e saída). */
+export const EASE_CUBIC_IN_OUT: u8 = 6;
+
+/** Suavização com recuo (entrada). */
+export const EASE_BACK_IN: u8 = 7;
+
+/** Suavização com recuo (saída). */
+export const EASE_BACK_OUT: u8 = 8;
+
+/** Suavização com recuo (entrada e saída). */
+export const EASE_BACK_IN_OUT: u8 = 9;
+
+/** Suavização elástica (entrada). */
+export const EASE_ELASTIC_IN: u8 = 10;
+
+/** Suavização elástica (saída). */
+export const EASE_ELASTIC_OUT: u8 = 11;
+
+/** Suavização elástica (entrada e saída). */
+export const EASE_ELASTIC_IN_OUT: u8 = 12;
+
+/** Suavização com quique (entrada). */
+export const EASE_BOUNCE_IN: u8 = 13;
+
+/** Suavização com quique (saída). */
+export const EASE_BOUNCE_OUT: u8 = 14;
+
+/** Suavização com quique (entrada e saída). */
+export const EASE_BOUNCE_IN_OUT: u8 = 15;
+
+/** Intensidade do recuo. */
+const BACK_C1: f32 = 1.70158;
+
+/** Intensidade do recuo (entrada e saída). */
+const BACK_C2: f32 = BACK_C1 * 1.525;
+
+/** Período da suavização elástica. */
+const ELASTIC_C4: f32 = (2 * Mathf.PI) / 3;
+
+/** Período da suavização elástica (entrada e saída). */
+const ELASTIC_C5: f32 = (2 * Mathf.PI) / 4.5;
+
+/**
+ * Suavização com quique (saída).
+ *
+ * @param {f32} t Progresso.
+ *
+ * @returns {f32}
+ */
+export function bounceOut(t: f32): f32 {
+  const n1: f32 = 7.5625;
+  const d1: f32 = 2.75;
+
+  if(t < 1 / d1) {
+    return n1 * t * t;
+  }
+  else if(t < 2 / d1) {
+    t -= 1.5 / d1;
+    return (n1 * t * t) + 0.75;
+  }
+  else if(t < 2.5 / d1) {
+    t -= 2.25 / d1;
+    return (n1 * t * t) + 0.9375;
+  }
+
+  t -= 2.625 / d1;
+  return (n1 * t * t) + 0.984375;
+}
+
+/**
+ * Aplica uma função de suavização.
+ *
+ * @param {u8} type Tipo de suavização (ex: `EASE_QUAD_IN`).
+ * @param {f32} t Progresso (de `0.0` a `1.0`).
+ *
+ * @returns {f32} Progresso suavizado.
+ */
+export function ease(type: u8, t: f32): f32 {
+  // Limitar progresso...
+  t = Mathf.max(0, Mathf.min(1, t));
+
+  switch(type) {
+    case EASE_QUAD_IN: {
+      return t * t;
+    }
+    case EASE_QUAD_OUT: {
+      return 1 - ((1 - t) * (1 - t));
+    }
+    case EASE_QUAD_IN_OUT: {
+      return t < 0.5? 2 * t * t: 1 - (Mathf.pow((-2 * t) + 2, 2) / 2);
+    }
+    case EASE_CUBIC_IN: {
+      return t * t * t;
+    }
+    case EASE_CUBIC_OUT: {
+      return 1 - Mathf.pow(1 - t, 3);
+    }
+    case EASE_CUBIC_IN_OUT: {
+      return t < 0.5? 4 * t * t * t: 1 - (Mathf.pow((-2 * t) + 2, 3) / 2);
+    }
+    case EASE_BACK_IN: {
+      return ((BACK_C1 + 1) * t * t * t) - (BACK_C1 * t * t);
+    }
+    case EASE_BACK_OUT: {
+      return 1 + ((BACK_C1 + 1) * Mathf.pow(t - 1, 3)) + (BACK_C1 * Mathf.pow(t - 1, 2));
+    }
+    case EASE_BACK_IN_OUT: {
+      return t < 0.5
+        ? (Mathf.pow(2 * t, 2) * (((BACK_C2 + 1) * 2 * t) - BACK_C2)) / 2
+        : ((Mathf.pow((2 * t) - 2, 2) * (((BACK_C2 + 1) * ((t * 2) - 2)) + BACK_C2)) + 2) / 2;
+    }
+    case EASE_ELASTIC_IN: {
+      if(t === 0 || t === 1) {
+        return t;
+      }
+
+      return -Mathf.pow(2, (10 * t) - 10) * Mathf.sin(((t * 10) - 10.75) * ELASTIC_C4);
+    }
+    case EASE_ELASTIC_OUT: {
+      if(t === 0 || t === 1) {
+        return t;
+      }
+
+      return (Mathf.pow(2, -10 * t) * Mathf.sin(((t * 10) - 0.75) * ELASTIC_C4)) + 1;
+    }
+    case EASE_ELASTIC_IN_OUT: {
+      if(t === 0 || t === 1) {
+        return t;
+      }
+
+      return t < 0.5
+        ? -(Mathf.pow(2, (20 * t) - 10) * Mathf.sin(((20 * t) - 11.125) * ELASTIC_C5)) / 2
+        : ((Mathf.pow(2, (-20 * t) + 10) * Mathf.sin(((20 * t) - 11.125) * ELASTIC_C5)) / 2) + 1;
+    }
+    case EASE_BOUNCE_IN: {
+      return 1 - bounceOut(1 - t);
+    }
+    case EASE_BOUNCE_OUT: {
+      return bounceOut(t);
+    }
+    case EASE_BOUNCE_IN_OUT: {
+      return t < 0.5
+        ? (1 - bounceOut(1 - (2 * t))) / 2
+        : (1 + bounceOut((2 * t) - 1)) / 2;
+    }
+  }
+
+  // Linear:
+  return t;
+}
@@ -0,0 +1,168 @@
+/**
+ * @name TinySprite Fixed-point math for WASM-4
+ * @author Mr.Rafael
+ * @license MIT
+ * @version 0.0.1
+ *
+ * @description
+ * Matemática de ponto fixo (16.16) para movimentos com precisão de subpixel.
+ * Os valores são guardados em `i32`: os 16 bits superiores são a parte
+ * inteira e os 16 bits inferiores são a parte fracionária.
+ *
+ * ```
+ * import {FIXED_SHIFT, FIXED_ONE, FIXED_MASK, fx, fxf, fxint, fxround, fxtof, fxmul, fxdiv, fxsin, fxcos} from "./tinysprite.fixed";
+ * ```
+ */
+
+/** Quantidade de bits da parte fracionária. */
+export const FIXED_SHIFT: i32 = 16;
+
+/** Valor `1.0` em ponto fixo. */
+export const FIXED_ONE: i32 = 1 << FIXED_SHIFT;
+
+/** Máscara da parte fracionária. */
+export const FIXED_MASK: i32 = FIXED_ONE - 1;
+
+/**
+ * Look-Up Table de senos (de 0º a 90º), em ponto fixo. Os demais ângulos
+ * são obtidos por simetria.
+ */
+const SIN_TABLE: usize = memory.data<i32>([
+  0, 1144, 2287, 3430, 4572, 5712, 6850, 7987,
+  9121, 10252, 11380, 12505, 13626, 14742, 15855, 16962,
+  18064, 19161, 20252, 21336, 22415, 23486, 24550, 25607,
+  26656, 27697, 28729, 29753, 30767, 31772, 32768, 33754,
+  34729, 35693, 36647, 37590, 38521, 39441, 40348, 41243,
+  42126, 42995, 43852, 44695, 45525, 46341, 47143, 47930,
+  48703, 49461, 50203, 50931, 51643, 52339, 53020, 53684,
+  54332, 54963, 55578, 56175, 56756, 57319, 57865, 58393,
+  58903, 59396, 59870, 60326, 60764, 61183, 61584, 61966,
+  62328, 62672, 62997, 63303, 63589, 63856, 64104, 64332,
+  64540, 64729, 64898, 65048, 65177, 65287, 65376, 65446,
+  65496, 65526, 65536,
+]);
+
+/**
+ * Converte um número inteiro para ponto fixo.
+ *
+ * @param {i32} value Número inteiro.
+ *
+ * @returns {i32}
+ */
+export function fx(value: i32): i32 {
+  return value << FIXED_SHIFT;
+}
+
+/**
+ * Converte um número decimal para ponto fixo.
+ *
+ * @param {f64} value Número decimal.
+ *
+ * @returns {i32}
+ */
+export function fxf(value: f64): i32 {
+  return Math.round(value * (FIXED_ONE as f64)) as i32;
+}
+
+/**
+ * Converte um valor em ponto fixo para um número inteiro (arredondando para
+ * baixo, inclusive em valores negativos).
+ *
+ * @param {i32} value Valor em ponto fixo.
+ *
+ * @returns {i32}
+ */
+export function fxint(value: i32): i32 {
+  return value >> FIXED_SHIFT;
+}
+
+/**
+ * Converte um valor em ponto fixo para o número inteiro mais próximo.
+ *
+ * @param {i32} value Valor em ponto fixo.
+ *
+ * @returns {i32}
+ */
+export function fxround(value: i32): i32 {
+  return (value + (FIXED_ONE >> 1)) >> FIXED_SHIFT;
+}
+
+/**
+ * Converte um valor em ponto fixo para um número decimal.
+ *
+ * @param {i32} value Valor em ponto fixo.
+ *
+ * @returns {f64}
+ */
+export function fxtof(value: i32): f64 {
+  return (value as f64) / (FIXED_ONE as f64);
+}
+
+/**
+ * Multiplica dois valores em ponto fixo.
+ *
+ * @param {i32} a Primeiro valor.
+ * @param {i32} b Segundo valor.
+ *
+ * @returns {i32}
+ */
+export function fxmul(a: i32, b: i32): i32 {
+  return (((a as i64) * (b as i64)) >> FIXED_SHIFT) as i32;
+}
+
+/**
+ * Divide dois valores em ponto fixo. Divisões por zero retornam o maior
+ * valor possível, com o sinal do dividendo.
+ *
+ * @param {i32} a Dividendo.
+ * @param {i32} b Divisor.
+ *
+ * @returns {i32}
+ */
+export function fxdiv(a: i32, b: i32): i32 {
+  if(b === 0) {
+    return a < 0? i32.MIN_VALUE: i32.MAX_VALUE;
+  }
+
+  return (((a as i64) << FIXED_SHIFT) / (b as i64)) as i32;
+}
+
+/**
+ * Calcula o seno de um ângulo, usando a Look-Up Table.
+ *
+ * @param {i32} angle Ângulo (em graus).
+ *
+ * @returns {i32} Seno, em ponto fixo.
+ */
+export function fxsin(angle: i32): i32 {
+  // Normalizar ângulo (de 0º a 359º):
+  angle %= 360;
+
+  if(angle < 0) {
+    angle += 360;
+  }
+
+  // Obter seno por simetria, a partir do primeiro quadrante...
+  if(angle <= 90) {
+    return load<i32>(SIN_TABLE + ((angle as usize) << 2));
+  }
+  else if(angle <= 180) {
+    return load<i32>(SIN_TABLE + (((180 - angle) as usize) << 2));
+  }
+  else if(angle <= 270) {
+    return -load<i32>(SIN_TABLE + (((angle - 180) as usize) << 2));
+  }
+
+  return -load<i32>(SIN_TABLE + (((360 - angle) as usize) << 2));
+}
+
+/**
+ * Calcula o cosseno de um ângulo, usando a Look-Up Table.
+ *
+ * @param {i32} angle Ângulo (em graus).
+ *
+ * @returns {i32} Cosseno, em ponto fixo.
+ */
+export function fxcos(angle: i32): i32 {
+  return fxsin(angle + 90);
+}
@@ -0,0 +1,357 @@
+/**
+ * @name TinySprite Tiled Script for WASM-4
+ * @author Mr.Rafael
+ * @license MIT
+ * @version 1.0.0
+ *
+ * @description
+ * Conversor de mapas do Tiled (formato JSON) para dados compactos, que podem
+ * ser lidos com `Tilemap.fromData()`.
+ *
+ * Uso (Node.js):
+ *
+ * ```
+ * node tinysprite.tiled.js level1.json level1 > level1.ts
+ * ```
+ *
+ * Estrutura dos dados (little-endian):
+ * - Assinatura "TM" (2 bytes), versão (u8) e quantidade de camadas (u8);
+ * - Colunas (u16), linhas (u16), largura (u8) e altura (u8) dos tiles;
+ * - Quantidade de tiles com flags (u16) e quantidade de objetos (u16);
+ * - Flags de colisão de cada tile (u8);
+ * - Camadas de tiles: nome (u8 + ASCII) e tiles (i16, `-1` quando vazio);
+ * - Objetos: nome e tipo (u8 + ASCII), X e Y (i16), largura e altura (u16)
+ *   e propriedades (u8 + pares de chave/valor em u8 + ASCII).
+ */
+
+/** Versão do formato dos dados. */
+const TILED_FORMAT_VERSION = 1;
+
+/** Flags de colisão dos tiles. */
+const TileFlag = {
+  SOLID      : 0x01,
+  PLATFORM   : 0x02,
+  SLOPE_RIGHT: 0x04,
+  SLOPE_LEFT : 0x08,
+};
+
+/** Nomes de propriedades (ou classes) do Tiled associados a cada flag. */
+const TileFlagNames = {
+  solid     : TileFlag.SOLID,
+  platform  : TileFlag.PLATFORM,
+  slopeRight: TileFlag.SLOPE_RIGHT,
+  slopeLeft : TileFlag.SLOPE_LEFT,
+};
+
+/**
+ * Bits de espelhamento e rotação dos GIDs do Tiled. Tiles espelhados ou
+ * rotacionados não são suportados pelo formato.
+ */
+const GID_FLIP_MASK = 0xF0000000;
+
+/**
+ * Representa um valor de 8-bits.
+ *
+ * @param {number} value Valor a ser convertido.
+ *
+ * @returns {number[]}
+ */
+function u8(value) {
+  return [(Math.trunc(value) || 0) & 0xFF];
+}
+
+/**
+ * Representa um valor de 16-bits (little-endian).
+ *
+ * @param {number} value Valor a ser convertido.
+ *
+ * @returns {number[]}
+ */
+function u16(value) {
+  const word = (Math.trunc(value) || 0) & 0xFFFF;
+  return [word & 0xFF, word >> 8];
+}
+
+/**
+ * Representa um texto ASCII, precedido de seu tamanho (u8). Textos maiores
+ * que 255 caracteres são cortados.
+ *
+ * @param {string} text Texto a ser convertido.
+ *
+ * @returns {number[]}
+ */
+function str(text) {
+  const chars = String(text ?? "").slice(0, 255).split("").map((char) => char.charCodeAt(0) & 0x7F);
+  return [chars.length, ...chars];
+}
+
+/**
+ * Decodifica os dados de uma camada de tiles do Tiled.
+ *
+ * @param {object} layer Camada de tiles.
+ *
+ * @returns {number[]} GIDs da camada.
+ */
+function decodeLayerData(layer) {
+  // Dados em formato CSV/array...
+  if(Array.isArray(layer.data)) {
+    return layer.data;
+  }
+
+  // Dados em formato base64 (com ou sem compressão)...
+  if(layer.encoding === "base64") {
+    let buffer = Buffer.from(layer.data, "base64");
+
+    if(layer.compression === "zlib") {
+      buffer = require("zlib").inflateSync(buffer);
+    }
+    else if(layer.compression === "gzip") {
+      buffer = require("zlib").gunzipSync(buffer);
+    }
+    else if(layer.compression) {
+      throw new Error(`Compressão não suportada na camada "${layer.name}": ${layer.compression}`);
+    }
+
+    const gids = [];
+
+    for(let offset = 0; offset < buffer.length; offset += 4) {
+      gids.push(buffer.readUInt32LE(offset));
+    }
+
+    return gids;
+  }
+
+  throw new Error(`Formato de dados não suportado na camada "${layer.name}".`);
+}
+
+/**
+ * Lista todas as camadas de um mapa, incluindo as camadas dentro de grupos.
+ *
+ * @param {object[]} layers Camadas.
+ *
+ * @returns {object[]}
+ */
+function flattenLayers(layers) {
+  const result = [];
+
+  for(const layer of layers ?? []) {
+    if(layer.type === "group") {
+      result.push(...flattenLayers(layer.layers));
+    }
+    else {
+      result.push(layer);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Carrega os tilesets de um mapa. Tilesets externos em JSON são lidos a
+ * partir do diretório do mapa (tilesets em outros formatos são rejeitados).
+ *
+ * @param {object} map Mapa do Tiled.
+ * @param {string} baseDir Diretório do mapa.
+ *
+ * @returns {object[]}
+ */
+function loadTilesets(map, baseDir) {
+  return (map.tilesets ?? []).map((tileset) => {
+    if(!tileset.source) {
+      return tileset;
+    }
+
+    // Apenas tilesets externos em JSON são suportados...
+    if(!tileset.source.endsWith(".json") && !tileset.source.endsWith(".tsj")) {
+      throw new Error(`Tileset externo não suportado (use o formato JSON): ${tileset.source}`);
+    }
+
+    const path = require("path");
+    const fs   = require("fs");
+    const data = JSON.parse(fs.readFileSync(path.join(baseDir, tileset.source), "utf8"));
+
+    return {...data, firstgid: tileset.firstgid};
+  });
+}
+
+/**
+ * Calcula as flags de colisão de todos os tiles.
+ *
+ * @param {object[]} tilesets Tilesets.
+ *
+ * @returns {number[]} Flags, indexadas por tile (GID - 1).
+ */
+function collisionFlags(tilesets) {
+  const flags = [];
+
+  for(const tileset of tilesets) {
+    for(const tile of tileset.tiles ?? []) {
+      let value = 0;
+
+      // Flags definidas pela classe do tile...
+      const tileClass = tile.class ?? tile.type;
+
+      if(TileFlagNames.hasOwnProperty(tileClass)) {
+        value |= TileFlagNames[tileClass];
+      }
+
+      // ...ou por propriedades booleanas:
+      for(const property of tile.properties ?? []) {
+        if(TileFlagNames.hasOwnProperty(property.name) && property.value === true) {
+          value |= TileFlagNames[property.name];
+        }
+      }
+
+      const index = tileset.firstgid + tile.id - 1;
+
+      while(flags.length <= index) {
+        flags.push(0);
+      }
+
+      flags[index] = value;
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Converte um mapa do Tiled em dados compactos.
+ *
+ * @param {object} map Mapa do Tiled (JSON já interpretado).
+ * @param {string} baseDir Diretório do mapa (para tilesets externos).
+ *
+ * @returns {number[]} Bytes resultantes.
+ */
+function convert(map, baseDir = ".") {
+  if(map.infinite) {
+    throw new Error("Mapas infinitos não são suportados.");
+  }
+
+  const layers     = flattenLayers(map.layers);
+  const tileLayers = layers.filter((layer) => layer.type === "tilelayer");
+  const objects    = layers
+    .filter((layer) => layer.type === "objectgroup")
+    .flatMap((layer) => layer.objects ?? []);
+
+  const flags = collisionFlags(loadTilesets(map, baseDir));
+
+  if(tileLayers.length > 255) {
+    throw new Error("O mapa possui mais de 255 camadas de tiles.");
+  }
+
+  // Cabeçalho.
+  const bytes = [
+    ..."TM".split("").map((char) => char.charCodeAt(0)),
+    ...u8(TILED_FORMAT_VERSION),
+    ...u8(tileLayers.length),
+    ...u16(map.width),
+    ...u16(map.height),
+    ...u8(map.tilewidth),
+    ...u8(map.tileheight),
+    ...u16(flags.length),
+    ...u16(objects.length),
+  ];
+
+  // Flags de colisão:
+  for(const flag of flags) {
+    bytes.push(...u8(flag));
+  }
+
+  // Camadas de tiles:
+  for(const layer of tileLayers) {
+    const gids = decodeLayerData(layer);
+
+    bytes.push(...str(layer.name));
+
+    for(let index = 0; index < map.width * map.height; index += 1) {
+      const gid = gids[index] ?? 0;
+
+      if((gid & GID_FLIP_MASK) !== 0) {
+        const column = index % map.width;
+        const row    = Math.floor(index / map.width);
+
+        throw new Error(`Tile espelhado ou rotacionado não suportado na camada "${layer.name}" (${column}, ${row}).`);
+      }
+
+      bytes.push(...u16(gid - 1));
+    }
+  }
+
+  // Objetos:
+  for(const object of objects) {
+    const properties = object.properties ?? [];
+
+    bytes.push(
+      ...str(object.name),
+      ...str(object.class ?? object.type),
+      ...u16(object.x),
+      ...u16(object.y),
+      ...u16(object.width),
+      ...u16(object.height),
+      ...u8(properties.length),
+    );
+
+    for(const property of properties) {
+      bytes.push(...str(property.name), ...str(property.value));
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Gera o código AssemblyScript equivalente aos dados.
+ *
+ * @param {string} name Nome da constante.
+ * @param {number[]} bytes Bytes.
+ *
+ * @returns {string}
+ */
+function toAssemblyScript(name, bytes) {
+  const lines = [];
+
+  for(let index = 0; index < bytes.length; index += 16) {
+    const line = bytes
+      .slice(index, index + 16)
+      .map((byte) => "0x" + byte.toString(16).padStart(2, "0"))
+      .join(", ");
+
+    lines.push(`  ${line},`);
+  }
+
+  return `export const ${name} = memory.data<u8>([\n${lines.join("\n")}\n]);\n`;
+}
+
+if(typeof module !== "undefined") {
+  /** Exportação de módulos (Node.js). */
+  module.exports = {
+    TileFlag,
+    u8,
+    u16,
+    str,
+    decodeLayerData,
+    flattenLayers,
+    loadTilesets,
+    collisionFlags,
+    convert,
+    toAssemblyScript
+  };
+
+  // Execução direta: `node tinysprite.tiled.js <mapa.json> [nome]`
+  if(require.main === module) {
+    const path = require("path");
+    const fs   = require("fs");
+    const file = process.argv[2];
+
+    if(!file) {
+      console.error("Uso: node tinysprite.tiled.js <mapa.json> [nome]");
+      process.exit(1);
+    }
+
+    const name = process.argv[3] ?? path.basename(file, path.extname(file)).replace(/\W/g, "_");
+    const map  = JSON.parse(fs.readFileSync(file, "utf8"));
+
+    process.stdout.write(toAssemblyScript(name, convert(map, path.dirname(file))));
+  }
+}
@@ -15,6 +15,7 @@
  * ```
  */
 import * as w4 from "./wasm4";
+import {fxf} from "./tinysprite.fixed";
 
 //#region <misc.ts>
 /** Largura da tela do WASM-4. */
@@ -800,6 +801,21 @@ export class Velocity {
 
     return this.spd;
   }
+
+  /**
+   * Retorna a velocidade atual em ponto fixo, pronta para ser aplicada a um
+   * sprite com precisão de subpixel (o próprio sprite acumula as frações de
+   * pixel entre os quadros):
+   *
+   * ```
+   * sprite.moveFixed(vx.fixed(), vy.fixed());
+   * ```
+   *
+   * @returns {i32}
+   */
+  fixed(): i32 {
+    return fxf(this.spd);
+  }
 }
 
 //#endregion </velocity.ts>
@@ -2122,7 +2138,11 @@ export class Animation {
    * @returns {i16}
    */
   get(): i16 {
-    return this.frames[this.frames.length % this.index];
+    if(this.frames.length === 0) {
+      return -1;
+    }
+
+    return this.frames[this.index % this.frames.length];
   }
 
   /**
@@ -2131,7 +2151,10 @@ export class Animation {
    * @returns {i32} Índice de quadro de animação atual.
    */
   next(): i32 {
-    this.index = this.frames.length % (this.index + 1);
+    if(this.frames.length > 0) {
+      this.index = (this.index + 1) % this.frames.length;
+    }
+
     return this.index;
   }
 